@@ -1,14 +1,68 @@
+// Implemented in src/types/document.ts (FloorplanDocument); upgraded on load by the
+// migrations in src/utils/document.ts. Coordinates are millimetres, areas mm².
 export interface FloorplanExport {
-  version: string;
+  version: number;
   timestamp: string;
-  data: {
-    vertices: Record<string, { x: number; y: number }>;
-    edges: Record<string, { startId: string; endId: string; thickness: number }>;
-    surfaces: Record<string, { edgeIds: string[]; area: number; label?: string }>;
-  };
   metadata: {
-    totalArea: number;
+    totalArea: number; // m²
     roomCount: number;
-    wallCount: number;
+    wallCount: number; // separators not included
+    openingCount: number;
+  };
+  measurement: { pixelsPerMm: number; showMeasurements: boolean };
+  drawingSettings: {
+    resolution: number;
+    wallType: string;
+    openingType: string;
+    edgeKind?: 'wall' | 'separator';
+    polygonSides?: number; // Polygon tool, whole number from 3 to 24
+    angleSnap?: number; // degrees, 0 = off; 15 when missing
+  };
+  detectionSettings?: {
+    minRoomArea: number; // m²
+    includeVirtualSeparators: boolean;
+    ignoreFilaments: boolean;
+  };
+  underlay?: {
+    src: string; // image data URL
+    width: number; // image px
+    height: number;
+    x: number; // centre, mm
+    y: number;
+    rotation: number; // degrees
+    scale: number; // mm per image px
+    opacity: number;
+    locked: boolean;
+  };
+  data: {
+    vertices: Array<{ id: string; x: number; y: number }>;
+    edges: Array<{
+      id: string;
+      startVertexId: string;
+      endVertexId: string;
+      kind?: 'wall' | 'separator'; // default wall; separators only bound rooms
+      bulge?: number; // tan(sweep / 4) of a curved edge, positive to the left of start → end in plan (Y down)
+      thickness?: number; // mm
+      alignment?: 'center' | 'left' | 'right';
+      wallType?: string;
+    }>;
+    surfaces: Array<{
+      id: string;
+      edgeIds: string[];
+      area: number; // net of holes
+      name: string;
+      centroid: { x: number; y: number }; // area-weighted
+      labelPosition?: { x: number; y: number }; // visual centre, inside the room
+      holes?: string[][]; // edge loops of islands inside the room
+    }>;
+    openings: Array<{
+      id: string;
+      edgeId: string;
+      offset: number; // 0..1 along the host edge
+      width: number; // mm
+      type: 'door' | 'window' | 'opening';
+      hinge?: 'start' | 'end';
+      swing?: 'left' | 'right';
+    }>;
   };
 }
@@ -1,13 +1,29 @@
-import { useEffect } from 'react';
+import { useCallback, useEffect, useState, type DragEvent } from 'react';
 import { useSpatialStore } from './store/useSpatialStore';
 import { PixiCanvas } from './components/PixiCanvas';
 import { Toolbar } from './components/Toolbar';
 import { StatsPanel } from './components/StatsPanel';
+import { PropertiesPanel } from './components/PropertiesPanel';
+import { ImportDialog } from './components/ImportDialog';
+import { DXFImportDialog } from './components/DXFImportDialog';
+import { UnderlayPanel } from './components/UnderlayPanel';
+import { CalibrationDialog } from './components/CalibrationDialog';
+import { ProjectsDialog } from './components/ProjectsDialog';
+import { RecoveryPrompt } from './components/RecoveryPrompt';
+import { useAutosave } from './hooks/useAutosave';
+import { DeleteElementsCommand } from './utils/commands';
 import './App.css';
 
 function App() {
   const undo = useSpatialStore((state) => state.undo);
   const redo = useSpatialStore((state) => state.redo);
+  const dispatch = useSpatialStore((state) => state.dispatch);
+  const openDocument = useSpatialStore((state) => state.openDocument);
+  const openDXF = useSpatialStore((state) => state.openDXF);
+  const [recoveryResolved, setRecoveryResolved] = useState(false);
+  const handleRecoveryResolved = useCallback(() => setRecoveryResolved(true), []);
+
+  useAutosave(recoveryResolved);
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -25,19 +41,54 @@ function App() {
         e.preventDefault();
         redo();
       }
+      // Delete selection: Delete or Backspace (ignored while typing)
+      else if (
+        (e.key === 'Delete' || e.key === 'Backspace') &&
+        !(e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement)
+      ) {
+        const selectedIds = useSpatialStore.getState().selectedIds;
+        if (selectedIds.size > 0) {
+          e.preventDefault();
+          dispatch(new DeleteElementsCommand(Array.from(selectedIds)));
+        }
+      }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [undo, redo]);
+  }, [undo, redo, dispatch]);
+
+  // Open floorplans dropped onto the canvas
+  const handleDragOver = (e: DragEvent) => {
+    if (e.dataTransfer.types.includes('Files')) {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'copy';
+    }
+  };
+
+  const handleDrop = async (e: DragEvent) => {
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+
+    e.preventDefault();
+    const open = /\.dxf$/i.test(file.name) ? openDXF : openDocument;
+    open(await file.text(), file.name);
+  };
 
   return (
     <div className="app">
       <Toolbar />
-      <main className="canvas-container">
+      <main className="canvas-container" onDragOver={handleDragOver} onDrop={handleDrop}>
         <PixiCanvas />
         <StatsPanel />
+        <PropertiesPanel />
+        <UnderlayPanel />
       </main>
+      <ImportDialog />
+      <DXFImportDialog />
+      <CalibrationDialog />
+      <ProjectsDialog />
+      {!recoveryResolved && <RecoveryPrompt onResolved={handleRecoveryResolved} />}
     </div>
   );
 }
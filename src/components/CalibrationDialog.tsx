@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { useSpatialStore } from '../store/useSpatialStore';
+import { calibratePixelsPerMm, calibrateUnderlay } from '../utils/underlay';
+import { SetDrawingScaleCommand } from '../utils/commands';
+import './CalibrationDialog.css';
+
+/**
+ * Asks for the real distance between the two calibration points and applies it
+ * either to the underlay (rescaling the image) or to the drawing scale
+ */
+export const CalibrationDialog: React.FC = () => {
+  const points = useSpatialStore((state) => state.calibrationPoints);
+  if (!points) return null;
+
+  return <CalibrationForm points={points} />;
+};
+
+const CalibrationForm: React.FC<{ points: [{ x: number; y: number }, { x: number; y: number }] }> = ({ points }) => {
+  const underlay = useSpatialStore((state) => state.underlay);
+  const pixelsPerMm = useSpatialStore((state) => state.measurement.pixelsPerMm);
+  const setUnderlay = useSpatialStore((state) => state.setUnderlay);
+  const dispatch = useSpatialStore((state) => state.dispatch);
+  const setCalibrationPoints = useSpatialStore((state) => state.setCalibrationPoints);
+  const setMode = useSpatialStore((state) => state.setMode);
+
+  const [first, second] = points;
+  const measuredMm = Math.hypot(second.x - first.x, second.y - first.y) / pixelsPerMm;
+  const [distance, setDistance] = useState(Math.round(measuredMm));
+  const valid = Number.isFinite(distance) && distance > 0 && measuredMm > 0;
+
+  const finish = () => {
+    setCalibrationPoints(null);
+    setMode('select');
+  };
+
+  const handleScaleUnderlay = () => {
+    if (underlay) setUnderlay(calibrateUnderlay(underlay, first, second, distance, pixelsPerMm));
+    finish();
+  };
+
+  const handleSetDrawingScale = () => {
+    const calibrated = calibratePixelsPerMm(first, second, distance);
+    if (calibrated) dispatch(new SetDrawingScaleCommand(calibrated));
+    finish();
+  };
+
+  return (
+    <div className="calibration-dialog-backdrop" onClick={finish}>
+      <div className="calibration-dialog" role="dialog" aria-modal="true" onClick={(e) => e.stopPropagation()}>
+        <h2 className="calibration-dialog-title">Calibrate</h2>
+        <p className="calibration-dialog-summary">
+          The points are {Math.round(measuredMm)} mm apart at the current scale. How far apart are they really?
+        </p>
+        <label className="calibration-dialog-row">
+          <span>Real distance</span>
+          <input
+            type="number"
+            min={1}
+            value={Number.isFinite(distance) ? distance : ''}
+            autoFocus
+            onChange={(e) => setDistance(Number(e.target.value))}
+          />
+          <span>mm</span>
+        </label>
+        <div className="calibration-dialog-actions">
+          <button onClick={finish}>Cancel</button>
+          <button
+            onClick={handleSetDrawingScale}
+            disabled={!valid}
+            title="Keep the image and drawing as they are and change the pixels per millimetre"
+          >
+            Set Drawing Scale
+          </button>
+          <button
+            className="primary"
+            onClick={handleScaleUnderlay}
+            disabled={!valid || !underlay || underlay.locked}
+            title="Resize the image so the points are the real distance apart"
+          >
+            Scale Underlay
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { useSpatialStore, type PendingDXFImport } from '../store/useSpatialStore';
+import { DXF_UNITS } from '../utils/dxfImport';
+import './DXFImportDialog.css';
+
+const DEFAULT_TOLERANCE_MM = 1;
+
+/**
+ * Lets the user choose which layers of a DXF drawing to import and in what units
+ */
+export const DXFImportDialog: React.FC = () => {
+  const pending = useSpatialStore((state) => state.pendingDXF);
+  if (!pending) return null;
+
+  return <DXFImportForm pending={pending} />;
+};
+
+const DXFImportForm: React.FC<{ pending: PendingDXFImport }> = ({ pending }) => {
+  const importDXF = useSpatialStore((state) => state.importDXF);
+  const cancel = useSpatialStore((state) => state.cancelDXFImport);
+  const { fileName, drawing } = pending;
+
+  const [layers, setLayers] = useState(() => new Set(drawing.layers.map((layer) => layer.name)));
+  // Unitless drawings are assumed to be in millimetres
+  const [units, setUnits] = useState(DXF_UNITS[drawing.units] ? drawing.units : 4);
+  const [tolerance, setTolerance] = useState(DEFAULT_TOLERANCE_MM);
+
+  const toggleLayer = (name: string) => {
+    const next = new Set(layers);
+    if (next.has(name)) next.delete(name);
+    else next.add(name);
+    setLayers(next);
+  };
+
+  const skipped = Object.entries(drawing.skipped);
+
+  const handleImport = () => {
+    importDXF({ layers: Array.from(layers), unitScale: DXF_UNITS[units].mm, tolerance });
+  };
+
+  return (
+    <div className="dxf-dialog-backdrop" onClick={cancel}>
+      <div className="dxf-dialog" role="dialog" aria-modal="true" onClick={(e) => e.stopPropagation()}>
+        <h2 className="dxf-dialog-title">Import {fileName}</h2>
+
+        {drawing.layers.length === 0 ? (
+          <p className="dxf-dialog-note">The drawing has no lines, polylines or arcs to import.</p>
+        ) : (
+          <fieldset className="dxf-dialog-layers">
+            <legend>Layers</legend>
+            {drawing.layers.map(({ name, entityCount }) => (
+              <label key={name}>
+                <input type="checkbox" checked={layers.has(name)} onChange={() => toggleLayer(name)} />
+                {name} <span className="dxf-dialog-count">({entityCount})</span>
+              </label>
+            ))}
+          </fieldset>
+        )}
+
+        <div className="dxf-dialog-row">
+          <label htmlFor="dxf-units">Units</label>
+          <select id="dxf-units" value={units} onChange={(e) => setUnits(Number(e.target.value))}>
+            {Object.entries(DXF_UNITS).map(([code, { name }]) => (
+              <option key={code} value={code}>
+                {name}
+              </option>
+            ))}
+          </select>
+          {!DXF_UNITS[drawing.units] && <span className="dxf-dialog-count">not set in the file</span>}
+        </div>
+
+        <div className="dxf-dialog-row">
+          <label htmlFor="dxf-tolerance">Join endpoints within</label>
+          <input
+            id="dxf-tolerance"
+            type="number"
+            min={0}
+            step={0.5}
+            value={tolerance}
+            onChange={(e) => setTolerance(Math.max(0, Number(e.target.value)))}
+          />
+          <span>mm</span>
+        </div>
+
+        {skipped.length > 0 && (
+          <p className="dxf-dialog-note">
+            Not imported: {skipped.map(([type, count]) => `${count} ${type}`).join(', ')}
+          </p>
+        )}
+
+        <div className="dxf-dialog-actions">
+          <button onClick={cancel}>Cancel</button>
+          <button className="primary" onClick={handleImport} disabled={layers.size === 0} autoFocus>
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import React from 'react';
+import { useSpatialStore } from '../store/useSpatialStore';
+import './ImportDialog.css';
+
+/**
+ * Reports problems found while opening a file
+ * Errors mean the file was rejected; issues mean it loaded but has integrity problems.
+ */
+export const ImportDialog: React.FC = () => {
+  const report = useSpatialStore((state) => state.importReport);
+  const dismiss = useSpatialStore((state) => state.dismissImportReport);
+  const undo = useSpatialStore((state) => state.undo);
+
+  if (!report) return null;
+
+  const failed = report.errors.length > 0;
+  const problems = failed ? report.errors : report.issues;
+
+  const handleUndo = () => {
+    undo();
+    dismiss();
+  };
+
+  return (
+    <div className="import-dialog-backdrop" onClick={dismiss}>
+      <div className="import-dialog" role="dialog" aria-modal="true" onClick={(e) => e.stopPropagation()}>
+        <h2 className="import-dialog-title">
+          {failed ? `Could not open ${report.fileName}` : `Opened ${report.fileName} with issues`}
+        </h2>
+        <p className="import-dialog-summary">
+          {failed
+            ? 'The file is not a valid floorplan:'
+            : `The plan was loaded, but ${problems.length} integrity issue${problems.length === 1 ? ' was' : 's were'} found:`}
+        </p>
+        <ul className="import-dialog-list">
+          {problems.map((problem, index) => (
+            <li key={index}>{problem}</li>
+          ))}
+        </ul>
+        <div className="import-dialog-actions">
+          {!failed && <button onClick={handleUndo}>Undo Open</button>}
+          <button className="primary" onClick={dismiss} autoFocus>
+            {failed ? 'Close' : 'Keep'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import './LengthEntryInput.css';
+
+interface LengthEntryInputProps {
+  /** Where to show the input, in screen pixels over the canvas */
+  position: { x: number; y: number };
+  value: string;
+  /** Whether the value is a complete entry that can be placed */
+  valid: boolean;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  onCancel: () => void;
+  /** What can be typed, shown next to the input */
+  hint?: string;
+}
+
+/**
+ * Floating input next to the cursor for typing the end of a wall
+ * (a length, length<angle or @dx,dy; see utils/lengthEntry) or the size of a rectangle
+ */
+export const LengthEntryInput: React.FC<LengthEntryInputProps> = ({
+  position,
+  value,
+  valid,
+  onChange,
+  onSubmit,
+  onCancel,
+  hint = 'mm · 3450, 3450<90 or @dx,dy',
+}) => (
+  <div className="length-entry" style={{ left: position.x, top: position.y }}>
+    <input
+      className={valid || value === '' ? '' : 'invalid'}
+      value={value}
+      autoFocus
+      spellCheck={false}
+      aria-label={hint}
+      onChange={(e) => onChange(e.target.value)}
+      // Keep typing after the character that opened the input
+      onFocus={(e) => e.currentTarget.setSelectionRange(value.length, value.length)}
+      onBlur={onCancel}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          onSubmit();
+        } else if (e.key === 'Escape') {
+          // Only close the input; the wall being drawn is kept
+          e.stopPropagation();
+          onCancel();
+        }
+      }}
+    />
+    <span className="length-entry-hint">{hint}</span>
+  </div>
+);
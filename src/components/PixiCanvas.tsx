@@ -1,20 +1,282 @@
-import { useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import * as PIXI from 'pixi.js';
 import { useSpatialStore } from '../store/useSpatialStore';
-import type { Vertex, Edge, Surface } from '../types/spatial';
-import { getSnappedPoint, generateId, isNearVertex, isVertexOnLineSegment } from '../utils/geometry';
+import type { Vertex, Edge, Surface, Opening, DrawingMode, DrawingSettings, Underlay } from '../types/spatial';
+import { DEFAULT_ANGLE_SNAP, getSnappedPoint, getSnappedPointWithInfo, generateId, SCREEN_SNAP_RADIUS } from '../utils/geometry';
 import { formatEdgeLength } from '../utils/measurements';
-import { DrawEdgeCommand, SplitEdgeCommand } from '../utils/commands';
+import {
+  AddOpeningCommand,
+  DeleteElementsCommand,
+  DrawEdgeCommand,
+  DrawPolygonCommand,
+  MoveVerticesCommand,
+  UpdateOpeningsCommand,
+} from '../utils/commands';
+import {
+  DEFAULT_HIT_TOLERANCE,
+  findEdgesCrossingSegment,
+  findElementsInRect,
+  hitTest,
+  hitTestEdge,
+  hitTestOpening,
+  hitTestSurface,
+  hitTestVertex,
+  rectFromPoints,
+  scaleHitTolerance,
+} from '../utils/hitTesting';
+import { panBy, screenToWorld, worldToScreen, zoomAt } from '../utils/viewport';
+import { calculateNetArea, computeWallPolygons, getWallThickness, getWallType, isSeparator } from '../utils/walls';
+import { DEFAULT_OPENING_WIDTHS, getDoorSwing, getOffsetAlongEdge, getOpeningPlacement } from '../utils/openings';
+import { isPointOnUnderlay } from '../utils/underlay';
+import { getLabelFitScale, MIN_LABEL_SCALE } from '../utils/labelPlacement';
+import { isArcEdge, pointAlongEdge, tessellatePath } from '../utils/arcs';
+import { parseLengthEntry, resolveLengthEntry } from '../utils/lengthEntry';
+import { INTERSECTION_TOLERANCE } from '../utils/intersections';
+import {
+  DEFAULT_POLYGON_SIDES,
+  getRectangleCorners,
+  getRegularPolygonCorners,
+  parseRectangleSize,
+  resolveRectangleSize,
+  snapRectangleCorner,
+} from '../utils/shapes';
+import type { SpatialGraph } from '../utils/spatialGraph';
+import { LengthEntryInput } from './LengthEntryInput';
+
+// Snap and pick radii in screen pixels; converted to world units at the current zoom
+const VERTEX_SNAP_RADIUS = 10;
+const EDGE_SPLIT_TOLERANCE = 8;
+
+const CANVAS_BACKGROUND = 0xF9F9F9;
+
+const THUMBNAIL_WIDTH = 160;
+const THUMBNAIL_HEIGHT = 120;
+
+/**
+ * Render the plan into a small PNG data URL for the project list
+ * Transient layers (previews, selection) are hidden while rendering.
+ */
+const renderThumbnail = (
+  renderer: PIXI.Renderer,
+  world: PIXI.Container,
+  transientLayers: (PIXI.Container | null)[]
+): string | null => {
+  const bounds = world.getLocalBounds();
+  if (bounds.width <= 0 || bounds.height <= 0) return null;
+
+  const hidden = transientLayers.filter((layer): layer is PIXI.Container => !!layer && layer.visible);
+  hidden.forEach((layer) => (layer.visible = false));
+
+  try {
+    const source = renderer.extract.canvas({ target: world, clearColor: CANVAS_BACKGROUND }) as HTMLCanvasElement;
+    const thumbnail = document.createElement('canvas');
+    thumbnail.width = THUMBNAIL_WIDTH;
+    thumbnail.height = THUMBNAIL_HEIGHT;
+    const context = thumbnail.getContext('2d');
+    if (!context) return null;
+
+    // Fit with a small margin, keeping the aspect ratio
+    const scale = Math.min((THUMBNAIL_WIDTH - 8) / source.width, (THUMBNAIL_HEIGHT - 8) / source.height);
+    const width = source.width * scale;
+    const height = source.height * scale;
+    context.fillStyle = `#${CANVAS_BACKGROUND.toString(16).padStart(6, '0')}`;
+    context.fillRect(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+    context.drawImage(source, (THUMBNAIL_WIDTH - width) / 2, (THUMBNAIL_HEIGHT - height) / 2, width, height);
+
+    return thumbnail.toDataURL('image/png');
+  } finally {
+    hidden.forEach((layer) => (layer.visible = true));
+  }
+};
+
+/**
+ * Kind and wall type of newly drawn edges, per the drawing settings
+ */
+const getNewEdgeProperties = (drawingSettings: DrawingSettings): Pick<Edge, 'kind' | 'wallType'> =>
+  drawingSettings.edgeKind === 'separator' ? { kind: 'separator' } : { wallType: drawingSettings.wallType };
+
+/**
+ * Command that draws a wall (or separator, per the drawing settings) between two vertices
+ */
+const createDrawEdgeCommand = (
+  graph: SpatialGraph,
+  start: Vertex,
+  end: Vertex,
+  drawingSettings: DrawingSettings
+): DrawEdgeCommand => {
+  const edge: Edge = {
+    id: generateId(),
+    startVertexId: start.id,
+    endVertexId: end.id,
+    ...getNewEdgeProperties(drawingSettings),
+  };
+  return new DrawEdgeCommand(start, end, edge, graph.hasVertex(start.id), graph.hasVertex(end.id));
+};
+
+/**
+ * Corners of the room outline drawn by the Rectangle tool (corner to corner) or the
+ * Polygon tool (centre to corner); null while the outline has no size
+ */
+const getShapeCorners = (
+  mode: DrawingMode,
+  start: { x: number; y: number },
+  end: { x: number; y: number },
+  drawingSettings: DrawingSettings
+): Array<{ x: number; y: number }> | null => {
+  if (mode === 'rectangle') {
+    const hasSize = Math.abs(end.x - start.x) > INTERSECTION_TOLERANCE && Math.abs(end.y - start.y) > INTERSECTION_TOLERANCE;
+    return hasSize ? getRectangleCorners(start, end) : null;
+  }
+  if (mode === 'polygon') {
+    const hasSize = Math.hypot(end.x - start.x, end.y - start.y) > INTERSECTION_TOLERANCE;
+    return hasSize ? getRegularPolygonCorners(start, end, drawingSettings.polygonSides ?? DEFAULT_POLYGON_SIDES) : null;
+  }
+  return null;
+};
+
+/**
+ * Place, rotate, scale and fade the underlay sprite to match the underlay settings
+ */
+const applyUnderlayTransform = (sprite: PIXI.Sprite, underlay: Underlay) => {
+  sprite.position.set(underlay.x, underlay.y);
+  sprite.rotation = (underlay.rotation * Math.PI) / 180;
+  sprite.scale.set(underlay.scale);
+  sprite.alpha = underlay.opacity;
+};
+
+/**
+ * Walls drawn one after another in draw mode, each starting where the last ended
+ */
+interface DrawingChain {
+  /** Vertices clicked so far, starting with the first */
+  vertices: Vertex[];
+  /** History position of the command that drew the first segment, as from CommandManager.getCurrentIndex */
+  historyStart: number;
+}
+
+// Separator dash pattern in screen pixels
+const SEPARATOR_DASH = 8;
+const SEPARATOR_GAP = 5;
+
+/**
+ * Add a dashed polyline as a series of short segments; stroke it afterwards
+ * The dash pattern runs on across the corners, so curves tessellated into pieces stay even.
+ */
+const dashedLine = (
+  graphics: PIXI.Graphics,
+  points: Array<{ x: number; y: number }>,
+  dash: number,
+  gap: number
+) => {
+  // Distance along the pattern at the start of the current piece
+  let phase = 0;
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    const length = Math.hypot(to.x - from.x, to.y - from.y);
+    if (length === 0) continue;
+
+    const ux = (to.x - from.x) / length;
+    const uy = (to.y - from.y) / length;
+    for (let t = -phase; t < length; t += dash + gap) {
+      const start = Math.max(t, 0);
+      const end = Math.min(t + dash, length);
+      if (end > start) graphics.moveTo(from.x + ux * start, from.y + uy * start).lineTo(from.x + ux * end, from.y + uy * end);
+    }
+    phase = (phase + length) % (dash + gap);
+  }
+};
+
+/**
+ * Draw an opening: cut its span out of the host wall and draw the architectural symbol
+ * (door leaf and swing arc, window glazing line, or bare jambs for a plain opening)
+ */
+const drawOpening = (
+  graphics: PIXI.Graphics,
+  opening: Opening,
+  placement: NonNullable<ReturnType<typeof getOpeningPlacement>>,
+  color: number,
+  pixelSize: number
+) => {
+  const { start, end, normal, left, right } = placement;
+  const face = (point: { x: number; y: number }, offset: number) => ({
+    x: point.x + normal.x * offset,
+    y: point.y + normal.y * offset,
+  });
+  const [startLeft, endLeft, endRight, startRight] = [face(start, left), face(end, left), face(end, -right), face(start, -right)];
+  const stroke = { width: 1.5 * pixelSize, color, alpha: 1 };
+
+  graphics
+    .poly([startLeft.x, startLeft.y, endLeft.x, endLeft.y, endRight.x, endRight.y, startRight.x, startRight.y])
+    .fill({ color: CANVAS_BACKGROUND, alpha: 1 });
+
+  // Jambs
+  graphics
+    .moveTo(startLeft.x, startLeft.y)
+    .lineTo(startRight.x, startRight.y)
+    .moveTo(endLeft.x, endLeft.y)
+    .lineTo(endRight.x, endRight.y)
+    .stroke(stroke);
+
+  if (opening.type === 'window') {
+    // Wall faces plus a glazing line on the centreline
+    graphics
+      .moveTo(startLeft.x, startLeft.y)
+      .lineTo(endLeft.x, endLeft.y)
+      .moveTo(startRight.x, startRight.y)
+      .lineTo(endRight.x, endRight.y)
+      .moveTo(start.x, start.y)
+      .lineTo(end.x, end.y)
+      .stroke(stroke);
+  } else if (opening.type === 'door') {
+    const { pivot, arc } = getDoorSwing(placement, opening);
+    graphics.moveTo(pivot.x, pivot.y).lineTo(arc[0].x, arc[0].y).stroke(stroke);
+
+    graphics.moveTo(arc[0].x, arc[0].y);
+    arc.slice(1).forEach((point) => graphics.lineTo(point.x, point.y));
+    graphics.stroke({ width: pixelSize, color, alpha: 0.8 });
+  }
+};
 
 export const PixiCanvas = () => {
   const canvasRef = useRef<HTMLDivElement>(null);
   const appRef = useRef<PIXI.Application | null>(null);
+  const worldContainerRef = useRef<PIXI.Container | null>(null);
   const gridGraphicsRef = useRef<PIXI.Graphics | null>(null);
   const edgesGraphicsRef = useRef<PIXI.Graphics | null>(null);
   const previewGraphicsRef = useRef<PIXI.Graphics | null>(null);
   const previewTextRef = useRef<PIXI.Text | null>(null);
   const measurementContainerRef = useRef<PIXI.Container | null>(null);
   const surfaceContainerRef = useRef<PIXI.Container | null>(null);
+  const surfaceFillGraphicsRef = useRef<PIXI.Graphics | null>(null);
+  const selectionGraphicsRef = useRef<PIXI.Graphics | null>(null);
+  const underlayContainerRef = useRef<PIXI.Container | null>(null);
+  const underlaySpriteRef = useRef<{ src: string; sprite: PIXI.Sprite } | null>(null);
+  const [loadedUnderlaySrc, setLoadedUnderlaySrc] = useState<string | null>(null);
+  const underlayDragRef = useRef<{ start: { x: number; y: number }; origin: { x: number; y: number } } | null>(null);
+  const marqueeStartRef = useRef<{ x: number; y: number } | null>(null);
+  const vertexDragRef = useRef<{
+    anchor: Vertex;
+    anchorIsVertex: boolean;
+    origin: Map<string, { x: number; y: number }>;
+    positions: Map<string, { x: number; y: number }>;
+  } | null>(null);
+  const openingDragRef = useRef<{
+    openingId: string;
+    edgeId: string;
+    originalOffset: number;
+    offset: number;
+  } | null>(null);
+  const eraseStrokeRef = useRef<{
+    ids: Set<string>;
+    start: { x: number; y: number };
+    last: { x: number; y: number };
+    moved: boolean;
+  } | null>(null);
+  const panRef = useRef<{ pointerId: number; last: { x: number; y: number } } | null>(null);
+  const spaceDownRef = useRef(false);
+  // Whether the button that placed the shape's first point is still held
+  const shapePressRef = useRef(false);
 
   const graph = useSpatialStore((state) => state.graph);
   const selectedIds = useSpatialStore((state) => state.selectedIds);
@@ -23,13 +285,76 @@ export const PixiCanvas = () => {
   const measurement = useSpatialStore((state) => state.measurement);
   const showMeasurements = measurement.showMeasurements;
   const dispatch = useSpatialStore((state) => state.dispatch);
-
-  const [tempStartVertex, setTempStartVertex] = useState<Vertex | null>(null);
-  const [mousePos, setMousePos] = useState<{ x: number; y: number }>({
+  const applyTransient = useSpatialStore((state) => state.applyTransient);
+  const commandManager = useSpatialStore((state) => state.commandManager);
+  const squashHistory = useSpatialStore((state) => state.squashHistory);
+  const select = useSpatialStore((state) => state.select);
+  const clearSelection = useSpatialStore((state) => state.clearSelection);
+  const camera = useSpatialStore((state) => state.camera);
+  const setCamera = useSpatialStore((state) => state.setCamera);
+  const setViewportSize = useSpatialStore((state) => state.setViewportSize);
+  const setThumbnailRenderer = useSpatialStore((state) => state.setThumbnailRenderer);
+  const underlay = useSpatialStore((state) => state.underlay);
+  const updateUnderlay = useSpatialStore((state) => state.updateUnderlay);
+  const setCalibrationPoints = useSpatialStore((state) => state.setCalibrationPoints);
+
+  const [chain, setChain] = useState<DrawingChain | null>(null);
+  // Cursor position in world coordinates, before snapping
+  const [cursor, setCursor] = useState<{ x: number; y: number }>({
     x: 0,
     y: 0,
   });
+  // Shift held: walls are drawn horizontal or vertical only
+  const [orthogonal, setOrthogonal] = useState(false);
   const [isInitialized, setIsInitialized] = useState(false);
+  // First corner of a rectangle, or centre of a polygon, while one is being drawn
+  const [shapeStart, setShapeStart] = useState<{ x: number; y: number } | null>(null);
+  // Text typed for the end of the wall, or the size of the rectangle, being drawn; null while the input is closed
+  const [lengthEntry, setLengthEntry] = useState<string | null>(null);
+
+  // Segments of the chain still in the history; undoing one steps back to the vertex before it
+  const chainLength = chain
+    ? Math.min(Math.max(commandManager.getCurrentIndex() - chain.historyStart + 1, 0), chain.vertices.length - 1)
+    : 0;
+  const tempStartVertex = chain ? chain.vertices[chainLength] : null;
+  // Direction of the last wall of the chain, for angle snapping relative to it
+  const previousVertex = chain && chainLength > 0 ? chain.vertices[chainLength - 1] : null;
+  const referenceAngle =
+    previousVertex && tempStartVertex
+      ? Math.atan2(tempStartVertex.y - previousVertex.y, tempStartVertex.x - previousVertex.x)
+      : undefined;
+
+  // Snapped cursor: to vertices, then to the direction and length from the point being drawn from
+  const snap = useMemo(() => {
+    const resolutionInPixels = drawingSettings.resolution * measurement.pixelsPerMm;
+    const vertices = graph.queryRadius(cursor.x, cursor.y, SCREEN_SNAP_RADIUS / camera.scale);
+
+    if (mode === 'rectangle' && shapeStart) {
+      // Off the vertices, width and height snap to the resolution separately
+      const snapped = getSnappedPointWithInfo(cursor, 0, vertices, camera.scale);
+      return snapped.kind === 'vertex' ? snapped : { ...snapRectangleCorner(cursor, shapeStart, resolutionInPixels), kind: 'length' as const };
+    }
+
+    // The radius of a polygon snaps like a wall drawn from its centre
+    const from = mode === 'polygon' && shapeStart ? { id: '', ...shapeStart } : tempStartVertex;
+    return getSnappedPointWithInfo(cursor, resolutionInPixels, vertices, camera.scale, from, {
+      angleIncrement: drawingSettings.angleSnap ?? DEFAULT_ANGLE_SNAP,
+      orthogonal,
+      referenceAngle,
+    });
+  }, [cursor, mode, shapeStart, tempStartVertex, referenceAngle, orthogonal, drawingSettings, measurement.pixelsPerMm, graph, camera.scale]);
+  const mousePos = useMemo(() => ({ x: snap.x, y: snap.y }), [snap]);
+
+  const parsedEntry = lengthEntry !== null ? parseLengthEntry(lengthEntry) : null;
+  const entryPoint =
+    mode === 'draw' && tempStartVertex && parsedEntry
+      ? resolveLengthEntry(parsedEntry, tempStartVertex, mousePos, measurement.pixelsPerMm)
+      : null;
+  const rectangleSize = mode === 'rectangle' && lengthEntry !== null ? parseRectangleSize(lengthEntry) : null;
+  const shapeEnd =
+    shapeStart && rectangleSize
+      ? resolveRectangleSize(rectangleSize, shapeStart, mousePos, measurement.pixelsPerMm)
+      : mousePos;
   
   // Initialize Pixi.js
   useEffect(() => {
@@ -48,7 +373,7 @@ export const PixiCanvas = () => {
       await app.init({
         width,
         height,
-        background: 0xF9F9F9,
+        background: CANVAS_BACKGROUND,
         antialias: true,
         resolution: window.devicePixelRatio || 1,
         autoDensity: true,
@@ -59,15 +384,29 @@ export const PixiCanvas = () => {
       appRef.current = app;
       canvasRef.current.appendChild(app.canvas);
 
+      // All drawing layers live in a world container transformed by the camera
+      const worldContainer = new PIXI.Container();
+      worldContainerRef.current = worldContainer;
+      app.stage.addChild(worldContainer);
+
       // Grid graphics removed
 
+      // Tracing image sits beneath everything else
+      const underlayContainer = new PIXI.Container();
+      underlayContainerRef.current = underlayContainer;
+      worldContainer.addChild(underlayContainer);
+
+      const surfaceFillGraphics = new PIXI.Graphics();
+      surfaceFillGraphicsRef.current = surfaceFillGraphics;
+      worldContainer.addChild(surfaceFillGraphics);
+
       const edgesGraphics = new PIXI.Graphics();
       edgesGraphicsRef.current = edgesGraphics;
-      app.stage.addChild(edgesGraphics);
+      worldContainer.addChild(edgesGraphics);
 
       const previewGraphics = new PIXI.Graphics();
       previewGraphicsRef.current = previewGraphics;
-      app.stage.addChild(previewGraphics);
+      worldContainer.addChild(previewGraphics);
 
       const previewText = new PIXI.Text({
         text: '',
@@ -82,21 +421,29 @@ export const PixiCanvas = () => {
       previewText.visible = false;
       previewText.anchor.set(0.5, 1);
       previewTextRef.current = previewText;
-      app.stage.addChild(previewText);
+      worldContainer.addChild(previewText);
 
       const measurementContainer = new PIXI.Container();
       measurementContainerRef.current = measurementContainer;
-      app.stage.addChild(measurementContainer);
+      worldContainer.addChild(measurementContainer);
 
       const surfaceContainer = new PIXI.Container();
       surfaceContainerRef.current = surfaceContainer;
-      app.stage.addChild(surfaceContainer);
+      worldContainer.addChild(surfaceContainer);
+
+      const selectionGraphics = new PIXI.Graphics();
+      selectionGraphicsRef.current = selectionGraphics;
+      worldContainer.addChild(selectionGraphics);
 
       app.stage.eventMode = 'static';
       app.stage.hitArea = app.screen;
 
       // drawGrid removed
-      
+
+      setViewportSize({ width, height });
+      setThumbnailRenderer(() =>
+        renderThumbnail(app.renderer, worldContainer, [previewGraphics, previewText, selectionGraphics])
+      );
       setIsInitialized(true);
     })();
 
@@ -106,6 +453,7 @@ export const PixiCanvas = () => {
         const height = canvasRef.current.clientHeight;
         
         appRef.current.renderer.resize(width, height);
+        setViewportSize({ width, height });
         // Grid resize logic removed
       }
     };
@@ -115,6 +463,7 @@ export const PixiCanvas = () => {
     return () => {
       mounted = false;
       window.removeEventListener('resize', handleResize);
+      setThumbnailRenderer(null);
       
       if (appRef.current) {
         appRef.current.destroy(true, { children: true, texture: true });
@@ -122,46 +471,116 @@ export const PixiCanvas = () => {
       }
       
       gridGraphicsRef.current = null;
+      worldContainerRef.current = null;
+      underlayContainerRef.current = null;
+      underlaySpriteRef.current = null;
       edgesGraphicsRef.current = null;
       previewGraphicsRef.current = null;
+      surfaceFillGraphicsRef.current = null;
+      selectionGraphicsRef.current = null;
     };
-  }, []);
+  }, [setViewportSize, setThumbnailRenderer]);
 
   // drawGrid function removed
 
+  // Load the underlay image when it is added or replaced
+  const underlaySrc = underlay?.src ?? null;
+  useEffect(() => {
+    const container = underlayContainerRef.current;
+    if (!isInitialized || !container || underlaySpriteRef.current?.src === underlaySrc) return;
+
+    underlaySpriteRef.current?.sprite.destroy({ texture: true, textureSource: true });
+    underlaySpriteRef.current = null;
+    if (!underlaySrc) return;
+
+    let cancelled = false;
+    const image = new Image();
+    image.src = underlaySrc;
+    image
+      .decode()
+      .then(() => {
+        if (cancelled) return;
+
+        const sprite = new PIXI.Sprite(PIXI.Texture.from(image));
+        sprite.anchor.set(0.5);
+        const current = useSpatialStore.getState().underlay;
+        if (current) applyUnderlayTransform(sprite, current);
+        container.addChild(sprite);
+        underlaySpriteRef.current = { src: underlaySrc, sprite };
+        setLoadedUnderlaySrc(underlaySrc);
+      })
+      .catch((error) => console.warn('Could not load underlay image:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isInitialized, underlaySrc]);
+
+  useEffect(() => {
+    const sprite = underlaySpriteRef.current?.sprite;
+    if (!sprite || !underlay || loadedUnderlaySrc !== underlay.src) return;
+
+    applyUnderlayTransform(sprite, underlay);
+  }, [underlay, loadedUnderlaySrc]);
+
+  useEffect(() => {
+    if (!isInitialized || !worldContainerRef.current) return;
+
+    worldContainerRef.current.position.set(camera.x, camera.y);
+    worldContainerRef.current.scale.set(camera.scale);
+  }, [isInitialized, camera]);
+
   useEffect(() => {
     if (!edgesGraphicsRef.current || !measurementContainerRef.current) return;
 
     const graphics = edgesGraphicsRef.current;
     const measurementContainer = measurementContainerRef.current;
     
+    // Size of one screen pixel in world units, so strokes and labels keep their size when zooming
+    const pixelSize = 1 / camera.scale;
+
     graphics.clear();
     measurementContainer.removeChildren();
 
+    const wallPolygons = computeWallPolygons(graph, measurement.pixelsPerMm);
+
     graph.getEdges().forEach((edge: Edge) => {
-      const startVertex = graph.getVertices().get(edge.startVertexId);
-      const endVertex = graph.getVertices().get(edge.endVertexId);
+      const startVertex = graph.getVertex(edge.startVertexId);
+      const endVertex = graph.getVertex(edge.endVertexId);
 
       if (startVertex && endVertex) {
         const isSelected = selectedIds.has(edge.id);
-        const color = isSelected ? 0x0078d4 : 0x2C3E50;
-
-        graphics
-          .moveTo(startVertex.x, startVertex.y)
-          .lineTo(endVertex.x, endVertex.y)
-          .stroke({ width: 4, color, alpha: 1 });
+        const color = isSelected ? 0x0078d4 : getWallType(edge).color;
+        const polygon = wallPolygons.get(edge.id);
+        const thicknessOnScreen = getWallThickness(edge) * measurement.pixelsPerMm * camera.scale;
+
+        if (isSeparator(edge)) {
+          dashedLine(graphics, graph.getEdgePoints(edge.id), SEPARATOR_DASH * pixelSize, SEPARATOR_GAP * pixelSize);
+          graphics.stroke({ width: 1.5 * pixelSize, color: isSelected ? 0x0078d4 : 0x7f8c9a, alpha: 1 });
+        } else if (polygon && thicknessOnScreen >= 2) {
+          graphics
+            .poly(tessellatePath(polygon).flatMap((point) => [point.x, point.y]))
+            .fill({ color, alpha: 1 })
+            .stroke({ width: pixelSize, color: 0x1a252f, alpha: 0.6 });
+        } else {
+          // Too thin to show as a body at this zoom: draw the centreline
+          graphics.moveTo(startVertex.x, startVertex.y);
+          graph.getEdgePoints(edge.id).slice(1).forEach((point) => graphics.lineTo(point.x, point.y));
+          graphics.stroke({ width: 2 * pixelSize, color, alpha: 1 });
+        }
 
         graphics
-          .circle(startVertex.x, startVertex.y, 4)
-          .fill(color)
-          .circle(endVertex.x, endVertex.y, 4)
-          .fill(color);
+          .circle(startVertex.x, startVertex.y, 2.5 * pixelSize)
+          .fill(0xffffff)
+          .circle(endVertex.x, endVertex.y, 2.5 * pixelSize)
+          .fill(0xffffff);
 
         if (showMeasurements) {
           const measurementText = formatEdgeLength(
             startVertex,
             endVertex,
-            measurement
+            measurement,
+            edge.bulge
           );
 
           const text = new PIXI.Text({
@@ -174,8 +593,7 @@ export const PixiCanvas = () => {
             },
           });
 
-          const midX = (startVertex.x + endVertex.x) / 2;
-          const midY = (startVertex.y + endVertex.y) / 2;
+          const { x: midX, y: midY } = pointAlongEdge(startVertex, endVertex, edge.bulge, 0.5);
           
           text.anchor.set(0.5, 0.5);
           text.x = midX;
@@ -193,6 +611,7 @@ export const PixiCanvas = () => {
           const label = new PIXI.Container();
           label.x = midX;
           label.y = midY;
+          label.scale.set(pixelSize);
           label.addChild(bg);
           label.addChild(text);
           
@@ -203,7 +622,48 @@ export const PixiCanvas = () => {
         }
       }
     });
-  }, [graph, selectedIds, showMeasurements]);
+
+    // Openings sit on top of their host walls
+    graph.getOpenings().forEach((opening) => {
+      const placement = getOpeningPlacement(graph, opening, measurement.pixelsPerMm);
+      if (placement) {
+        drawOpening(graphics, opening, placement, selectedIds.has(opening.id) ? 0x0078d4 : 0x1a252f, pixelSize);
+      }
+    });
+
+    // Highlight selected vertices on top of their edges
+    selectedIds.forEach((id) => {
+      const vertex = graph.getVertex(id);
+      if (vertex) {
+        graphics
+          .circle(vertex.x, vertex.y, 6 * pixelSize)
+          .fill(0x0078d4)
+          .stroke({ width: 2 * pixelSize, color: 0xffffff });
+      }
+    });
+  }, [graph, selectedIds, showMeasurements, measurement, camera.scale]);
+
+  useEffect(() => {
+    if (!surfaceFillGraphicsRef.current) return;
+
+    const fillGraphics = surfaceFillGraphicsRef.current;
+    fillGraphics.clear();
+
+    graph.getSurfaces().forEach((surface: Surface) => {
+      if (!selectedIds.has(surface.id)) return;
+
+      const polygon = graph.getSurfaceBoundary(surface.id);
+      if (polygon.length < 3) return;
+
+      fillGraphics
+        .poly(polygon.flatMap((vertex) => [vertex.x, vertex.y]))
+        .fill({ color: 0x0078d4, alpha: 0.15 });
+
+      graph.getSurfaceHoleBoundaries(surface.id).forEach((hole) => {
+        if (hole.length >= 3) fillGraphics.poly(hole.flatMap((vertex) => [vertex.x, vertex.y])).cut();
+      });
+    });
+  }, [graph, selectedIds]);
 
   useEffect(() => {
     if (!surfaceContainerRef.current) return;
@@ -214,9 +674,10 @@ export const PixiCanvas = () => {
     graph.getSurfaces().forEach((surface: Surface) => {
       const pixelsPerMm = measurement.pixelsPerMm;
       const areaM2 = surface.area / (pixelsPerMm * pixelsPerMm) / 1000000;
+      const netAreaM2 = calculateNetArea(graph, surface.id, pixelsPerMm) / (pixelsPerMm * pixelsPerMm) / 1000000;
 
       const text = new PIXI.Text({
-        text: `${surface.name}\n${areaM2.toFixed(2)} m²`,
+        text: `${surface.name}\n${areaM2.toFixed(2)} m²\nnet ${netAreaM2.toFixed(2)} m²`,
         style: {
           fontFamily: 'Arial, sans-serif',
           fontSize: 16,
@@ -227,73 +688,54 @@ export const PixiCanvas = () => {
       });
 
       text.anchor.set(0.5, 0.5);
-      text.x = surface.centroid.x;
-      text.y = surface.centroid.y;
 
       const bg = new PIXI.Graphics();
       bg.rect(
-        surface.centroid.x - text.width / 2 - 4,
-        surface.centroid.y - text.height / 2 - 2,
+        -text.width / 2 - 4,
+        -text.height / 2 - 2,
         text.width + 8,
         text.height + 4
       );
       bg.fill({ color: 0x000000, alpha: 0.6 });
 
-      surfaceContainer.addChild(bg);
-      surfaceContainer.addChild(text);
+      // Labels are laid out in screen pixels and scaled back to world units; they
+      // shrink to fit the room at this zoom, and are left out if they would get too small
+      const position = surface.labelPosition ?? surface.centroid;
+      const polygon = graph.getSurfaceBoundary(surface.id);
+      const fit = polygon.length < 3 ? 1 : Math.min(
+        1,
+        getLabelFitScale(
+          position,
+          bg.width / 2 / camera.scale,
+          bg.height / 2 / camera.scale,
+          polygon,
+          graph.getSurfaceHoleBoundaries(surface.id)
+        )
+      );
+      if (fit < MIN_LABEL_SCALE) {
+        text.destroy();
+        bg.destroy();
+        return;
+      }
+
+      const label = new PIXI.Container();
+      label.x = position.x;
+      label.y = position.y;
+      label.scale.set(fit / camera.scale);
+      label.addChild(bg);
+      label.addChild(text);
+
+      surfaceContainer.addChild(label);
     });
-  }, [graph, measurement]);
+  }, [graph, measurement, camera.scale]);
 
   useEffect(() => {
-    if (!isInitialized || !appRef.current || !previewGraphicsRef.current) return;
+    if (!isInitialized || !appRef.current) return;
 
     const app = appRef.current;
-    const previewGraphics = previewGraphicsRef.current;
 
     const handleMouseMove = (event: PIXI.FederatedPointerEvent) => {
-      let { x, y } = event.global;
-      // Convert resolution (mm) to pixels
-      const pixelsPerMm = measurement.pixelsPerMm;
-      const resolutionInPixels = drawingSettings.resolution * pixelsPerMm;
-      const vertices = Array.from(graph.getVertices().values());
-
-      const snapped = getSnappedPoint({ x, y }, resolutionInPixels, vertices, 1, tempStartVertex);
-      x = snapped.x;
-      y = snapped.y;
-
-      setMousePos({ x, y });
-
-      if (mode === 'draw' && tempStartVertex) {
-        previewGraphics.clear();
-        
-        previewGraphics
-          .moveTo(tempStartVertex.x, tempStartVertex.y)
-          .lineTo(x, y)
-          .stroke({ width: 2, color: 0xffaa00, alpha: 1 });
-
-        previewGraphics
-          .circle(x, y, 4)
-          .fill(0xffaa00);
-
-        // Update length indicator
-        if (previewTextRef.current) {
-          const dx = x - tempStartVertex.x;
-          const dy = y - tempStartVertex.y;
-          const lengthPixels = Math.sqrt(dx * dx + dy * dy);
-          const lengthMm = lengthPixels / pixelsPerMm;
-          const lengthText = `${Math.round(lengthMm)} mm`;
-
-          previewTextRef.current.text = lengthText;
-          previewTextRef.current.x = (tempStartVertex.x + x) / 2;
-          previewTextRef.current.y = (tempStartVertex.y + y) / 2 - 10;
-          previewTextRef.current.visible = true;
-        }
-      } else {
-        // Hide text if not drawing
-        if (previewTextRef.current) {
-          previewTextRef.current.visible = false;
-        }
-      }
+      setCursor(screenToWorld(camera, event.global));
     };
 
     if (app.stage) {
@@ -305,7 +747,254 @@ export const PixiCanvas = () => {
         app.stage.off('pointermove', handleMouseMove);
       }
     };
-  }, [isInitialized, mode, drawingSettings, tempStartVertex, graph]);
+  }, [isInitialized, camera]);
+
+  // Track Shift for the orthogonal lock; it applies as soon as it is pressed
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Shift') setOrthogonal(event.type === 'keydown');
+    };
+    const handleBlur = () => setOrthogonal(false);
+
+    window.addEventListener('keydown', handleKey);
+    window.addEventListener('keyup', handleKey);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKey);
+      window.removeEventListener('keyup', handleKey);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  // Preview of the wall being drawn, to the cursor or to the typed end point
+  const { x: previewX, y: previewY } = entryPoint ?? mousePos;
+  const lockedAngle = entryPoint ? undefined : snap.lockedAngle;
+  useEffect(() => {
+    const previewGraphics = previewGraphicsRef.current;
+    const previewText = previewTextRef.current;
+    if (!isInitialized || !previewGraphics || !previewText) return;
+
+    if (mode !== 'draw' || !tempStartVertex) {
+      if (mode !== 'rectangle' && mode !== 'polygon') previewText.visible = false;
+      return;
+    }
+
+    const x = previewX;
+    const y = previewY;
+    const pixelSize = 1 / camera.scale;
+    previewGraphics.clear();
+
+    // A locked direction turns the preview blue and shows a guide along it
+    const color = lockedAngle === undefined ? 0xffaa00 : 0x00aaff;
+    if (lockedAngle !== undefined) {
+      const reach = Math.hypot(x - tempStartVertex.x, y - tempStartVertex.y) + 200 * pixelSize;
+      dashedLine(
+        previewGraphics,
+        [
+          tempStartVertex,
+          { x: tempStartVertex.x + Math.cos(lockedAngle) * reach, y: tempStartVertex.y + Math.sin(lockedAngle) * reach },
+        ],
+        6 * pixelSize,
+        4 * pixelSize
+      );
+      previewGraphics.stroke({ width: pixelSize, color, alpha: 0.6 });
+    }
+
+    previewGraphics
+      .moveTo(tempStartVertex.x, tempStartVertex.y)
+      .lineTo(x, y)
+      .stroke({ width: 2 * pixelSize, color, alpha: 1 });
+
+    previewGraphics
+      .circle(x, y, 4 * pixelSize)
+      .fill(color);
+
+    // Length indicator, with the locked angle counter-clockwise from the right as in typed entries
+    const lengthMm = Math.hypot(x - tempStartVertex.x, y - tempStartVertex.y) / measurement.pixelsPerMm;
+    const angle =
+      lockedAngle === undefined ? '' : ` · ${((Math.round((-lockedAngle * 180) / Math.PI) % 360) + 360) % 360}°`;
+    previewText.text = `${Math.round(lengthMm)} mm${angle}`;
+    previewText.x = (tempStartVertex.x + x) / 2;
+    previewText.y = (tempStartVertex.y + y) / 2 - 10 * pixelSize;
+    previewText.scale.set(pixelSize);
+    previewText.visible = true;
+  }, [isInitialized, mode, tempStartVertex, previewX, previewY, lockedAngle, camera.scale, measurement.pixelsPerMm]);
+
+  // Preview of the rectangle or polygon being drawn, with its size
+  const { x: shapeEndX, y: shapeEndY } = shapeEnd;
+  useEffect(() => {
+    const previewGraphics = previewGraphicsRef.current;
+    const previewText = previewTextRef.current;
+    if (!isInitialized || !previewGraphics || !previewText || (mode !== 'rectangle' && mode !== 'polygon')) return;
+
+    previewGraphics.clear();
+    const corners = shapeStart && getShapeCorners(mode, shapeStart, { x: shapeEndX, y: shapeEndY }, drawingSettings);
+    if (!shapeStart || !corners) {
+      previewText.visible = false;
+      return;
+    }
+
+    const pixelSize = 1 / camera.scale;
+    previewGraphics
+      .poly(corners.flatMap((corner) => [corner.x, corner.y]))
+      .fill({ color: 0xffaa00, alpha: 0.1 })
+      .stroke({ width: 2 * pixelSize, color: 0xffaa00, alpha: 1 });
+    corners.forEach((corner) => previewGraphics.circle(corner.x, corner.y, 4 * pixelSize).fill(0xffaa00));
+
+    // Width × height of a rectangle, side length of a polygon
+    const toMm = (length: number) => Math.round(length / measurement.pixelsPerMm);
+    previewText.text =
+      mode === 'rectangle'
+        ? `${toMm(Math.abs(shapeEndX - shapeStart.x))} × ${toMm(Math.abs(shapeEndY - shapeStart.y))} mm`
+        : `${corners.length} × ${toMm(Math.hypot(corners[1].x - corners[0].x, corners[1].y - corners[0].y))} mm`;
+    previewText.x = shapeEndX;
+    previewText.y = shapeEndY - 14 * pixelSize;
+    previewText.scale.set(pixelSize);
+    previewText.visible = true;
+  }, [isInitialized, mode, shapeStart, shapeEndX, shapeEndY, drawingSettings, camera.scale, measurement.pixelsPerMm]);
+
+  // Typing a digit, '@' or a sign while drawing opens the length input
+  const isEntering = (mode === 'draw' && tempStartVertex !== null) || (mode === 'rectangle' && shapeStart !== null);
+  useEffect(() => {
+    if (!isEntering) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const isTyping = event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement;
+      if (isTyping || event.ctrlKey || event.metaKey || event.altKey || !/^[\d.@<+-]$/.test(event.key)) return;
+
+      event.preventDefault();
+      setLengthEntry(event.key);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isEntering]);
+
+  // End the chain, leaving the walls it drew as a single undo step
+  const finishChain = useCallback(() => {
+    if (chain && chainLength > 1) {
+      squashHistory(chain.historyStart, `Draw ${chainLength} edges`);
+    }
+    setChain(null);
+    setLengthEntry(null);
+    previewGraphicsRef.current?.clear();
+  }, [chain, chainLength, squashHistory]);
+
+  // Draw the next wall of the chain to `vertex`; reaching the first vertex again closes the loop
+  const continueChain = useCallback((vertex: Vertex) => {
+    if (!chain || !tempStartVertex) {
+      setChain({ vertices: [vertex], historyStart: commandManager.getCurrentIndex() + 1 });
+      return;
+    }
+
+    const historyStart = chainLength === 0 ? commandManager.getCurrentIndex() + 1 : chain.historyStart;
+    dispatch(createDrawEdgeCommand(graph, tempStartVertex, vertex, drawingSettings));
+    setLengthEntry(null);
+    previewGraphicsRef.current?.clear();
+
+    if (chainLength >= 2 && vertex.id === chain.vertices[0].id) {
+      squashHistory(historyStart, `Draw ${chainLength + 1} edges`);
+      setChain(null);
+    } else {
+      setChain({ vertices: [...chain.vertices.slice(0, chainLength + 1), vertex], historyStart });
+    }
+  }, [chain, chainLength, tempStartVertex, commandManager, dispatch, graph, drawingSettings, squashHistory]);
+
+  // While drawing, Enter or Escape finishes the chain and C closes it back to its first vertex
+  useEffect(() => {
+    if (mode !== 'draw' || !chain || !tempStartVertex) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const isTyping = event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement;
+      if (isTyping || event.ctrlKey || event.metaKey || event.altKey) return;
+
+      if (event.key === 'Enter' || event.key === 'Escape') {
+        event.preventDefault();
+        finishChain();
+      } else if (event.key.toLowerCase() === 'c' && chainLength >= 2) {
+        event.preventDefault();
+        continueChain(chain.vertices[0]);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [mode, chain, chainLength, tempStartVertex, finishChain, continueChain]);
+
+  // Draw the rectangle or polygon started at shapeStart out to `end`, as one command
+  const finishShape = useCallback((end: { x: number; y: number }) => {
+    if (!shapeStart) return;
+
+    const corners = getShapeCorners(mode, shapeStart, end, drawingSettings);
+    if (corners) {
+      dispatch(new DrawPolygonCommand(corners, getNewEdgeProperties(drawingSettings)));
+    }
+    setShapeStart(null);
+    setLengthEntry(null);
+    previewGraphicsRef.current?.clear();
+    if (previewTextRef.current) previewTextRef.current.visible = false;
+  }, [mode, shapeStart, drawingSettings, dispatch]);
+
+  // Place the end of the wall, or the far corner of the rectangle, at the typed position;
+  // a vertex already there is reused
+  const handleLengthEntrySubmit = () => {
+    if (mode === 'rectangle') {
+      if (rectangleSize) finishShape(shapeEnd);
+      return;
+    }
+    if (!tempStartVertex || !entryPoint) return;
+
+    const existing = graph.queryRadius(entryPoint.x, entryPoint.y, INTERSECTION_TOLERANCE)[0];
+    continueChain(existing ?? { id: generateId(), x: entryPoint.x, y: entryPoint.y });
+  };
+
+  // Rectangle and Polygon tools: drag out the shape, or click its first point and then its second
+  useEffect(() => {
+    if (!isInitialized || !appRef.current || (mode !== 'rectangle' && mode !== 'polygon')) return;
+
+    const app = appRef.current;
+
+    const handlePointerDown = () => {
+      if (shapeStart) {
+        finishShape(mousePos);
+      } else {
+        shapePressRef.current = true;
+        setShapeStart({ ...mousePos });
+      }
+    };
+
+    const handlePointerUp = () => {
+      if (!shapePressRef.current) return;
+      shapePressRef.current = false;
+
+      // Released away from where it was pressed: the shape was dragged out
+      if (shapeStart && Math.hypot(mousePos.x - shapeStart.x, mousePos.y - shapeStart.y) > VERTEX_SNAP_RADIUS / camera.scale) {
+        finishShape(mousePos);
+      }
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        shapePressRef.current = false;
+        setShapeStart(null);
+        setLengthEntry(null);
+        previewGraphicsRef.current?.clear();
+        if (previewTextRef.current) previewTextRef.current.visible = false;
+      }
+    };
+
+    app.stage.on('pointerdown', handlePointerDown);
+    app.stage.on('pointerup', handlePointerUp);
+    app.stage.on('pointerupoutside', handlePointerUp);
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      app.stage.off('pointerdown', handlePointerDown);
+      app.stage.off('pointerup', handlePointerUp);
+      app.stage.off('pointerupoutside', handlePointerUp);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isInitialized, mode, shapeStart, mousePos, camera.scale, finishShape]);
 
   useEffect(() => {
     if (!isInitialized || !appRef.current) return;
@@ -315,175 +1004,593 @@ export const PixiCanvas = () => {
     const handleClick = () => {
       if (mode !== 'draw') return;
 
-      let { x, y } = mousePos;
+      const { x, y } = mousePos;
 
-      if (!tempStartVertex) {
-        let startVertex: Vertex | undefined;
-        
-        for (const [, vertex] of graph.getVertices()) {
-          if (isNearVertex({ id: '', x, y }, vertex, 10)) {
-            startVertex = vertex;
-            break;
-          }
-        }
-        
-        if (!startVertex) {
-          for (const [edgeId, edge] of graph.getEdges()) {
-            const startEdgeVertex = graph.getVertices().get(edge.startVertexId);
-            const endEdgeVertex = graph.getVertices().get(edge.endVertexId);
-            
-            if (startEdgeVertex && endEdgeVertex) {
-              if (isVertexOnLineSegment({ id: '', x, y }, startEdgeVertex, endEdgeVertex, 8)) {
-                const splitVertex: Vertex = {
-                  id: generateId(),
-                  x,
-                  y,
-                };
-                
-                const edge1: Edge = {
-                  id: generateId(),
-                  startVertexId: edge.startVertexId,
-                  endVertexId: splitVertex.id,
-                };
-                
-                const edge2: Edge = {
-                  id: generateId(),
-                  startVertexId: splitVertex.id,
-                  endVertexId: edge.endVertexId,
-                };
-
-                dispatch(new SplitEdgeCommand(edgeId, splitVertex, edge1, edge2));
-                startVertex = splitVertex;
-                break;
-              }
-            }
-          }
-        }
-        
-        if (!startVertex) {
-          startVertex = {
-            id: generateId(),
-            x,
-            y,
-          };
+      // Reuse a vertex under the cursor, or put the new one exactly on a wall it was
+      // dropped on; DrawEdgeCommand splits that wall when the edge is added
+      let vertex: Vertex | undefined = graph.queryRadius(x, y, VERTEX_SNAP_RADIUS / camera.scale)[0];
+
+      if (!vertex) {
+        // Not too close to the wall's ends, same band as isVertexOnLineSegment
+        const hit = graph.nearestEdge(x, y, EDGE_SPLIT_TOLERANCE / camera.scale);
+        if (hit && hit.t > 0.1 && hit.t < 0.9) {
+          vertex = { id: generateId(), x: hit.point.x, y: hit.point.y };
         }
-        
-        setTempStartVertex(startVertex);
+      }
+
+      if (!vertex) {
+        vertex = {
+          id: generateId(),
+          x,
+          y,
+        };
+      }
+
+      // Clicking the last vertex again (or double-clicking) finishes the chain
+      const onLastVertex =
+        tempStartVertex &&
+        Math.hypot(vertex.x - tempStartVertex.x, vertex.y - tempStartVertex.y) <= VERTEX_SNAP_RADIUS / camera.scale;
+      if (onLastVertex) {
+        finishChain();
       } else {
-        let endVertex: Vertex | undefined;
+        continueChain(vertex);
+      }
+    };
 
-        for (const [, vertex] of graph.getVertices()) {
-          if (isNearVertex({ id: '', x, y }, vertex, 10)) {
-            endVertex = vertex;
-            break;
-          }
-        }
+    if (app.stage) {
+      app.stage.on('pointerdown', handleClick);
+    }
+
+    return () => {
+      if (app.stage) {
+        app.stage.off('pointerdown', handleClick);
+      }
+    };
+  }, [isInitialized, mode, graph, tempStartVertex, mousePos, camera.scale, finishChain, continueChain]);
+
+  useEffect(() => {
+    if (!isInitialized || !appRef.current || mode !== 'select') return;
+
+    const app = appRef.current;
+
+    const drawMarquee = (start: { x: number; y: number }, end: { x: number; y: number }) => {
+      const selectionGraphics = selectionGraphicsRef.current;
+      if (!selectionGraphics) return;
+
+      const rect = rectFromPoints(start, end);
+      selectionGraphics.clear();
+      selectionGraphics
+        .rect(rect.x, rect.y, rect.width, rect.height)
+        .fill({ color: 0x0078d4, alpha: 0.1 })
+        .stroke({ width: 1 / camera.scale, color: 0x0078d4, alpha: 0.8 });
+    };
 
-        if (!endVertex) {
-          for (const [edgeId, edge] of graph.getEdges()) {
-            const startEdgeVertex = graph.getVertices().get(edge.startVertexId);
-            const endEdgeVertex = graph.getVertices().get(edge.endVertexId);
-            
-            if (startEdgeVertex && endEdgeVertex) {
-              if (isVertexOnLineSegment({ id: '', x, y }, startEdgeVertex, endEdgeVertex, 8)) {
-                const splitVertex: Vertex = {
-                  id: generateId(),
-                  x,
-                  y,
-                };
-                
-                const edge1: Edge = {
-                  id: generateId(),
-                  startVertexId: edge.startVertexId,
-                  endVertexId: splitVertex.id,
-                };
-                
-                const edge2: Edge = {
-                  id: generateId(),
-                  startVertexId: splitVertex.id,
-                  endVertexId: edge.endVertexId,
-                };
-
-                dispatch(new SplitEdgeCommand(edgeId, splitVertex, edge1, edge2));
-                endVertex = splitVertex;
-                break;
-              }
-            }
+    const handlePointerDown = (event: PIXI.FederatedPointerEvent) => {
+      const point = screenToWorld(camera, event.global);
+      const hit = hitTest(graph, point, scaleHitTolerance(DEFAULT_HIT_TOLERANCE, camera.scale), measurement.pixelsPerMm);
+
+      if (hit?.type === 'opening' && !event.shiftKey) {
+        // Dragging an opening slides it along its host edge
+        const opening = graph.getOpening(hit.id)!;
+        select([hit.id]);
+        openingDragRef.current = {
+          openingId: opening.id,
+          edgeId: opening.edgeId,
+          originalOffset: opening.offset,
+          offset: opening.offset,
+        };
+        return;
+      }
+
+      if (hit) {
+        if (event.shiftKey) {
+          // Shift-click toggles the element in the current selection
+          const ids = new Set(selectedIds);
+          if (ids.has(hit.id)) {
+            ids.delete(hit.id);
+          } else {
+            ids.add(hit.id);
           }
+          select(Array.from(ids));
+          return;
         }
 
-        if (!endVertex) {
-          endVertex = {
-            id: generateId(),
-            x,
-            y,
-          };
+        // Pressing on a selected element drags the whole selection,
+        // otherwise the pressed element becomes the selection
+        const dragIds = selectedIds.has(hit.id) ? Array.from(selectedIds) : [hit.id];
+        if (!selectedIds.has(hit.id)) {
+          select([hit.id]);
         }
 
-        const edge: Edge = {
-          id: generateId(),
-          startVertexId: tempStartVertex.id,
-          endVertexId: endVertex.id,
+        const origin = new Map<string, { x: number; y: number }>();
+        graph.getVertexIdsForElements(dragIds).forEach((vertexId) => {
+          const vertex = graph.getVertex(vertexId);
+          if (vertex) origin.set(vertexId, { x: vertex.x, y: vertex.y });
+        });
+
+        const hitVertex = hit.type === 'vertex' ? graph.getVertex(hit.id) : undefined;
+        vertexDragRef.current = {
+          anchor: hitVertex ?? { id: '', ...point },
+          anchorIsVertex: !!hitVertex,
+          origin,
+          positions: origin,
         };
+        return;
+      }
 
-        dispatch(
-          new DrawEdgeCommand(
-            tempStartVertex,
-            endVertex,
-            edge,
-            graph.getVertices().has(tempStartVertex.id),
-            graph.getVertices().has(endVertex.id)
-          )
+      // An unlocked underlay is dragged from anywhere on the image
+      const currentUnderlay = useSpatialStore.getState().underlay;
+      if (currentUnderlay && !currentUnderlay.locked && !event.shiftKey && isPointOnUnderlay(currentUnderlay, point)) {
+        underlayDragRef.current = { start: point, origin: { x: currentUnderlay.x, y: currentUnderlay.y } };
+        clearSelection();
+        return;
+      }
+
+      // Empty space: start a marquee
+      marqueeStartRef.current = point;
+      if (!event.shiftKey) {
+        clearSelection();
+      }
+    };
+
+    const handlePointerMove = (event: PIXI.FederatedPointerEvent) => {
+      const underlayDrag = underlayDragRef.current;
+      if (underlayDrag) {
+        const point = screenToWorld(camera, event.global);
+        updateUnderlay({
+          x: underlayDrag.origin.x + point.x - underlayDrag.start.x,
+          y: underlayDrag.origin.y + point.y - underlayDrag.start.y,
+        });
+        return;
+      }
+
+      const openingDrag = openingDragRef.current;
+      if (openingDrag) {
+        openingDrag.offset = getOffsetAlongEdge(graph, openingDrag.edgeId, screenToWorld(camera, event.global));
+        applyTransient(new UpdateOpeningsCommand([openingDrag.openingId], { offset: openingDrag.offset }));
+        return;
+      }
+
+      const drag = vertexDragRef.current;
+      if (drag) {
+        // Snap the grabbed point: to other vertices when a vertex is grabbed,
+        // and the displacement length to the drawing resolution
+        const resolutionInPixels = drawingSettings.resolution * measurement.pixelsPerMm;
+        const cursor = screenToWorld(camera, event.global);
+        const snapTargets = drag.anchorIsVertex
+          ? graph.queryRadius(cursor.x, cursor.y, SCREEN_SNAP_RADIUS / camera.scale).filter((vertex) => !drag.origin.has(vertex.id))
+          : [];
+        const snapped = getSnappedPoint(
+          cursor,
+          resolutionInPixels,
+          snapTargets,
+          camera.scale,
+          drag.anchor
         );
+        const dx = snapped.x - drag.anchor.x;
+        const dy = snapped.y - drag.anchor.y;
+
+        const positions = new Map<string, { x: number; y: number }>();
+        drag.origin.forEach((position, vertexId) => {
+          positions.set(vertexId, { x: position.x + dx, y: position.y + dy });
+        });
+        drag.positions = positions;
+
+        applyTransient(new MoveVerticesCommand(drag.origin, positions));
+        return;
+      }
+
+      if (!marqueeStartRef.current) return;
+      drawMarquee(marqueeStartRef.current, screenToWorld(camera, event.global));
+    };
+
+    const handlePointerUp = (event: PIXI.FederatedPointerEvent) => {
+      if (underlayDragRef.current) {
+        underlayDragRef.current = null;
+        return;
+      }
+
+      const openingDrag = openingDragRef.current;
+      if (openingDrag) {
+        openingDragRef.current = null;
+
+        // Rewind the live preview, then commit the slide as one undo step
+        if (openingDrag.offset !== openingDrag.originalOffset) {
+          applyTransient(new UpdateOpeningsCommand([openingDrag.openingId], { offset: openingDrag.originalOffset }));
+          dispatch(new UpdateOpeningsCommand([openingDrag.openingId], { offset: openingDrag.offset }));
+        }
+        return;
+      }
 
-        setTempStartVertex(null);
-        if (previewGraphicsRef.current) {
-          previewGraphicsRef.current.clear();
+      const drag = vertexDragRef.current;
+      if (drag) {
+        vertexDragRef.current = null;
+
+        // Commit the whole drag as one undo step
+        const moved = Array.from(drag.positions).some(([vertexId, position]) => {
+          const origin = drag.origin.get(vertexId)!;
+          return position.x !== origin.x || position.y !== origin.y;
+        });
+        if (moved) {
+          dispatch(new MoveVerticesCommand(drag.origin, drag.positions));
         }
+        return;
+      }
+
+      const start = marqueeStartRef.current;
+      if (!start) return;
+
+      marqueeStartRef.current = null;
+      selectionGraphicsRef.current?.clear();
+
+      const rect = rectFromPoints(start, screenToWorld(camera, event.global));
+      if (rect.width * camera.scale < 2 && rect.height * camera.scale < 2) return;
+
+      const ids = findElementsInRect(graph, rect);
+      if (event.shiftKey) {
+        select([...useSpatialStore.getState().selectedIds, ...ids]);
+      } else {
+        select(ids);
       }
     };
 
-    if (app.stage) {
-      app.stage.on('pointerdown', handleClick);
-    }
+    app.stage.on('pointerdown', handlePointerDown);
+    app.stage.on('pointermove', handlePointerMove);
+    app.stage.on('pointerup', handlePointerUp);
+    app.stage.on('pointerupoutside', handlePointerUp);
 
     return () => {
-      if (app.stage) {
-        app.stage.off('pointerdown', handleClick);
-      }
+      app.stage.off('pointerdown', handlePointerDown);
+      app.stage.off('pointermove', handlePointerMove);
+      app.stage.off('pointerup', handlePointerUp);
+      app.stage.off('pointerupoutside', handlePointerUp);
+      marqueeStartRef.current = null;
+      underlayDragRef.current = null;
+      selectionGraphicsRef.current?.clear();
     };
-  }, [isInitialized, mode, drawingSettings, graph, tempStartVertex, mousePos, dispatch]);
+  }, [isInitialized, mode, graph, selectedIds, drawingSettings, measurement, camera, dispatch, applyTransient, select, clearSelection, updateUnderlay]);
 
   useEffect(() => {
-    if (mode !== 'draw') {
-      setTempStartVertex(null);
-      if (previewGraphicsRef.current) {
-        previewGraphicsRef.current.clear();
+    if (!isInitialized || !appRef.current || mode !== 'calibrate') return;
+
+    const app = appRef.current;
+    let first: { x: number; y: number } | null = null;
+
+    // Pick two points on the underlay; the real distance is asked for afterwards
+    const handlePointerMove = (event: PIXI.FederatedPointerEvent) => {
+      const previewGraphics = previewGraphicsRef.current;
+      if (!previewGraphics || !first) return;
+
+      const point = screenToWorld(camera, event.global);
+      const pixelSize = 1 / camera.scale;
+      previewGraphics.clear();
+      previewGraphics
+        .moveTo(first.x, first.y)
+        .lineTo(point.x, point.y)
+        .stroke({ width: 2 * pixelSize, color: 0xe81123, alpha: 1 })
+        .circle(first.x, first.y, 4 * pixelSize)
+        .circle(point.x, point.y, 4 * pixelSize)
+        .fill(0xe81123);
+    };
+
+    const handlePointerDown = (event: PIXI.FederatedPointerEvent) => {
+      const point = screenToWorld(camera, event.global);
+      if (!first) {
+        first = point;
+        return;
       }
-    }
+
+      setCalibrationPoints([first, point]);
+      first = null;
+      previewGraphicsRef.current?.clear();
+    };
 
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
-        setTempStartVertex(null);
-        if (previewGraphicsRef.current) {
-          previewGraphicsRef.current.clear();
+        first = null;
+        previewGraphicsRef.current?.clear();
+      }
+    };
+
+    app.stage.on('pointermove', handlePointerMove);
+    app.stage.on('pointerdown', handlePointerDown);
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      app.stage.off('pointermove', handlePointerMove);
+      app.stage.off('pointerdown', handlePointerDown);
+      window.removeEventListener('keydown', handleKeyDown);
+      previewGraphicsRef.current?.clear();
+    };
+  }, [isInitialized, mode, camera, setCalibrationPoints]);
+
+  useEffect(() => {
+    if (!isInitialized || !appRef.current || mode !== 'erase') return;
+
+    const app = appRef.current;
+
+    const tolerance = scaleHitTolerance(DEFAULT_HIT_TOLERANCE, camera.scale);
+
+    const collectHits = (point: { x: number; y: number }, ids: Set<string>) => {
+      const vertexId = hitTestVertex(graph, point, tolerance.vertex);
+      if (vertexId) {
+        ids.add(vertexId);
+        return;
+      }
+
+      const openingId = hitTestOpening(graph, point, tolerance.edge, measurement.pixelsPerMm);
+      if (openingId) {
+        ids.add(openingId);
+        return;
+      }
+
+      const edgeId = hitTestEdge(graph, point, tolerance.edge);
+      if (edgeId) ids.add(edgeId);
+    };
+
+    const drawStrokePreview = (ids: Set<string>) => {
+      const selectionGraphics = selectionGraphicsRef.current;
+      if (!selectionGraphics) return;
+
+      selectionGraphics.clear();
+      ids.forEach((id) => {
+        const vertex = graph.getVertex(id);
+        if (vertex) {
+          selectionGraphics.circle(vertex.x, vertex.y, 6 / camera.scale).fill(0xe81123);
+          return;
+        }
+
+        const opening = graph.getOpening(id);
+        const placement = opening && getOpeningPlacement(graph, opening, measurement.pixelsPerMm);
+        if (placement) {
+          selectionGraphics
+            .moveTo(placement.start.x, placement.start.y)
+            .lineTo(placement.end.x, placement.end.y)
+            .stroke({ width: 6 / camera.scale, color: 0xe81123, alpha: 0.8 });
+          return;
+        }
+
+        // Along the curve for arcs, which is what will be erased
+        const [start, ...rest] = graph.getEdgePoints(id);
+        if (start && rest.length > 0) {
+          selectionGraphics.moveTo(start.x, start.y);
+          rest.forEach((point) => selectionGraphics.lineTo(point.x, point.y));
+          selectionGraphics.stroke({ width: 4 / camera.scale, color: 0xe81123, alpha: 0.8 });
         }
+      });
+    };
+
+    const handlePointerDown = (event: PIXI.FederatedPointerEvent) => {
+      const point = screenToWorld(camera, event.global);
+      const ids = new Set<string>();
+      collectHits(point, ids);
+
+      eraseStrokeRef.current = { ids, start: point, last: point, moved: false };
+      drawStrokePreview(ids);
+    };
+
+    const handlePointerMove = (event: PIXI.FederatedPointerEvent) => {
+      const stroke = eraseStrokeRef.current;
+      if (!stroke) return;
+
+      const point = screenToWorld(camera, event.global);
+      collectHits(point, stroke.ids);
+      findEdgesCrossingSegment(graph, stroke.last, point).forEach((id) => stroke.ids.add(id));
+
+      stroke.last = point;
+      stroke.moved = stroke.moved || Math.hypot(point.x - stroke.start.x, point.y - stroke.start.y) * camera.scale > 3;
+      drawStrokePreview(stroke.ids);
+    };
+
+    const handlePointerUp = () => {
+      const stroke = eraseStrokeRef.current;
+      if (!stroke) return;
+
+      eraseStrokeRef.current = null;
+      selectionGraphicsRef.current?.clear();
+
+      const ids = Array.from(stroke.ids);
+
+      // A plain click inside a room erases the room
+      if (ids.length === 0 && !stroke.moved) {
+        const surfaceId = hitTestSurface(graph, stroke.start);
+        if (surfaceId) ids.push(surfaceId);
+      }
+
+      if (ids.length > 0) {
+        dispatch(new DeleteElementsCommand(ids));
+      }
+    };
+
+    app.stage.on('pointerdown', handlePointerDown);
+    app.stage.on('pointermove', handlePointerMove);
+    app.stage.on('pointerup', handlePointerUp);
+    app.stage.on('pointerupoutside', handlePointerUp);
+
+    return () => {
+      app.stage.off('pointerdown', handlePointerDown);
+      app.stage.off('pointermove', handlePointerMove);
+      app.stage.off('pointerup', handlePointerUp);
+      app.stage.off('pointerupoutside', handlePointerUp);
+      eraseStrokeRef.current = null;
+      selectionGraphicsRef.current?.clear();
+    };
+  }, [isInitialized, mode, graph, measurement, camera, dispatch]);
+
+  useEffect(() => {
+    if (!isInitialized || !appRef.current || mode !== 'opening') return;
+
+    const app = appRef.current;
+    const tolerance = scaleHitTolerance(DEFAULT_HIT_TOLERANCE, camera.scale);
+
+    // The opening that would be placed at a point, if the point is on a wall
+    const openingAt = (point: { x: number; y: number }): Opening | null => {
+      const edgeId = hitTestEdge(graph, point, tolerance.edge * 2);
+      const edge = edgeId ? graph.getEdge(edgeId) : undefined;
+      if (!edgeId || !edge || isSeparator(edge) || isArcEdge(edge)) return null;
+
+      const type = drawingSettings.openingType;
+      return {
+        id: generateId(),
+        edgeId,
+        offset: getOffsetAlongEdge(graph, edgeId, point),
+        width: DEFAULT_OPENING_WIDTHS[type],
+        type,
+        ...(type === 'door' ? { hinge: 'start' as const, swing: 'left' as const } : {}),
+      };
+    };
+
+    const handlePointerMove = (event: PIXI.FederatedPointerEvent) => {
+      const previewGraphics = previewGraphicsRef.current;
+      if (!previewGraphics) return;
+
+      previewGraphics.clear();
+      const opening = openingAt(screenToWorld(camera, event.global));
+      const placement = opening && getOpeningPlacement(graph, opening, measurement.pixelsPerMm);
+      if (opening && placement) {
+        drawOpening(previewGraphics, opening, placement, 0x0078d4, 1 / camera.scale);
       }
     };
 
+    const handlePointerDown = (event: PIXI.FederatedPointerEvent) => {
+      const opening = openingAt(screenToWorld(camera, event.global));
+      if (opening) {
+        dispatch(new AddOpeningCommand(opening));
+      }
+    };
+
+    app.stage.on('pointermove', handlePointerMove);
+    app.stage.on('pointerdown', handlePointerDown);
+
+    return () => {
+      app.stage.off('pointermove', handlePointerMove);
+      app.stage.off('pointerdown', handlePointerDown);
+      previewGraphicsRef.current?.clear();
+    };
+  }, [isInitialized, mode, graph, drawingSettings, measurement, camera, dispatch]);
+
+  useEffect(() => {
+    const container = canvasRef.current;
+    if (!isInitialized || !container) return;
+
+    const updateCursor = () => {
+      if (panRef.current) {
+        container.style.cursor = 'grabbing';
+      } else if (spaceDownRef.current || mode === 'pan') {
+        container.style.cursor = 'grab';
+      } else {
+        container.style.cursor = '';
+      }
+    };
+
+    const getLocalPoint = (event: MouseEvent) => {
+      const rect = container.getBoundingClientRect();
+      return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+    };
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const factor = Math.exp(-event.deltaY * 0.0015);
+      setCamera(zoomAt(useSpatialStore.getState().camera, getLocalPoint(event), factor));
+    };
+
+    // Registered in the capture phase so a pan gesture never reaches the active tool
+    const handlePointerDown = (event: PointerEvent) => {
+      const isPanGesture =
+        event.button === 1 || (event.button === 0 && (spaceDownRef.current || mode === 'pan'));
+      if (!isPanGesture) return;
+
+      event.preventDefault();
+      event.stopPropagation();
+      panRef.current = { pointerId: event.pointerId, last: { x: event.clientX, y: event.clientY } };
+      updateCursor();
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      const pan = panRef.current;
+      if (!pan || pan.pointerId !== event.pointerId) return;
+
+      setCamera(panBy(useSpatialStore.getState().camera, event.clientX - pan.last.x, event.clientY - pan.last.y));
+      pan.last = { x: event.clientX, y: event.clientY };
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      if (!panRef.current || panRef.current.pointerId !== event.pointerId) return;
+
+      panRef.current = null;
+      updateCursor();
+    };
+
+    const isTyping = (event: KeyboardEvent) =>
+      event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== 'Space' || isTyping(event)) return;
+
+      event.preventDefault();
+      spaceDownRef.current = true;
+      updateCursor();
+    };
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code !== 'Space') return;
+
+      spaceDownRef.current = false;
+      updateCursor();
+    };
+
+    updateCursor();
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    container.addEventListener('pointerdown', handlePointerDown, true);
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
     window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [mode]);
+    window.addEventListener('keyup', handleKeyUp);
+
+    return () => {
+      container.removeEventListener('wheel', handleWheel);
+      container.removeEventListener('pointerdown', handlePointerDown, true);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [isInitialized, mode, setCamera]);
+
+  // Switching tools finishes the chain in progress and drops a shape that was started
+  useEffect(
+    () =>
+      useSpatialStore.subscribe((state, previous) => {
+        if (state.mode !== previous.mode) {
+          finishChain();
+          setShapeStart(null);
+        }
+      }),
+    [finishChain]
+  );
 
   return (
-    <div
-      ref={canvasRef}
-      style={{
-        width: '100%',
-        height: '100%',
-        overflow: 'hidden',
-      }}
-      data-testid="pixi-canvas"
-    />
+    <div style={{ position: 'relative', width: '100%', height: '100%' }}>
+      <div
+        ref={canvasRef}
+        style={{
+          width: '100%',
+          height: '100%',
+          overflow: 'hidden',
+        }}
+        data-testid="pixi-canvas"
+      />
+      {isEntering && lengthEntry !== null && (
+        <LengthEntryInput
+          position={worldToScreen(camera, mousePos)}
+          value={lengthEntry}
+          valid={mode === 'rectangle' ? rectangleSize !== null : parsedEntry !== null}
+          onChange={setLengthEntry}
+          onSubmit={handleLengthEntrySubmit}
+          onCancel={() => setLengthEntry(null)}
+          hint={mode === 'rectangle' ? 'mm · width x height, e.g. 4200x3000' : undefined}
+        />
+      )}
+    </div>
   );
 };
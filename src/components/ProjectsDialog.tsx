@@ -0,0 +1,164 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useSpatialStore } from '../store/useSpatialStore';
+import { flushAutosave } from '../hooks/useAutosave';
+import {
+  deleteProject,
+  duplicateProject,
+  getProject,
+  listProjects,
+  renameProject,
+  setLastProjectId,
+  type ProjectSummary,
+} from '../utils/projectStorage';
+import './ProjectsDialog.css';
+
+/**
+ * Lists saved projects and lets the user open, rename, duplicate and delete them
+ */
+export const ProjectsDialog: React.FC = () => {
+  const open = useSpatialStore((state) => state.projectsOpen);
+  const setOpen = useSpatialStore((state) => state.setProjectsOpen);
+  const currentProject = useSpatialStore((state) => state.project);
+  const setProject = useSpatialStore((state) => state.setProject);
+  const loadProject = useSpatialStore((state) => state.loadProject);
+  const newProject = useSpatialStore((state) => state.newProject);
+
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+      setError(null);
+    } catch (e) {
+      setError(`Projects are unavailable: ${(e as Error).message}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    // Save pending edits first so the current plan is listed up to date
+    void flushAutosave().then(refresh);
+  }, [open, refresh]);
+
+  if (!open) return null;
+
+  const close = () => {
+    setRenaming(null);
+    setOpen(false);
+  };
+
+  const handleNew = async () => {
+    await flushAutosave();
+    newProject();
+    close();
+  };
+
+  const handleOpen = async (id: string) => {
+    await flushAutosave();
+    const project = await getProject(id);
+    if (!project) {
+      await refresh();
+      return;
+    }
+
+    loadProject(project);
+    await setLastProjectId(id);
+    close();
+  };
+
+  const commitRename = async () => {
+    if (!renaming) return;
+    const name = renaming.name.trim();
+    setRenaming(null);
+    if (!name) return;
+
+    await renameProject(renaming.id, name);
+    if (currentProject?.id === renaming.id) {
+      setProject({ id: renaming.id, name });
+    }
+    await refresh();
+  };
+
+  const handleDuplicate = async (id: string) => {
+    if (currentProject?.id === id) await flushAutosave();
+    await duplicateProject(id);
+    await refresh();
+  };
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!window.confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+
+    await deleteProject(project.id);
+    if (currentProject?.id === project.id) {
+      newProject();
+    }
+    await refresh();
+  };
+
+  return (
+    <div className="projects-dialog-backdrop" onClick={close}>
+      <div className="projects-dialog" role="dialog" aria-modal="true" onClick={(e) => e.stopPropagation()}>
+        <div className="projects-dialog-header">
+          <h2 className="projects-dialog-title">Projects</h2>
+          <button className="primary" onClick={handleNew}>
+            New Plan
+          </button>
+        </div>
+
+        {error && <p className="projects-dialog-error">{error}</p>}
+        {!error && projects.length === 0 && (
+          <p className="projects-dialog-empty">No saved projects yet. Plans are saved automatically as you draw.</p>
+        )}
+
+        <ul className="projects-dialog-list">
+          {projects.map((project) => (
+            <li
+              key={project.id}
+              className={`projects-dialog-item ${project.id === currentProject?.id ? 'current' : ''}`}
+            >
+              <button className="projects-dialog-open" onClick={() => handleOpen(project.id)} title="Open">
+                {project.thumbnail ? (
+                  <img src={project.thumbnail} alt="" className="projects-dialog-thumbnail" />
+                ) : (
+                  <div className="projects-dialog-thumbnail" />
+                )}
+              </button>
+              <div className="projects-dialog-details">
+                {renaming?.id === project.id ? (
+                  <input
+                    className="projects-dialog-rename"
+                    value={renaming.name}
+                    autoFocus
+                    onChange={(e) => setRenaming({ id: project.id, name: e.target.value })}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') void commitRename();
+                      else if (e.key === 'Escape') setRenaming(null);
+                    }}
+                  />
+                ) : (
+                  <div className="projects-dialog-name">{project.name}</div>
+                )}
+                <div className="projects-dialog-date">
+                  Modified {new Date(project.updatedAt).toLocaleString()}
+                </div>
+                <div className="projects-dialog-actions">
+                  <button onClick={() => handleOpen(project.id)}>Open</button>
+                  <button onClick={() => setRenaming({ id: project.id, name: project.name })}>Rename</button>
+                  <button onClick={() => handleDuplicate(project.id)}>Duplicate</button>
+                  <button onClick={() => handleDelete(project)}>Delete</button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <div className="projects-dialog-footer">
+          <button onClick={close}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
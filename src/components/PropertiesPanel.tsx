@@ -0,0 +1,231 @@
+import React from 'react';
+import { useSpatialStore } from '../store/useSpatialStore';
+import { CompositeCommand, SetEdgeKindCommand, UpdateEdgesCommand, UpdateOpeningsCommand } from '../utils/commands';
+import { getArcHeight, getBulgeFromHeight } from '../utils/arcs';
+import { WALL_TYPES, getWallThickness, getWallType } from '../utils/walls';
+import { OPENING_TYPE_NAMES } from '../utils/openings';
+import type { DoorHinge, DoorSwing, Edge, EdgeKind, Opening, OpeningType, WallAlignment, WallTypeId } from '../types/spatial';
+import './PropertiesPanel.css';
+
+const common = <T,>(values: T[]): T | undefined => (values.every((v) => v === values[0]) ? values[0] : undefined);
+
+/**
+ * Shows and edits the properties of the selected walls and openings
+ * Fields with mixed values across the selection are shown blank.
+ */
+export const PropertiesPanel: React.FC = () => {
+  const graph = useSpatialStore((state) => state.graph);
+  const selectedIds = useSpatialStore((state) => state.selectedIds);
+
+  const edges: Edge[] = [];
+  const openings: Opening[] = [];
+  selectedIds.forEach((id) => {
+    const edge = graph.getEdge(id);
+    if (edge) edges.push(edge);
+
+    const opening = graph.getOpening(id);
+    if (opening) openings.push(opening);
+  });
+
+  if (edges.length === 0 && openings.length === 0) return null;
+
+  return (
+    <div className="properties-panel">
+      {edges.length > 0 && <WallProperties edges={edges} />}
+      {openings.length > 0 && <OpeningProperties openings={openings} />}
+    </div>
+  );
+};
+
+const WallProperties: React.FC<{ edges: Edge[] }> = ({ edges }) => {
+  const dispatch = useSpatialStore((state) => state.dispatch);
+  const graph = useSpatialStore((state) => state.graph);
+  const pixelsPerMm = useSpatialStore((state) => state.measurement.pixelsPerMm);
+
+  const edgeIds = edges.map((edge) => edge.id);
+
+  const kind = common(edges.map((edge) => edge.kind ?? 'wall'));
+  const noun = kind === 'separator' ? 'Separator' : kind === 'wall' ? 'Wall' : 'Edge';
+  const wallType = common(edges.map((edge) => getWallType(edge).id));
+  const thickness = common(edges.map((edge) => getWallThickness(edge)));
+  const alignment = common(edges.map((edge) => edge.alignment ?? 'center'));
+  const endpoints = (edge: Edge) => [graph.getVertex(edge.startVertexId), graph.getVertex(edge.endVertexId)] as const;
+  const arcHeight = common(
+    edges.map((edge) => {
+      const [start, end] = endpoints(edge);
+      return start && end ? Math.round(getArcHeight(start, end, edge.bulge) / pixelsPerMm) : 0;
+    })
+  );
+
+  const handleKindChange = (value: EdgeKind) => {
+    dispatch(new SetEdgeKindCommand(edgeIds, value));
+  };
+
+  const handleWallTypeChange = (value: WallTypeId) => {
+    // Picking a type resets any custom thickness to the type's default
+    dispatch(new UpdateEdgesCommand(edgeIds, { wallType: value, thickness: undefined }));
+  };
+
+  const handleThicknessChange = (value: number) => {
+    if (!Number.isFinite(value) || value <= 0) return;
+    dispatch(new UpdateEdgesCommand(edgeIds, { thickness: value }));
+  };
+
+  const handleAlignmentChange = (value: WallAlignment) => {
+    dispatch(new UpdateEdgesCommand(edgeIds, { alignment: value }));
+  };
+
+  // The same height is a different bulge on edges of different lengths
+  const handleArcHeightChange = (input: string) => {
+    // An empty field (e.g. mixed heights) leaves the edges as they are
+    const value = Number(input);
+    if (input.trim() === '' || !Number.isFinite(value) || value === arcHeight) return;
+    const commands = edges.map((edge) => {
+      const [start, end] = endpoints(edge);
+      const bulge = start && end && value !== 0 ? getBulgeFromHeight(start, end, value * pixelsPerMm) : undefined;
+      return new UpdateEdgesCommand([edge.id], { bulge });
+    });
+    dispatch(new CompositeCommand(commands, `Curve ${edges.length} ${noun.toLowerCase()}${edges.length === 1 ? '' : 's'}`));
+  };
+
+  return (
+    <>
+      <div className="properties-title">
+        {edges.length === 1 ? noun : `${edges.length} ${noun}s`}
+      </div>
+      <label className="properties-row">
+        <span className="properties-label">Kind</span>
+        <select value={kind ?? ''} onChange={(e) => handleKindChange(e.target.value as EdgeKind)}>
+          {kind === undefined && <option value="">Mixed</option>}
+          <option value="wall">Wall</option>
+          <option value="separator">Separator</option>
+        </select>
+      </label>
+      <label className="properties-row">
+        <span className="properties-label">Arc height (mm)</span>
+        <input
+          key={`${edgeIds.join(',')}:arc:${arcHeight ?? ''}`}
+          type="number"
+          step={100}
+          defaultValue={arcHeight ?? ''}
+          title="Distance from the chord midpoint to the curve, positive to the left; 0 is straight"
+          onBlur={(e) => handleArcHeightChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleArcHeightChange(e.currentTarget.value);
+          }}
+        />
+      </label>
+      {/* Separators have no wall properties */}
+      {kind === 'wall' && (
+        <>
+          <label className="properties-row">
+            <span className="properties-label">Type</span>
+            <select value={wallType ?? ''} onChange={(e) => handleWallTypeChange(e.target.value as WallTypeId)}>
+              {wallType === undefined && <option value="">Mixed</option>}
+              {Object.values(WALL_TYPES).map((type) => (
+                <option key={type.id} value={type.id}>
+                  {type.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="properties-row">
+            <span className="properties-label">Thickness (mm)</span>
+            <input
+              key={`${edgeIds.join(',')}:${thickness ?? ''}`}
+              type="number"
+              min={1}
+              step={10}
+              defaultValue={thickness ?? ''}
+              onBlur={(e) => handleThicknessChange(Number(e.target.value))}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleThicknessChange(Number(e.currentTarget.value));
+              }}
+            />
+          </label>
+          <label className="properties-row">
+            <span className="properties-label">Alignment</span>
+            <select value={alignment ?? ''} onChange={(e) => handleAlignmentChange(e.target.value as WallAlignment)}>
+              {alignment === undefined && <option value="">Mixed</option>}
+              <option value="center">Center</option>
+              <option value="left">Left</option>
+              <option value="right">Right</option>
+            </select>
+          </label>
+        </>
+      )}
+    </>
+  );
+};
+
+const OpeningProperties: React.FC<{ openings: Opening[] }> = ({ openings }) => {
+  const dispatch = useSpatialStore((state) => state.dispatch);
+
+  const openingIds = openings.map((opening) => opening.id);
+  const type = common(openings.map((opening) => opening.type));
+  const width = common(openings.map((opening) => opening.width));
+  const hinge = common(openings.map((opening) => opening.hinge ?? 'start'));
+  const swing = common(openings.map((opening) => opening.swing ?? 'left'));
+
+  const update = (updates: Partial<Omit<Opening, 'id' | 'edgeId'>>) => {
+    dispatch(new UpdateOpeningsCommand(openingIds, updates));
+  };
+
+  const handleWidthChange = (value: number) => {
+    if (!Number.isFinite(value) || value <= 0) return;
+    update({ width: value });
+  };
+
+  return (
+    <>
+      <div className="properties-title">
+        {openings.length === 1 ? OPENING_TYPE_NAMES[openings[0].type] : `${openings.length} Openings`}
+      </div>
+      <label className="properties-row">
+        <span className="properties-label">Type</span>
+        <select value={type ?? ''} onChange={(e) => update({ type: e.target.value as OpeningType })}>
+          {type === undefined && <option value="">Mixed</option>}
+          {(Object.keys(OPENING_TYPE_NAMES) as OpeningType[]).map((openingType) => (
+            <option key={openingType} value={openingType}>
+              {OPENING_TYPE_NAMES[openingType]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="properties-row">
+        <span className="properties-label">Width (mm)</span>
+        <input
+          key={`${openingIds.join(',')}:${width ?? ''}`}
+          type="number"
+          min={1}
+          step={50}
+          defaultValue={width ?? ''}
+          onBlur={(e) => handleWidthChange(Number(e.target.value))}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleWidthChange(Number(e.currentTarget.value));
+          }}
+        />
+      </label>
+      {type === 'door' && (
+        <>
+          <label className="properties-row">
+            <span className="properties-label">Hinge</span>
+            <select value={hinge ?? ''} onChange={(e) => update({ hinge: e.target.value as DoorHinge })}>
+              {hinge === undefined && <option value="">Mixed</option>}
+              <option value="start">Start</option>
+              <option value="end">End</option>
+            </select>
+          </label>
+          <label className="properties-row">
+            <span className="properties-label">Swing</span>
+            <select value={swing ?? ''} onChange={(e) => update({ swing: e.target.value as DoorSwing })}>
+              {swing === undefined && <option value="">Mixed</option>}
+              <option value="left">Left</option>
+              <option value="right">Right</option>
+            </select>
+          </label>
+        </>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import { useSpatialStore } from '../store/useSpatialStore';
+import { getLastProjectId, getProject, setLastProjectId, type ProjectRecord } from '../utils/projectStorage';
+import './RecoveryPrompt.css';
+
+interface RecoveryPromptProps {
+  /** Called once there is nothing to restore or the user has decided */
+  onResolved: () => void;
+}
+
+/**
+ * Offers to restore the plan that was open when the editor was last closed
+ */
+export const RecoveryPrompt: React.FC<RecoveryPromptProps> = ({ onResolved }) => {
+  const loadProject = useSpatialStore((state) => state.loadProject);
+  const [candidate, setCandidate] = useState<ProjectRecord | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      const id = await getLastProjectId();
+      return id ? getProject(id) : undefined;
+    })()
+      .then((project) => {
+        if (cancelled) return;
+        if (project && (project.document.data.vertices.length > 0 || project.document.underlay)) {
+          setCandidate(project);
+        } else {
+          onResolved();
+        }
+      })
+      .catch((error) => {
+        console.warn('Could not check for unsaved work:', error);
+        if (!cancelled) onResolved();
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [onResolved]);
+
+  if (!candidate) return null;
+
+  const handleRestore = () => {
+    loadProject(candidate);
+    setCandidate(null);
+    onResolved();
+  };
+
+  const handleDiscard = () => {
+    // The project stays in the project list; only the prompt is not shown again
+    void setLastProjectId(null);
+    setCandidate(null);
+    onResolved();
+  };
+
+  return (
+    <div className="recovery-prompt-backdrop">
+      <div className="recovery-prompt" role="dialog" aria-modal="true">
+        <h2 className="recovery-prompt-title">Restore unsaved work?</h2>
+        <div className="recovery-prompt-project">
+          {candidate.thumbnail && <img src={candidate.thumbnail} alt="" className="recovery-prompt-thumbnail" />}
+          <div>
+            <div className="recovery-prompt-name">{candidate.name}</div>
+            <div className="recovery-prompt-date">
+              Last modified {new Date(candidate.updatedAt).toLocaleString()}
+            </div>
+          </div>
+        </div>
+        <div className="recovery-prompt-actions">
+          <button onClick={handleDiscard}>Start New Plan</button>
+          <button className="primary" onClick={handleRestore} autoFocus>
+            Restore
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
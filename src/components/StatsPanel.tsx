@@ -1,11 +1,12 @@
 import React from 'react';
 import { useSpatialStore } from '../store/useSpatialStore';
+import { calculateNetArea, isSeparator } from '../utils/walls';
 import './StatsPanel.css';
 
 export const StatsPanel: React.FC = () => {
   const graph = useSpatialStore((state) => state.graph);
   
-  const edgeCount = graph.getEdges().size;
+  const wallCount = Array.from(graph.getEdges().values()).filter((edge) => !isSeparator(edge)).length;
   const surfaceCount = graph.getSurfaces().size;
   
   // Calculate total area in square meters
@@ -19,17 +20,20 @@ export const StatsPanel: React.FC = () => {
   const pixelsPerMm = measurementSettings.pixelsPerMm;
   
   let totalAreaMm2 = 0;
+  let netAreaMm2 = 0;
   graph.getSurfaces().forEach(surface => {
     totalAreaMm2 += surface.area / (pixelsPerMm * pixelsPerMm);
+    netAreaMm2 += calculateNetArea(graph, surface.id, pixelsPerMm) / (pixelsPerMm * pixelsPerMm);
   });
   
   const totalAreaM2 = totalAreaMm2 / 1000000;
+  const netAreaM2 = netAreaMm2 / 1000000;
 
   return (
     <div className="stats-panel">
       <div className="stat-item">
         <span className="stat-label">Walls:</span>
-        <span className="stat-value">{edgeCount}</span>
+        <span className="stat-value">{wallCount}</span>
       </div>
       <div className="stat-item">
         <span className="stat-label">Rooms:</span>
@@ -39,6 +43,10 @@ export const StatsPanel: React.FC = () => {
         <span className="stat-label">Total Area:</span>
         <span className="stat-value">{totalAreaM2.toFixed(2)} m²</span>
       </div>
+      <div className="stat-item">
+        <span className="stat-label">Net Area:</span>
+        <span className="stat-value">{netAreaM2.toFixed(2)} m²</span>
+      </div>
     </div>
   );
 };
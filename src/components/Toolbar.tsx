@@ -1,7 +1,13 @@
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { useSpatialStore } from '../store/useSpatialStore';
-import { generateJSON, generateCSV } from '../utils/export';
+import { generateJSON, generateCSV, generateDXF, generateSVG } from '../utils/export';
 import { ClearCanvasCommand } from '../utils/commands';
+import { WALL_TYPES } from '../utils/walls';
+import { OPENING_TYPE_NAMES } from '../utils/openings';
+import { createUnderlay } from '../utils/underlay';
+import { DEFAULT_ANGLE_SNAP } from '../utils/geometry';
+import { DEFAULT_POLYGON_SIDES, MAX_POLYGON_SIDES, MIN_POLYGON_SIDES } from '../utils/shapes';
+import type { OpeningType, WallTypeId } from '../types/spatial';
 import './Toolbar.css';
 
 export const Toolbar: React.FC = () => {
@@ -9,9 +15,28 @@ export const Toolbar: React.FC = () => {
   const drawingSettings = useSpatialStore((state) => state.drawingSettings);
   const setMode = useSpatialStore((state) => state.setMode);
   const setResolution = useSpatialStore((state) => state.setResolution);
+  const setWallType = useSpatialStore((state) => state.setWallType);
+  const setEdgeKind = useSpatialStore((state) => state.setEdgeKind);
+  const setOpeningType = useSpatialStore((state) => state.setOpeningType);
+  const setPolygonSides = useSpatialStore((state) => state.setPolygonSides);
+  const setAngleSnap = useSpatialStore((state) => state.setAngleSnap);
+  const detectionSettings = useSpatialStore((state) => state.detectionSettings);
+  const setDetectionSettings = useSpatialStore((state) => state.setDetectionSettings);
   const undo = useSpatialStore((state) => state.undo);
   const redo = useSpatialStore((state) => state.redo);
   const dispatch = useSpatialStore((state) => state.dispatch);
+  const camera = useSpatialStore((state) => state.camera);
+  const hasSelection = useSpatialStore((state) => state.selectedIds.size > 0);
+  const zoomToFit = useSpatialStore((state) => state.zoomToFit);
+  const zoomToSelection = useSpatialStore((state) => state.zoomToSelection);
+  const openDocument = useSpatialStore((state) => state.openDocument);
+  const openDXF = useSpatialStore((state) => state.openDXF);
+  const project = useSpatialStore((state) => state.project);
+  const setProjectsOpen = useSpatialStore((state) => state.setProjectsOpen);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const underlayInputRef = useRef<HTMLInputElement>(null);
+  const setUnderlay = useSpatialStore((state) => state.setUnderlay);
+  const [svgScale, setSvgScale] = useState(100);
 
   const handleClear = () => {
     if (window.confirm('Are you sure you want to clear the canvas?')) {
@@ -19,9 +44,50 @@ export const Toolbar: React.FC = () => {
     }
   };
 
+  const handleOpenFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires a change
+    e.target.value = '';
+    if (!file) return;
+
+    const open = /\.dxf$/i.test(file.name) ? openDXF : openDocument;
+    open(await file.text(), file.name);
+  };
+
+  const handleLoadUnderlay = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = async () => {
+      const src = reader.result as string;
+      const image = new Image();
+      image.src = src;
+      try {
+        await image.decode();
+      } catch {
+        window.alert(`Could not read ${file.name} as an image`);
+        return;
+      }
+
+      // Fit the image into the visible part of the canvas
+      const { camera, viewportSize } = useSpatialStore.getState();
+      setUnderlay(
+        createUnderlay(src, image.naturalWidth, image.naturalHeight, {
+          x: -camera.x / camera.scale,
+          y: -camera.y / camera.scale,
+          width: viewportSize.width / camera.scale,
+          height: viewportSize.height / camera.scale,
+        })
+      );
+    };
+    reader.readAsDataURL(file);
+  };
+
   const handleExportJSON = () => {
-    const graph = useSpatialStore.getState().graph;
-    const json = generateJSON(graph);
+    const { graph, measurement, drawingSettings, detectionSettings, underlay } = useSpatialStore.getState();
+    const json = generateJSON(graph, { measurement, drawingSettings, detectionSettings, underlay });
     const blob = new Blob([json], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -31,10 +97,38 @@ export const Toolbar: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
+  const handleExportSVG = () => {
+    const { graph, measurement } = useSpatialStore.getState();
+    const svg = generateSVG(graph, {
+      pixelsPerMm: measurement.pixelsPerMm,
+      scale: svgScale,
+      showDimensions: measurement.showMeasurements,
+    });
+    const blob = new Blob([svg], { type: 'image/svg+xml' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'floorplan.svg';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportDXF = () => {
+    const { graph, measurement } = useSpatialStore.getState();
+    const dxf = generateDXF(graph, { pixelsPerMm: measurement.pixelsPerMm });
+    const blob = new Blob([dxf], { type: 'application/dxf' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'floorplan.dxf';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   const handleExportCSV = () => {
     const graph = useSpatialStore.getState().graph;
     const measurement = useSpatialStore.getState().measurement;
-    const { walls, rooms } = generateCSV(graph, measurement.pixelsPerMm);
+    const { walls, rooms, openings } = generateCSV(graph, measurement.pixelsPerMm);
     
     // Download Walls
     const blobWalls = new Blob([walls], { type: 'text/csv' });
@@ -53,6 +147,17 @@ export const Toolbar: React.FC = () => {
     aRooms.download = 'rooms.csv';
     aRooms.click();
     URL.revokeObjectURL(urlRooms);
+
+    // Download Openings (only when there are any)
+    if (graph.getOpenings().size > 0) {
+      const blobOpenings = new Blob([openings], { type: 'text/csv' });
+      const urlOpenings = URL.createObjectURL(blobOpenings);
+      const aOpenings = document.createElement('a');
+      aOpenings.href = urlOpenings;
+      aOpenings.download = 'openings.csv';
+      aOpenings.click();
+      URL.revokeObjectURL(urlOpenings);
+    }
   };
 
   return (
@@ -65,6 +170,36 @@ export const Toolbar: React.FC = () => {
         >
           Draw
         </button>
+        <button
+          className={mode === 'rectangle' ? 'active' : ''}
+          onClick={() => setMode('rectangle')}
+          title="Draw a rectangular room: drag corner to corner, or click a corner and type width×height"
+        >
+          Rectangle
+        </button>
+        <button
+          className={mode === 'polygon' ? 'active' : ''}
+          onClick={() => setMode('polygon')}
+          title="Draw a regular polygon room: drag from the centre to a corner"
+        >
+          Polygon
+        </button>
+        <input
+          type="number"
+          min={MIN_POLYGON_SIDES}
+          max={MAX_POLYGON_SIDES}
+          value={drawingSettings.polygonSides ?? DEFAULT_POLYGON_SIDES}
+          onChange={(e) => {
+            const sides = Math.round(Number(e.target.value));
+            if (sides >= MIN_POLYGON_SIDES && sides <= MAX_POLYGON_SIDES) {
+              setPolygonSides(sides);
+              setMode('polygon');
+            }
+          }}
+          title="Number of sides for the Polygon tool"
+          aria-label="Polygon sides"
+          style={{ width: '56px', padding: '4px', borderRadius: '4px', background: '#333', color: 'white', border: '1px solid #555' }}
+        />
         <button
           className={mode === 'select' ? 'active' : ''}
           onClick={() => setMode('select')}
@@ -79,6 +214,50 @@ export const Toolbar: React.FC = () => {
         >
           Erase
         </button>
+        <button
+          className={mode === 'pan' ? 'active' : ''}
+          onClick={() => setMode('pan')}
+          title="Pan (hold Space or drag with the middle mouse button in any mode)"
+        >
+          Pan
+        </button>
+        <button
+          className={mode === 'opening' ? 'active' : ''}
+          onClick={() => setMode('opening')}
+          title="Place doors and windows on walls"
+        >
+          Opening
+        </button>
+        <select
+          value={drawingSettings.openingType}
+          onChange={(e) => {
+            setOpeningType(e.target.value as OpeningType);
+            setMode('opening');
+          }}
+          className="toolbar-select"
+          title="Opening type"
+          style={{ padding: '4px', borderRadius: '4px', background: '#333', color: 'white', border: '1px solid #555' }}
+        >
+          {(Object.keys(OPENING_TYPE_NAMES) as OpeningType[]).map((type) => (
+            <option key={type} value={type}>
+              {OPENING_TYPE_NAMES[type]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="toolbar-divider" />
+
+      <div className="toolbar-group">
+        <button onClick={zoomToFit} title="Zoom to fit the whole plan">
+          Zoom to Fit
+        </button>
+        <button onClick={zoomToSelection} disabled={!hasSelection} title="Zoom to the selected elements">
+          Zoom to Selection
+        </button>
+        <span className="toolbar-label" style={{ color: '#ccc' }}>
+          Zoom: {Math.round(camera.scale * 100)}%
+        </span>
       </div>
 
       <div className="toolbar-divider" />
@@ -114,15 +293,139 @@ export const Toolbar: React.FC = () => {
         </select>
       </div>
 
+      <div className="toolbar-group">
+        <label className="toolbar-label" htmlFor="angle-snap-select" style={{ marginRight: '8px', color: '#ccc' }}>Angle:</label>
+        <select
+          id="angle-snap-select"
+          value={drawingSettings.angleSnap ?? DEFAULT_ANGLE_SNAP}
+          onChange={(e) => setAngleSnap(Number(e.target.value))}
+          className="toolbar-select"
+          title="Snap wall directions to multiples of this angle, from the axes or the previous wall (hold Shift for 0/90° only)"
+          style={{ padding: '4px', borderRadius: '4px', background: '#333', color: 'white', border: '1px solid #555' }}
+        >
+          <option value={0}>Off</option>
+          <option value={15}>15°</option>
+          <option value={30}>30°</option>
+          <option value={45}>45°</option>
+          <option value={90}>90°</option>
+        </select>
+      </div>
+
+      <div className="toolbar-group">
+        <label className="toolbar-label" htmlFor="wall-type-select" style={{ marginRight: '8px', color: '#ccc' }}>Wall:</label>
+        <select
+          id="wall-type-select"
+          value={drawingSettings.edgeKind === 'separator' ? 'separator' : drawingSettings.wallType}
+          onChange={(e) => {
+            if (e.target.value === 'separator') {
+              setEdgeKind('separator');
+            } else {
+              setEdgeKind('wall');
+              setWallType(e.target.value as WallTypeId);
+            }
+          }}
+          className="toolbar-select"
+          title="Wall type for new walls, or a separator line that bounds rooms without a wall"
+          style={{ padding: '4px', borderRadius: '4px', background: '#333', color: 'white', border: '1px solid #555' }}
+        >
+          {Object.values(WALL_TYPES).map((wallType) => (
+            <option key={wallType.id} value={wallType.id}>
+              {wallType.name} ({wallType.thickness} mm)
+            </option>
+          ))}
+          <option value="separator">Separator (no wall)</option>
+        </select>
+      </div>
+
       <div className="toolbar-divider" />
 
       <div className="toolbar-group">
+        <button onClick={() => setProjectsOpen(true)} title="Saved projects (plans are saved automatically)">
+          Projects
+        </button>
+        <span className="toolbar-label toolbar-project-name" style={{ color: '#ccc' }}>
+          {project?.name ?? 'Unsaved plan'}
+        </span>
+        <button onClick={() => fileInputRef.current?.click()} title="Open a JSON floorplan or import a DXF drawing (or drop the file on the canvas)">
+          Open
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json,.dxf"
+          onChange={handleOpenFile}
+          style={{ display: 'none' }}
+        />
+        <button onClick={() => underlayInputRef.current?.click()} title="Load a PNG or JPG to trace over">
+          Underlay
+        </button>
+        <input
+          ref={underlayInputRef}
+          type="file"
+          accept="image/png,image/jpeg"
+          onChange={handleLoadUnderlay}
+          style={{ display: 'none' }}
+        />
         <button onClick={handleExportJSON} title="Export as JSON">
           JSON
         </button>
         <button onClick={handleExportCSV} title="Export as CSV">
           CSV
         </button>
+        <button onClick={handleExportDXF} title="Export as DXF for CAD (millimetres)">
+          DXF
+        </button>
+        <button onClick={handleExportSVG} title="Export as SVG drawing at the selected print scale">
+          SVG
+        </button>
+        <select
+          value={svgScale}
+          onChange={(e) => setSvgScale(Number(e.target.value))}
+          className="toolbar-select"
+          title="SVG print scale"
+        >
+          {[20, 50, 100, 200].map((scale) => (
+            <option key={scale} value={scale}>
+              1:{scale}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="toolbar-divider" />
+
+      <div className="toolbar-group">
+        <label className="toolbar-label" htmlFor="min-room-area" style={{ marginRight: '8px', color: '#ccc' }}>Min room:</label>
+        <input
+          id="min-room-area"
+          type="number"
+          min={0}
+          step={0.01}
+          value={detectionSettings.minRoomArea}
+          onChange={(e) => {
+            const minRoomArea = Number(e.target.value);
+            if (e.target.value !== '' && minRoomArea >= 0) setDetectionSettings({ minRoomArea });
+          }}
+          title="Smallest enclosed area detected as a room (m²)"
+          style={{ width: '64px', padding: '4px', borderRadius: '4px', background: '#333', color: 'white', border: '1px solid #555' }}
+        />
+        <span className="toolbar-label" style={{ marginLeft: '4px', color: '#ccc' }}>m²</span>
+        <label className="toolbar-label" title="Leave dead-end walls out of room boundaries" style={{ marginLeft: '8px', color: '#ccc' }}>
+          <input
+            type="checkbox"
+            checked={detectionSettings.ignoreFilaments}
+            onChange={(e) => setDetectionSettings({ ignoreFilaments: e.target.checked })}
+          />
+          Ignore dead ends
+        </label>
+        <label className="toolbar-label" title="Let separator lines close rooms" style={{ marginLeft: '8px', color: '#ccc' }}>
+          <input
+            type="checkbox"
+            checked={detectionSettings.includeVirtualSeparators}
+            onChange={(e) => setDetectionSettings({ includeVirtualSeparators: e.target.checked })}
+          />
+          Separators
+        </label>
       </div>
 
       <div className="toolbar-divider" />
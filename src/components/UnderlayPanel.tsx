@@ -0,0 +1,92 @@
+import React from 'react';
+import { useSpatialStore } from '../store/useSpatialStore';
+import './UnderlayPanel.css';
+
+/**
+ * Controls for the tracing image: opacity, lock, position, rotation, scale and calibration
+ * Position and scale are shown in millimetres.
+ */
+export const UnderlayPanel: React.FC = () => {
+  const underlay = useSpatialStore((state) => state.underlay);
+  const pixelsPerMm = useSpatialStore((state) => state.measurement.pixelsPerMm);
+  const mode = useSpatialStore((state) => state.mode);
+  const updateUnderlay = useSpatialStore((state) => state.updateUnderlay);
+  const setUnderlay = useSpatialStore((state) => state.setUnderlay);
+  const setMode = useSpatialStore((state) => state.setMode);
+
+  if (!underlay) return null;
+
+  const { locked } = underlay;
+
+  // Numeric fields commit on blur or Enter, like the properties panel
+  const numberField = (label: string, value: number, step: number, commit: (value: number) => void) => (
+    <label className="underlay-row">
+      <span className="underlay-label">{label}</span>
+      <input
+        key={`${label}:${value}`}
+        type="number"
+        step={step}
+        defaultValue={Number(value.toFixed(3))}
+        disabled={locked}
+        onBlur={(e) => commit(Number(e.target.value))}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit(Number(e.currentTarget.value));
+        }}
+      />
+    </label>
+  );
+
+  const commitFinite = (apply: (value: number) => void) => (value: number) => {
+    if (Number.isFinite(value)) apply(value);
+  };
+
+  const handleRemove = () => {
+    if (window.confirm('Remove the underlay image?')) {
+      setUnderlay(null);
+      if (mode === 'calibrate') setMode('select');
+    }
+  };
+
+  return (
+    <div className="underlay-panel">
+      <div className="underlay-title">Underlay</div>
+      <label className="underlay-row">
+        <span className="underlay-label">Opacity</span>
+        <input
+          type="range"
+          min={0.05}
+          max={1}
+          step={0.05}
+          value={underlay.opacity}
+          onChange={(e) => updateUnderlay({ opacity: Number(e.target.value) })}
+        />
+      </label>
+      <label className="underlay-row">
+        <span className="underlay-label">Locked</span>
+        <input type="checkbox" checked={locked} onChange={(e) => updateUnderlay({ locked: e.target.checked })} />
+      </label>
+      {numberField('X (mm)', underlay.x / pixelsPerMm, 10, commitFinite((x) => updateUnderlay({ x: x * pixelsPerMm })))}
+      {numberField('Y (mm)', underlay.y / pixelsPerMm, 10, commitFinite((y) => updateUnderlay({ y: y * pixelsPerMm })))}
+      {numberField('Rotation (°)', underlay.rotation, 0.5, commitFinite((rotation) => updateUnderlay({ rotation })))}
+      {numberField(
+        'Scale (mm/px)',
+        underlay.scale / pixelsPerMm,
+        0.1,
+        commitFinite((scale) => {
+          if (scale > 0) updateUnderlay({ scale: scale * pixelsPerMm });
+        })
+      )}
+      <div className="underlay-actions">
+        <button
+          className={mode === 'calibrate' ? 'active' : ''}
+          onClick={() => setMode(mode === 'calibrate' ? 'select' : 'calibrate')}
+          title="Click two points a known distance apart, then enter the distance"
+        >
+          Calibrate
+        </button>
+        <button onClick={handleRemove}>Remove</button>
+      </div>
+      {mode === 'calibrate' && <div className="underlay-hint">Click two points a known distance apart</div>}
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import { useEffect } from 'react';
+import { useSpatialStore } from '../store/useSpatialStore';
+import { serializeDocument } from '../utils/document';
+import { generateId } from '../utils/geometry';
+import { DEFAULT_PROJECT_NAME, saveProject, setLastProjectId } from '../utils/projectStorage';
+import { debounce } from '../utils/debounce';
+
+const AUTOSAVE_DELAY = 1000;
+
+// Saves run one after another so a new project is never created twice
+let saveQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Save the current plan to its project, creating the project on the first save
+ * An empty plan that was never saved is not stored.
+ */
+export function saveCurrentProject(): Promise<void> {
+  saveQueue = saveQueue
+    .then(async () => {
+      const { graph, measurement, drawingSettings, detectionSettings, underlay, project, thumbnailRenderer, setProject } =
+        useSpatialStore.getState();
+      if (!project && graph.getVertices().size === 0 && !underlay) return;
+
+      const info = project ?? { id: generateId(), name: DEFAULT_PROJECT_NAME };
+      if (!project) setProject(info);
+
+      await saveProject({
+        ...info,
+        document: serializeDocument(graph, { measurement, drawingSettings, detectionSettings, underlay }),
+        thumbnail: thumbnailRenderer?.() ?? null,
+      });
+      await setLastProjectId(info.id);
+    })
+    .catch((error) => {
+      console.warn('Autosave failed:', error);
+    });
+
+  return saveQueue;
+}
+
+const scheduleSave = debounce(() => void saveCurrentProject(), AUTOSAVE_DELAY);
+
+/**
+ * Save a pending change right away
+ */
+export function flushAutosave(): Promise<void> {
+  if (!scheduleSave.pending()) return saveQueue;
+  scheduleSave.cancel();
+  return saveCurrentProject();
+}
+
+/**
+ * Autosave the plan and its settings shortly after every change
+ * Disabled until the startup recovery prompt has been answered, so the plan
+ * waiting to be restored isn't overwritten.
+ */
+export function useAutosave(enabled: boolean): void {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const unsubscribe = useSpatialStore.subscribe((state, previous) => {
+      // Switching projects loads a saved plan; there is nothing new to save
+      if (state.project?.id !== previous.project?.id) {
+        scheduleSave.cancel();
+        return;
+      }
+
+      if (
+        state.graph !== previous.graph ||
+        state.measurement !== previous.measurement ||
+        state.drawingSettings !== previous.drawingSettings ||
+        state.detectionSettings !== previous.detectionSettings ||
+        state.underlay !== previous.underlay
+      ) {
+        scheduleSave();
+      }
+    });
+
+    const handlePageHide = () => void flushAutosave();
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('pagehide', handlePageHide);
+      scheduleSave.flush();
+    };
+  }, [enabled]);
+}
@@ -1,13 +1,111 @@
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
 import { SpatialGraph } from '../utils/spatialGraph';
-import { CommandManager } from '../utils/commands';
-import type { Command, CommandState } from '../utils/commands';
+import { CommandManager, ReplaceDocumentCommand } from '../utils/commands';
+import type { Command, CommandState, PlanSettings } from '../utils/commands';
 import { enableMapSet, current, isDraft } from 'immer';
-import type { DrawingMode, DrawingSettings } from '../types/spatial';
+import type {
+  Camera,
+  DetectionSettings,
+  DrawingMode,
+  DrawingSettings,
+  EdgeKind,
+  MeasurementSettings,
+  OpeningType,
+  Underlay,
+  WallTypeId,
+} from '../types/spatial';
+import { DEFAULT_CAMERA, fitBounds, getBounds } from '../utils/viewport';
+import { parseFloorplanJSON } from '../utils/import';
+import {
+  DEFAULT_DETECTION_SETTINGS,
+  DEFAULT_DRAWING_SETTINGS,
+  DEFAULT_MEASUREMENT_SETTINGS,
+  deserializeDetectionSettings,
+  deserializeDocument,
+  deserializeDrawingSettings,
+  deserializeUnderlay,
+} from '../utils/document';
+import { getSurfaceDetectionOptions } from '../utils/roomDetection';
+import type { FloorplanDocument } from '../types/document';
+import { buildGraphFromDXF, parseDXF, type DXFDrawing, type DXFImportOptions } from '../utils/dxfImport';
 
 enableMapSet();
 
+/**
+ * Get the graph with surfaces detected according to the settings
+ * Graphs coming from history or a file may have been detected with other settings;
+ * those are copied and re-detected, anything else is returned as it is.
+ */
+function applyDetectionSettings(
+  graph: SpatialGraph,
+  settings: DetectionSettings,
+  pixelsPerMm: number
+): SpatialGraph {
+  const options = getSurfaceDetectionOptions(settings, pixelsPerMm);
+  const current = graph.getDetectionOptions();
+  if ((Object.keys(options) as Array<keyof typeof options>).every((key) => options[key] === current[key])) {
+    return graph;
+  }
+
+  const updated = graph.clone();
+  updated.setDetectionOptions(options);
+  return updated;
+}
+
+type PlanSettingsState = Pick<SpatialState, 'measurement' | 'drawingSettings' | 'detectionSettings' | 'underlay'>;
+
+/**
+ * Get the editor settings for a command, as plain objects rather than drafts
+ */
+function getPlanSettings(state: PlanSettingsState): PlanSettings {
+  const plain = <T>(value: T): T => (isDraft(value) ? current(value) : value);
+  return {
+    measurement: plain(state.measurement),
+    drawingSettings: plain(state.drawingSettings),
+    detectionSettings: plain(state.detectionSettings),
+    underlay: plain(state.underlay),
+  };
+}
+
+/**
+ * Take on the editor settings a command returned, if it returned any
+ */
+function applyPlanSettings(state: PlanSettingsState, settings: PlanSettings | undefined): void {
+  if (!settings) return;
+  state.measurement = settings.measurement;
+  state.drawingSettings = settings.drawingSettings;
+  state.detectionSettings = settings.detectionSettings;
+  state.underlay = settings.underlay;
+}
+
+/**
+ * Outcome of opening a file, shown to the user when there is something to report
+ */
+export interface ImportReport {
+  fileName: string;
+  /** Structural errors; the file was not loaded */
+  errors: string[];
+  /** Integrity issues found after loading */
+  issues: string[];
+}
+
+/**
+ * A parsed DXF file waiting for the user to choose layers and units
+ */
+export interface PendingDXFImport {
+  fileName: string;
+  drawing: DXFDrawing;
+}
+
+/**
+ * The saved project being edited
+ */
+export interface ProjectInfo {
+  id: string;
+  name: string;
+}
+
 interface SpatialState {
   graph: SpatialGraph;
   commandManager: CommandManager;
@@ -16,64 +114,124 @@ interface SpatialState {
   snapToGrid: boolean;
   gridSize: number;
   drawingSettings: DrawingSettings;
-  measurement: {
-    pixelsPerMm: number;
-    showMeasurements: boolean;
-  };
+  detectionSettings: DetectionSettings;
+  measurement: MeasurementSettings;
+  camera: Camera;
+  viewportSize: { width: number; height: number };
+  importReport: ImportReport | null;
+  pendingDXF: PendingDXFImport | null;
+  underlay: Underlay | null;
+  /** Two world points picked in calibrate mode, awaiting the real distance */
+  calibrationPoints: [{ x: number; y: number }, { x: number; y: number }] | null;
+  /** Null until an unsaved plan is first autosaved */
+  project: ProjectInfo | null;
+  projectsOpen: boolean;
+  /** Renders a PNG data URL of the plan, registered by the canvas */
+  thumbnailRenderer: (() => string | null) | null;
   
   // Actions
   dispatch: (command: Command) => void;
+  applyTransient: (command: Command) => void;
   undo: () => void;
   redo: () => void;
+  /** Merge the history from `fromIndex` up to the last command into one undo step */
+  squashHistory: (fromIndex: number, description: string) => void;
   select: (ids: string[]) => void;
   clearSelection: () => void;
   setMode: (mode: DrawingMode) => void;
   setSnapToGrid: (enabled: boolean) => void;
   setGridSize: (size: number) => void;
   setResolution: (resolution: number) => void;
-  setMeasurement: (settings: Partial<{ pixelsPerMm: number; showMeasurements: boolean }>) => void;
+  setWallType: (wallType: WallTypeId) => void;
+  setEdgeKind: (edgeKind: EdgeKind) => void;
+  setOpeningType: (openingType: OpeningType) => void;
+  setPolygonSides: (sides: number) => void;
+  setAngleSnap: (increment: number) => void;
+  setMeasurement: (settings: Partial<MeasurementSettings>) => void;
+  setDetectionSettings: (settings: Partial<DetectionSettings>) => void;
+  setCamera: (camera: Camera) => void;
+  setViewportSize: (size: { width: number; height: number }) => void;
+  zoomToFit: () => void;
+  zoomToSelection: () => void;
+  openDocument: (text: string, fileName: string) => void;
+  dismissImportReport: () => void;
+  openDXF: (text: string, fileName: string) => void;
+  importDXF: (options: Omit<DXFImportOptions, 'pixelsPerMm'>) => void;
+  cancelDXFImport: () => void;
+  setUnderlay: (underlay: Underlay | null) => void;
+  updateUnderlay: (changes: Partial<Underlay>) => void;
+  setCalibrationPoints: (points: SpatialState['calibrationPoints']) => void;
+  loadProject: (project: ProjectInfo & { document: FloorplanDocument }) => void;
+  newProject: () => void;
+  setProject: (project: ProjectInfo | null) => void;
+  setProjectsOpen: (open: boolean) => void;
+  setThumbnailRenderer: (renderer: (() => string | null) | null) => void;
 }
 
 export const useSpatialStore = create<SpatialState>()(
-  immer((set) => ({
+  immer((set, get) => ({
     graph: new SpatialGraph(),
     commandManager: new CommandManager(),
     selectedIds: new Set(),
     mode: 'draw',
     snapToGrid: true,
     gridSize: 20,
-    drawingSettings: {
-      resolution: 100,
-    },
-    measurement: {
-      pixelsPerMm: 0.1,
-      showMeasurements: true,
-    },
+    drawingSettings: { ...DEFAULT_DRAWING_SETTINGS },
+    detectionSettings: { ...DEFAULT_DETECTION_SETTINGS },
+    measurement: { ...DEFAULT_MEASUREMENT_SETTINGS },
+    camera: DEFAULT_CAMERA,
+    viewportSize: { width: 0, height: 0 },
+    importReport: null,
+    pendingDXF: null,
+    underlay: null,
+    calibrationPoints: null,
+    project: null,
+    projectsOpen: false,
+    thumbnailRenderer: null,
 
     dispatch: (command: Command) => {
       set((state) => {
         const cmdState: CommandState = {
           graph: isDraft(state.graph) ? (current(state.graph) as SpatialGraph) : (state.graph as unknown as SpatialGraph),
           selectedIds: isDraft(state.selectedIds) ? current(state.selectedIds) : (state.selectedIds as unknown as Set<string>),
+          settings: getPlanSettings(state),
         };
 
         const resultState = state.commandManager.execute(command, cmdState);
         
-        state.graph = resultState.graph as any;
+        applyPlanSettings(state, resultState.settings);
+        state.graph = applyDetectionSettings(resultState.graph, state.detectionSettings, state.measurement.pixelsPerMm) as any;
         state.selectedIds = resultState.selectedIds as any;
       });
     },
 
+    applyTransient: (command: Command) => {
+      // Executes a command without recording it, for live previews (e.g. dragging)
+      set((state) => {
+        const cmdState: CommandState = {
+          graph: isDraft(state.graph) ? (current(state.graph) as SpatialGraph) : (state.graph as unknown as SpatialGraph),
+          selectedIds: isDraft(state.selectedIds) ? current(state.selectedIds) : (state.selectedIds as unknown as Set<string>),
+        };
+
+        const resultState = command.execute(cmdState);
+
+        state.graph = resultState.graph as unknown as typeof state.graph;
+        state.selectedIds = resultState.selectedIds;
+      });
+    },
+
     undo: () => {
       set((state) => {
         const cmdState: CommandState = {
           graph: isDraft(state.graph) ? (current(state.graph) as SpatialGraph) : (state.graph as unknown as SpatialGraph),
           selectedIds: isDraft(state.selectedIds) ? current(state.selectedIds) : (state.selectedIds as unknown as Set<string>),
+          settings: getPlanSettings(state),
         };
         
         const resultState = state.commandManager.undo(cmdState);
         
-        state.graph = resultState.graph as any;
+        applyPlanSettings(state, resultState.settings);
+        state.graph = applyDetectionSettings(resultState.graph, state.detectionSettings, state.measurement.pixelsPerMm) as any;
         state.selectedIds = resultState.selectedIds as any;
       });
     },
@@ -83,15 +241,21 @@ export const useSpatialStore = create<SpatialState>()(
         const cmdState: CommandState = {
           graph: isDraft(state.graph) ? (current(state.graph) as SpatialGraph) : (state.graph as unknown as SpatialGraph),
           selectedIds: isDraft(state.selectedIds) ? current(state.selectedIds) : (state.selectedIds as unknown as Set<string>),
+          settings: getPlanSettings(state),
         };
         
         const resultState = state.commandManager.redo(cmdState);
         
-        state.graph = resultState.graph as any;
+        applyPlanSettings(state, resultState.settings);
+        state.graph = applyDetectionSettings(resultState.graph, state.detectionSettings, state.measurement.pixelsPerMm) as any;
         state.selectedIds = resultState.selectedIds as any;
       });
     },
 
+    squashHistory: (fromIndex, description) => {
+      get().commandManager.squash(fromIndex, description);
+    },
+
     select: (ids: string[]) => {
       set((state) => {
         state.selectedIds = new Set(ids);
@@ -128,9 +292,229 @@ export const useSpatialStore = create<SpatialState>()(
       });
     },
 
+    setWallType: (wallType) => {
+      set((state) => {
+        state.drawingSettings.wallType = wallType;
+      });
+    },
+
+    setEdgeKind: (edgeKind) => {
+      set((state) => {
+        state.drawingSettings.edgeKind = edgeKind;
+      });
+    },
+
+    setOpeningType: (openingType) => {
+      set((state) => {
+        state.drawingSettings.openingType = openingType;
+      });
+    },
+
+    setPolygonSides: (sides) => {
+      set((state) => {
+        state.drawingSettings.polygonSides = sides;
+      });
+    },
+
+    setAngleSnap: (increment) => {
+      set((state) => {
+        state.drawingSettings.angleSnap = increment;
+      });
+    },
+
     setMeasurement: (settings) => {
       set((state) => {
         state.measurement = { ...state.measurement, ...settings };
+        // The minimum room area is real-world, so a new scale can change which rooms qualify
+        state.graph = applyDetectionSettings(
+          state.graph as unknown as SpatialGraph,
+          state.detectionSettings,
+          state.measurement.pixelsPerMm
+        ) as unknown as typeof state.graph;
+      });
+    },
+
+    setDetectionSettings: (settings) => {
+      set((state) => {
+        state.detectionSettings = { ...state.detectionSettings, ...settings };
+        state.graph = applyDetectionSettings(
+          state.graph as unknown as SpatialGraph,
+          state.detectionSettings,
+          state.measurement.pixelsPerMm
+        ) as unknown as typeof state.graph;
+      });
+    },
+
+    setCamera: (camera) => {
+      set((state) => {
+        state.camera = camera;
+      });
+    },
+
+    setViewportSize: (size) => {
+      set((state) => {
+        state.viewportSize = size;
+      });
+    },
+
+    zoomToFit: () => {
+      set((state) => {
+        const bounds = getBounds(state.graph.getVertices().values());
+        if (!bounds) return;
+
+        state.camera = fitBounds(bounds, state.viewportSize, 40, state.camera.scale);
+      });
+    },
+
+    zoomToSelection: () => {
+      set((state) => {
+        const vertexIds = state.graph.getVertexIdsForElements(state.selectedIds);
+        const vertices = Array.from(vertexIds)
+          .map((vertexId) => state.graph.getVertex(vertexId))
+          .filter((vertex) => vertex !== undefined);
+        const bounds = getBounds(vertices);
+        if (!bounds) return;
+
+        state.camera = fitBounds(bounds, state.viewportSize, 80, state.camera.scale);
+      });
+    },
+
+    openDocument: (text, fileName) => {
+      // Geometry is stored in millimetres, so the plan is rebuilt at the editor's current
+      // scale; keeping the scale unchanged means undoing the open shows the previous plan
+      // exactly as it was
+      const result = parseFloorplanJSON(text, get().measurement.pixelsPerMm);
+
+      if (!result.success) {
+        set((state) => {
+          state.importReport = { fileName, errors: result.errors, issues: [] };
+        });
+        return;
+      }
+
+      const { measurement } = get();
+      get().dispatch(
+        new ReplaceDocumentCommand(result.graph, fileName, {
+          measurement: { ...measurement, showMeasurements: result.document.measurement.showMeasurements },
+          drawingSettings: deserializeDrawingSettings(result.document),
+          detectionSettings: deserializeDetectionSettings(result.document),
+          underlay: deserializeUnderlay(result.document, measurement.pixelsPerMm),
+        })
+      );
+      get().zoomToFit();
+
+      set((state) => {
+        state.importReport = result.issues.length > 0 ? { fileName, errors: [], issues: result.issues } : null;
+      });
+    },
+
+    dismissImportReport: () => {
+      set((state) => {
+        state.importReport = null;
+      });
+    },
+
+    openDXF: (text, fileName) => {
+      const result = parseDXF(text);
+
+      set((state) => {
+        if (result.success) {
+          state.pendingDXF = { fileName, drawing: result.drawing };
+        } else {
+          state.importReport = { fileName, errors: result.errors, issues: [] };
+        }
+      });
+    },
+
+    importDXF: (options) => {
+      const pending = get().pendingDXF;
+      if (!pending) return;
+
+      const graph = buildGraphFromDXF(pending.drawing, { ...options, pixelsPerMm: get().measurement.pixelsPerMm });
+      get().dispatch(new ReplaceDocumentCommand(graph, pending.fileName));
+      get().zoomToFit();
+
+      set((state) => {
+        state.pendingDXF = null;
+      });
+    },
+
+    cancelDXFImport: () => {
+      set((state) => {
+        state.pendingDXF = null;
+      });
+    },
+
+    setUnderlay: (underlay) => {
+      set((state) => {
+        state.underlay = underlay;
+      });
+    },
+
+    updateUnderlay: (changes) => {
+      set((state) => {
+        if (state.underlay) {
+          state.underlay = { ...state.underlay, ...changes };
+        }
+      });
+    },
+
+    setCalibrationPoints: (points) => {
+      set((state) => {
+        state.calibrationPoints = points;
+      });
+    },
+
+    loadProject: ({ id, name, document }) => {
+      // Switching projects starts a fresh history, so the plan can adopt the saved scale
+      set((state) => {
+        state.detectionSettings = deserializeDetectionSettings(document);
+        state.graph = applyDetectionSettings(
+          deserializeDocument(document),
+          state.detectionSettings,
+          document.measurement.pixelsPerMm
+        ) as unknown as typeof state.graph;
+        state.commandManager = new CommandManager();
+        state.selectedIds = new Set();
+        state.measurement = { ...document.measurement };
+        state.drawingSettings = deserializeDrawingSettings(document);
+        state.underlay = deserializeUnderlay(document);
+        state.project = { id, name };
+        state.importReport = null;
+      });
+      get().zoomToFit();
+    },
+
+    newProject: () => {
+      set((state) => {
+        state.graph = new SpatialGraph() as unknown as typeof state.graph;
+        state.commandManager = new CommandManager();
+        state.selectedIds = new Set();
+        state.measurement = { ...DEFAULT_MEASUREMENT_SETTINGS };
+        state.drawingSettings = { ...DEFAULT_DRAWING_SETTINGS };
+        state.detectionSettings = { ...DEFAULT_DETECTION_SETTINGS };
+        state.camera = DEFAULT_CAMERA;
+        state.underlay = null;
+        state.project = null;
+        state.importReport = null;
+      });
+    },
+
+    setProject: (project) => {
+      set((state) => {
+        state.project = project;
+      });
+    },
+
+    setProjectsOpen: (open) => {
+      set((state) => {
+        state.projectsOpen = open;
+      });
+    },
+
+    setThumbnailRenderer: (renderer) => {
+      set((state) => {
+        state.thumbnailRenderer = renderer;
       });
     },
   }))
@@ -0,0 +1,44 @@
+import type { DetectionSettings, DrawingSettings, Edge, MeasurementSettings, Opening, Surface, Underlay, Vertex } from './spatial';
+
+/**
+ * Summary figures written alongside the plan for consumers that don't parse the geometry
+ */
+export interface DocumentMetadata {
+  /** Total gross room area in m² */
+  totalArea: number;
+  roomCount: number;
+  wallCount: number;
+  openingCount: number;
+}
+
+/**
+ * Saved floorplan document
+ * All coordinates are in millimetres and areas in mm², independent of the editor's
+ * pixel scale. Edge thickness and opening width are millimetres as in the editor.
+ */
+export interface FloorplanDocument {
+  version: number;
+  /** ISO 8601 time the document was written */
+  timestamp: string;
+  metadata: DocumentMetadata;
+  measurement: MeasurementSettings;
+  drawingSettings: DrawingSettings;
+  /** Room detection settings; documents written before they existed use the defaults */
+  detectionSettings?: DetectionSettings;
+  /** Tracing image, positioned in millimetres and scaled in mm per image pixel */
+  underlay?: Underlay;
+  data: {
+    vertices: Vertex[];
+    edges: Edge[];
+    surfaces: Surface[];
+    openings: Opening[];
+  };
+}
+
+/**
+ * A validation problem, located by its path in the document (e.g. `data.edges[3].startVertexId`)
+ */
+export interface DocumentValidationError {
+  path: string;
+  message: string;
+}
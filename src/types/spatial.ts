@@ -4,10 +4,59 @@ export interface Vertex {
   y: number;
 }
 
+/** Which side of the centreline the wall body sits on, looking from start to end vertex */
+export type WallAlignment = 'center' | 'left' | 'right';
+
+export type WallTypeId = 'exterior' | 'interior' | 'partition';
+
+export interface WallType {
+  id: WallTypeId;
+  name: string;
+  /** Default thickness in millimetres */
+  thickness: number;
+  color: number;
+}
+
+/** Walls are built elements; separators are virtual lines that only bound rooms */
+export type EdgeKind = 'wall' | 'separator';
+
 export interface Edge {
   id: string;
   startVertexId: string;
   endVertexId: string;
+  /** Defaults to 'wall'; separators have no thickness and host no openings */
+  kind?: EdgeKind;
+  /**
+   * Curves the edge into a circular arc: tan of a quarter of the sweep angle,
+   * positive bulging to the left of start → end; straight when 0 or not set
+   */
+  bulge?: number;
+  /** Wall thickness in millimetres; falls back to the wall type's default */
+  thickness?: number;
+  alignment?: WallAlignment;
+  wallType?: WallTypeId;
+}
+
+export type OpeningType = 'door' | 'window' | 'opening';
+
+/** Which end of the opening a door is hinged at, relative to the host edge direction */
+export type DoorHinge = 'start' | 'end';
+
+/** Which side of the host edge a door swings into, looking from start to end vertex */
+export type DoorSwing = 'left' | 'right';
+
+export interface Opening {
+  id: string;
+  /** Host edge */
+  edgeId: string;
+  /** Position of the opening centre along the host edge, from 0 (start vertex) to 1 (end vertex) */
+  offset: number;
+  /** Clear width in millimetres */
+  width: number;
+  type: OpeningType;
+  /** Door hinge and swing; ignored for windows and plain openings */
+  hinge?: DoorHinge;
+  swing?: DoorSwing;
 }
 
 export interface Surface {
@@ -15,11 +64,71 @@ export interface Surface {
   edgeIds: string[];
   area: number;
   name: string;
+  /** Area-weighted centroid */
   centroid: { x: number; y: number };
+  /** Point inside the room furthest from its walls, where the label goes; falls back to the centroid */
+  labelPosition?: { x: number; y: number };
+  /** Edge loops of islands inside the room (courtyards, shafts, columns); `area` excludes them */
+  holes?: string[][];
 }
 
 export interface DrawingSettings {
   resolution: number;
+  /** Wall type assigned to newly drawn walls */
+  wallType: WallTypeId;
+  /** Opening type placed by the Opening tool */
+  openingType: OpeningType;
+  /** Kind of edge the Draw tool creates; walls when not set */
+  edgeKind?: EdgeKind;
+  /** Number of sides drawn by the Polygon tool */
+  polygonSides?: number;
+  /** Angle increment in degrees that new walls snap to; 0 turns angle snapping off */
+  angleSnap?: number;
 }
 
-export type DrawingMode = 'select' | 'draw' | 'erase';
+export interface DetectionSettings {
+  /** Smallest enclosed area detected as a room, in m² */
+  minRoomArea: number;
+  /** Detect rooms that are closed partly by virtual separators */
+  includeVirtualSeparators: boolean;
+  /** Leave dead-end walls out of room boundaries */
+  ignoreFilaments: boolean;
+}
+
+export interface MeasurementSettings {
+  pixelsPerMm: number;
+  showMeasurements: boolean;
+}
+
+export interface Camera {
+  /** Screen-space offset of the world origin */
+  x: number;
+  y: number;
+  /** Screen pixels per world unit */
+  scale: number;
+}
+
+export type DrawingMode = 'select' | 'draw' | 'rectangle' | 'polygon' | 'erase' | 'pan' | 'opening' | 'calibrate';
+
+/**
+ * Raster image drawn beneath the plan for tracing
+ * In the editor the position and scale are in world pixels; saved documents
+ * store them in millimetres like the rest of the geometry.
+ */
+export interface Underlay {
+  /** Image data URL */
+  src: string;
+  /** Natural image size in image pixels */
+  width: number;
+  height: number;
+  /** Position of the image centre */
+  x: number;
+  y: number;
+  /** Clockwise rotation about the centre in degrees */
+  rotation: number;
+  /** World units per image pixel */
+  scale: number;
+  opacity: number;
+  /** Locked underlays can't be moved on the canvas */
+  locked: boolean;
+}
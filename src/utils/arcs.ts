@@ -0,0 +1,296 @@
+// Circular arc geometry for curved edges
+//
+// An arc is stored on its edge as a bulge: the tangent of a quarter of its sweep
+// angle, as in DXF polylines. The sweep is measured in the same sense as Math.atan2
+// on graph coordinates, so on screen (Y down) a positive bulge curves clockwise and
+// bulges to the left of the start → end direction. A bulge of 1 is a half circle;
+// 0 or no bulge is a straight edge. Reversing an edge negates its bulge.
+
+import type { Edge } from '../types/spatial';
+import { pointToLineSegmentDistance, signedPolygonArea } from './geometry';
+import type { Bounds } from './spatialIndex';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/** A point on a path; `bulge` curves the segment to the next point */
+export interface PathPoint extends Point {
+  bulge?: number;
+}
+
+export interface Arc {
+  center: Point;
+  radius: number;
+  /** Angle of the start point seen from the centre */
+  startAngle: number;
+  /** Signed angle swept from start to end */
+  sweep: number;
+}
+
+/** Largest angle covered by one straight piece when an arc is tessellated */
+export const ARC_SEGMENT_ANGLE = Math.PI / 36;
+
+/**
+ * Bulges closer to zero than this are treated as straight
+ */
+const MIN_BULGE = 1e-9;
+
+/**
+ * Check if an edge is curved
+ */
+export function isArcEdge(edge: Edge): boolean {
+  return Math.abs(edge.bulge ?? 0) > MIN_BULGE;
+}
+
+/**
+ * Bulge of an edge when walked from the given vertex
+ */
+export function getBulgeFrom(edge: Edge, fromVertexId: string): number {
+  const bulge = edge.bulge ?? 0;
+  return edge.startVertexId === fromVertexId ? bulge : -bulge;
+}
+
+/**
+ * Circle and angles of the arc from start to end with a bulge
+ * Returns null for straight or zero-length edges.
+ */
+export function getArc(start: Point, end: Point, bulge: number = 0): Arc | null {
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+  if (Math.abs(bulge) <= MIN_BULGE || length === 0) return null;
+
+  const sweep = 4 * Math.atan(bulge);
+  const radius = (length * (1 + bulge * bulge)) / (4 * Math.abs(bulge));
+  // The centre sits off the chord midpoint, on the side away from the bulge for minor arcs
+  const offset = (length * (1 - bulge * bulge)) / (4 * bulge);
+  const center = {
+    x: (start.x + end.x) / 2 - ((end.y - start.y) / length) * offset,
+    y: (start.y + end.y) / 2 + ((end.x - start.x) / length) * offset,
+  };
+
+  return { center, radius, startAngle: Math.atan2(start.y - center.y, start.x - center.x), sweep };
+}
+
+/**
+ * Point at a fraction t (0..1) of the way along an edge
+ */
+export function pointAlongEdge(start: Point, end: Point, bulge: number | undefined, t: number): Point {
+  const arc = getArc(start, end, bulge);
+  if (!arc) return { x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t };
+
+  const angle = arc.startAngle + arc.sweep * t;
+  return { x: arc.center.x + arc.radius * Math.cos(angle), y: arc.center.y + arc.radius * Math.sin(angle) };
+}
+
+/**
+ * Length of an edge along its curve; the chord length for straight edges
+ */
+export function getArcLength(start: Point, end: Point, bulge?: number): number {
+  const arc = getArc(start, end, bulge);
+  return arc ? arc.radius * Math.abs(arc.sweep) : Math.hypot(end.x - start.x, end.y - start.y);
+}
+
+/**
+ * Direction of travel (as an atan2 angle) when leaving `start` along the edge
+ */
+export function getTangentAngle(start: Point, end: Point, bulge?: number): number {
+  const chord = Math.atan2(end.y - start.y, end.x - start.x);
+  return chord - 2 * Math.atan(bulge ?? 0);
+}
+
+/**
+ * Points along an edge after the start point, ending exactly at `end`
+ * Arcs are split into pieces of at most ARC_SEGMENT_ANGLE.
+ */
+export function tessellateEdge(start: Point, end: Point, bulge?: number): Point[] {
+  const arc = getArc(start, end, bulge);
+  if (!arc) return [{ x: end.x, y: end.y }];
+
+  const count = Math.max(1, Math.ceil(Math.abs(arc.sweep) / ARC_SEGMENT_ANGLE));
+  const points: Point[] = [];
+  for (let i = 1; i < count; i++) {
+    points.push(pointAlongEdge(start, end, bulge, i / count));
+  }
+  points.push({ x: end.x, y: end.y });
+  return points;
+}
+
+/**
+ * Expand a path with bulges into straight pieces
+ * A closed path also curves the segment from its last point back to the first.
+ */
+export function tessellatePath(path: PathPoint[], closed: boolean = true): Point[] {
+  if (path.length === 0) return [];
+
+  const points: Point[] = [{ x: path[0].x, y: path[0].y }];
+  const count = closed ? path.length : path.length - 1;
+  for (let i = 0; i < count; i++) {
+    const next = path[(i + 1) % path.length];
+    const piece = tessellateEdge(path[i], next, path[i].bulge);
+    // The closing piece ends where the path starts
+    points.push(...(closed && i === count - 1 ? piece.slice(0, -1) : piece));
+  }
+  return points;
+}
+
+/**
+ * Signed area between a chord and its arc, with the same sign convention as
+ * signedPolygonArea for a loop that runs along the arc from start to end
+ * Adding it to the area of the straight-sided polygon gives the curved area.
+ */
+export function getArcSegmentArea(start: Point, end: Point, bulge?: number): number {
+  const arc = getArc(start, end, bulge);
+  return arc ? (arc.radius * arc.radius * (arc.sweep - Math.sin(arc.sweep))) / 2 : 0;
+}
+
+/**
+ * Signed area of a closed path whose segments may be arcs
+ */
+export function getPathArea(path: PathPoint[]): number {
+  return path.reduce(
+    (area, point, i) => area + getArcSegmentArea(point, path[(i + 1) % path.length], point.bulge),
+    signedPolygonArea(path)
+  );
+}
+
+/**
+ * Bulge of the arc from start to end that passes through a third point
+ * Returns 0 when the three points are collinear.
+ */
+export function getBulgeThroughPoint(start: Point, end: Point, through: Point): number {
+  const cross = (end.x - start.x) * (through.y - start.y) - (end.y - start.y) * (through.x - start.x);
+  if (Math.abs(cross) < 1e-9) return 0;
+
+  // The angle at `through` is half the part of the circle the arc leaves out
+  const toStart = { x: start.x - through.x, y: start.y - through.y };
+  const toEnd = { x: end.x - through.x, y: end.y - through.y };
+  const inscribed = Math.atan2(
+    Math.abs(toStart.x * toEnd.y - toStart.y * toEnd.x),
+    toStart.x * toEnd.x + toStart.y * toEnd.y
+  );
+
+  return -Math.sign(cross) / Math.tan(inscribed / 2);
+}
+
+/**
+ * Bulge of the arc whose midpoint sits `height` away from the chord midpoint,
+ * positive to the left of start → end
+ */
+export function getBulgeFromHeight(start: Point, end: Point, height: number): number {
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+  return length === 0 ? 0 : (2 * height) / length;
+}
+
+/**
+ * Distance from the chord midpoint to the arc midpoint, positive to the left
+ */
+export function getArcHeight(start: Point, end: Point, bulge?: number): number {
+  return ((bulge ?? 0) * Math.hypot(end.x - start.x, end.y - start.y)) / 2;
+}
+
+/**
+ * Bulge of the part of an arc between fractions u0 and u1 of its sweep
+ */
+export function getSubArcBulge(bulge: number | undefined, u0: number, u1: number): number | undefined {
+  if (!bulge) return bulge;
+  return Math.tan(Math.atan(bulge) * (u1 - u0));
+}
+
+/**
+ * Position of an angle along an arc as a fraction of its sweep
+ * Angles outside the arc give values outside 0..1.
+ */
+function arcFraction(arc: Arc, angle: number): number {
+  const turn = 2 * Math.PI;
+  const delta = (((angle - arc.startAngle) * Math.sign(arc.sweep)) % turn + turn) % turn;
+  // Rounding can put the start point just below a full turn
+  return delta > turn - 1e-9 ? 0 : delta / Math.abs(arc.sweep);
+}
+
+/**
+ * Closest point on an edge to a point, with its distance and position t (0..1)
+ * along the edge; t is measured along the curve for arcs
+ */
+export function closestPointOnEdge(
+  point: Point,
+  start: Point,
+  end: Point,
+  bulge?: number
+): { distance: number; point: Point; t: number } {
+  const arc = getArc(start, end, bulge);
+  if (!arc) {
+    const { distance, closestVertex, t } = pointToLineSegmentDistance(
+      { id: '', ...point },
+      { id: '', ...start },
+      { id: '', ...end }
+    );
+    return { distance, point: { x: closestVertex.x, y: closestVertex.y }, t };
+  }
+
+  const t = arcFraction(arc, Math.atan2(point.y - arc.center.y, point.x - arc.center.x));
+  if (t <= 1) {
+    const onArc = pointAlongEdge(start, end, bulge, t);
+    return { distance: Math.hypot(point.x - onArc.x, point.y - onArc.y), point: onArc, t };
+  }
+
+  const toStart = Math.hypot(point.x - start.x, point.y - start.y);
+  const toEnd = Math.hypot(point.x - end.x, point.y - end.y);
+  return toStart <= toEnd
+    ? { distance: toStart, point: { x: start.x, y: start.y }, t: 0 }
+    : { distance: toEnd, point: { x: end.x, y: end.y }, t: 1 };
+}
+
+/**
+ * Points where the segment p1-p2 meets the arc from start to end
+ * `t` is the position along the segment and `u` the fraction of the arc's sweep.
+ */
+export function intersectSegmentWithArc(
+  p1: Point,
+  p2: Point,
+  start: Point,
+  end: Point,
+  bulge: number
+): Array<{ x: number; y: number; t: number; u: number }> {
+  const arc = getArc(start, end, bulge);
+  if (!arc) return [];
+
+  const dx = p2.x - p1.x;
+  const dy = p2.y - p1.y;
+  const fx = p1.x - arc.center.x;
+  const fy = p1.y - arc.center.y;
+  const a = dx * dx + dy * dy;
+  const b = 2 * (fx * dx + fy * dy);
+  const c = fx * fx + fy * fy - arc.radius * arc.radius;
+  const discriminant = b * b - 4 * a * c;
+  if (a === 0 || discriminant < 0) return [];
+
+  const root = Math.sqrt(discriminant);
+  const roots = root === 0 ? [-b / (2 * a)] : [(-b - root) / (2 * a), (-b + root) / (2 * a)];
+
+  return roots
+    .filter((t) => t >= 0 && t <= 1)
+    .map((t) => {
+      const x = p1.x + dx * t;
+      const y = p1.y + dy * t;
+      return { x, y, t, u: arcFraction(arc, Math.atan2(y - arc.center.y, x - arc.center.x)) };
+    })
+    .filter(({ u }) => u <= 1);
+}
+
+/**
+ * Bounds of an edge including the bulge of an arc, grown by a margin
+ */
+export function getEdgeBounds(start: Point, end: Point, bulge?: number, margin: number = 0): Bounds {
+  const points = [start, ...tessellateEdge(start, end, bulge)];
+  // Tessellated pieces cut inside the arc by at most this much
+  const arc = getArc(start, end, bulge);
+  const sag = arc ? arc.radius * (1 - Math.cos(ARC_SEGMENT_ANGLE / 2)) : 0;
+
+  return {
+    minX: Math.min(...points.map((p) => p.x)) - margin - sag,
+    minY: Math.min(...points.map((p) => p.y)) - margin - sag,
+    maxX: Math.max(...points.map((p) => p.x)) + margin + sag,
+    maxY: Math.max(...points.map((p) => p.y)) + margin + sag,
+  };
+}
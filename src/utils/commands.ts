@@ -6,8 +6,22 @@
  * action and its inverse, allowing for reliable state rollback.
  */
 
-import type { Vertex, Edge, Surface } from '../types/spatial';
+import type {
+  Vertex,
+  Edge,
+  EdgeKind,
+  Surface,
+  Opening,
+  DetectionSettings,
+  DrawingSettings,
+  MeasurementSettings,
+  Underlay,
+} from '../types/spatial';
 import { SpatialGraph } from './spatialGraph';
+import { generateId } from './geometry';
+import { findSegmentCrossings, INTERSECTION_TOLERANCE } from './intersections';
+import { redistributeOpenings } from './openings';
+import { closestPointOnEdge, getSubArcBulge } from './arcs';
 
 /**
  * Base Command interface
@@ -31,6 +45,18 @@ export interface Command {
 export interface CommandState {
   graph: SpatialGraph;
   selectedIds: Set<string>;
+  /** Editor settings, for the commands that change them; when left out they stay as they are */
+  settings?: PlanSettings;
+}
+
+/**
+ * Editor settings saved with a plan, which replacing the plan replaces as well
+ */
+export interface PlanSettings {
+  measurement: MeasurementSettings;
+  drawingSettings: DrawingSettings;
+  detectionSettings: DetectionSettings;
+  underlay: Underlay | null;
 }
 
 /**
@@ -72,7 +98,9 @@ export class AddVertexCommand implements Command {
  * Command to draw an edge with its endpoints
  * This is the atomic command for drawing an edge, which may involve:
  * - Creating 0, 1, or 2 new vertices (if reusing existing vertices)
- * - Creating 1 edge connecting the vertices
+ * - Splitting the new edge and the existing edges wherever they cross or touch,
+ *   so the graph stays planar and rooms are detected (see findSegmentCrossings)
+ * - Creating 1 edge connecting the vertices, or one per stretch between crossings
  * 
  * This ensures that drawing an edge is a single undoable operation
  */
@@ -82,31 +110,93 @@ export class DrawEdgeCommand implements Command {
   private edge: Edge;
   private startVertexExisted: boolean;
   private endVertexExisted: boolean;
+  private tolerance: number;
   private createdSurfaces: Surface[] = [];
+  private crossingCount = 0;
+  private previousState: CommandState | null = null;
+  // Ids of inserted vertices and edges, reused on redo so later commands still match
+  private ids = new Map<string, string>();
 
-  constructor(startVertex: Vertex, endVertex: Vertex, edge: Edge, startVertexExists: boolean, endVertexExists: boolean) {
+  constructor(
+    startVertex: Vertex,
+    endVertex: Vertex,
+    edge: Edge,
+    startVertexExists: boolean,
+    endVertexExists: boolean,
+    tolerance: number = INTERSECTION_TOLERANCE
+  ) {
     this.startVertex = startVertex;
     this.endVertex = endVertex;
     this.edge = edge;
     this.startVertexExisted = startVertexExists;
     this.endVertexExisted = endVertexExists;
+    this.tolerance = tolerance;
   }
 
   execute(state: CommandState): CommandState {
+    // Store entire state for undo
+    this.previousState = {
+      graph: state.graph.clone(),
+      selectedIds: new Set(state.selectedIds),
+    };
+
     const newGraph = state.graph.clone();
+    const start = newGraph.getVertex(this.startVertex.id) ?? this.startVertex;
+    const end = newGraph.getVertex(this.endVertex.id) ?? this.endVertex;
     
-    // Add start vertex if it didn't exist
-    if (!this.startVertexExisted) {
-      newGraph.addVertex(this.startVertex);
+    // Add the endpoints unless they are already in the graph
+    if (!newGraph.hasVertex(start.id)) {
+      newGraph.addVertex(start);
     }
-    
-    // Add end vertex if it didn't exist
-    if (!this.endVertexExisted) {
-      newGraph.addVertex(this.endVertex);
+    if (!newGraph.hasVertex(end.id)) {
+      newGraph.addVertex(end);
     }
-    
-    // Add edge and track newly created surfaces
-    this.createdSurfaces = newGraph.addEdge(this.edge);
+
+    // Vertices along the new edge, and where each existing edge is split
+    const chain = [start.id];
+    const splits = new Map<string, Array<{ u: number; vertexId: string }>>();
+
+    const crossings = findSegmentCrossings(state.graph, start, end, this.tolerance);
+    crossings.forEach((crossing, index) => {
+      let vertexId: string;
+      if (crossing.t === 0) {
+        vertexId = start.id;
+      } else if (crossing.t === 1) {
+        vertexId = end.id;
+      } else if (crossing.vertexId) {
+        vertexId = crossing.vertexId;
+        chain.push(vertexId);
+      } else {
+        vertexId = this.getId(`vertex:${index}`);
+        newGraph.addVertex({ id: vertexId, x: crossing.x, y: crossing.y });
+        chain.push(vertexId);
+      }
+
+      crossing.splits.forEach(({ edgeId, u }) => {
+        splits.set(edgeId, [...(splits.get(edgeId) ?? []), { u, vertexId }]);
+      });
+    });
+    chain.push(end.id);
+    this.crossingCount = crossings.length;
+
+    splits.forEach((points, edgeId) => this.splitEdge(newGraph, edgeId, points));
+
+    // The first stretch keeps the edge's id; stretches along existing edges are skipped
+    let piece = 0;
+    for (let i = 0; i + 1 < chain.length; i++) {
+      const from = chain[i];
+      const to = chain[i + 1];
+      if (from === to || newGraph.findEdgeBetweenVertices(from, to)) continue;
+
+      const id = piece === 0 ? this.edge.id : this.getId(`edge:${piece}`);
+      newGraph.restoreEdge({ ...this.edge, id, startVertexId: from, endVertexId: to });
+      piece++;
+    }
+
+    // Track newly created surfaces; every change is connected to the endpoints
+    this.createdSurfaces = newGraph
+      .updateSurfacesAround([start.id, end.id])
+      .filter(surface => !state.graph.hasSurface(surface.id));
 
     return {
       ...state,
@@ -115,32 +205,122 @@ export class DrawEdgeCommand implements Command {
   }
 
   undo(state: CommandState): CommandState {
-    const newGraph = state.graph.clone();
-    
-    // Remove the edge
-    newGraph.removeEdge(this.edge.id);
-    
-    // Remove end vertex if it was created by this command
-    if (!this.endVertexExisted) {
-      newGraph.removeVertex(this.endVertex.id);
-    }
-    
-    // Remove start vertex if it was created by this command
-    if (!this.startVertexExisted) {
-      newGraph.removeVertex(this.startVertex.id);
-    }
+    if (!this.previousState) return state;
 
     return {
-      ...state,
-      graph: newGraph,
+      graph: this.previousState.graph.clone(),
+      selectedIds: new Set(this.previousState.selectedIds),
     };
   }
 
   getDescription(): string {
     const startDesc = this.startVertexExisted ? 'existing' : 'new';
     const endDesc = this.endVertexExisted ? 'existing' : 'new';
+    const crossingsInfo = this.crossingCount > 0 ? `, split at ${this.crossingCount} intersection${this.crossingCount > 1 ? 's' : ''}` : '';
     const surfacesInfo = this.createdSurfaces.length > 0 ? ` (created ${this.createdSurfaces.length} surface${this.createdSurfaces.length > 1 ? 's' : ''})` : '';
-    return `Draw edge from ${startDesc} vertex to ${endDesc} vertex${surfacesInfo}`;
+    return `Draw edge from ${startDesc} vertex to ${endDesc} vertex${crossingsInfo}${surfacesInfo}`;
+  }
+
+  private getId(key: string): string {
+    let id = this.ids.get(key);
+    if (!id) {
+      id = generateId();
+      this.ids.set(key, id);
+    }
+    return id;
+  }
+
+  /**
+   * Replace an existing edge by a chain through the split vertices
+   * Openings move to the piece that contains their centre, as in SplitEdgeCommand,
+   * and the pieces of a curved edge follow its arc.
+   */
+  private splitEdge(graph: SpatialGraph, edgeId: string, points: Array<{ u: number; vertexId: string }>): void {
+    const original = graph.getEdge(edgeId);
+    if (!original) return;
+
+    let openings = graph.getOpeningsForEdge(edgeId);
+    graph.removeEdge(edgeId);
+
+    // Cut the remaining piece one split at a time, from the start of the edge
+    let rest = original;
+    let restStart = 0;
+    points
+      .sort((p, q) => p.u - q.u)
+      .forEach(({ u, vertexId }, index) => {
+        const t = (u - restStart) / (1 - restStart);
+        const piece: Edge = { ...original, ...subArc(original, restStart, u), id: this.getId(`${edgeId}:${index}`), startVertexId: rest.startVertexId, endVertexId: vertexId };
+        const remainder: Edge = { ...original, ...subArc(original, u, 1), id: this.getId(`${edgeId}:${index + 1}`), startVertexId: vertexId, endVertexId: original.endVertexId };
+
+        const moved = redistributeOpenings(openings, rest, t, piece, remainder);
+        moved.filter(opening => opening.edgeId === piece.id).forEach(opening => graph.addOpening(opening));
+        openings = moved.filter(opening => opening.edgeId === remainder.id);
+
+        graph.restoreEdge(piece);
+        rest = remainder;
+        restStart = u;
+      });
+
+    graph.restoreEdge(rest);
+    openings.forEach(opening => graph.addOpening(opening));
+  }
+}
+
+/**
+ * Bulge of the part of a curved edge between fractions u0 and u1 of its sweep,
+ * to spread over a piece cut from it
+ */
+function subArc(edge: Edge, u0: number, u1: number): Partial<Edge> {
+  return edge.bulge ? { bulge: getSubArcBulge(edge.bulge, u0, u1) } : {};
+}
+
+/**
+ * Command to draw a closed outline, such as a rectangular or polygonal room
+ * Corners on existing vertices reuse them, and each side is drawn with a
+ * DrawEdgeCommand, so sides along or across existing walls share or split them
+ * rather than doubling them. The whole outline is a single undoable operation.
+ */
+export class DrawPolygonCommand implements Command {
+  private corners: Array<{ x: number; y: number }>;
+  private edge: Omit<Edge, 'id' | 'startVertexId' | 'endVertexId'>;
+  private tolerance: number;
+  // Created on the first run and replayed on redo, so ids stay the same
+  private sides: DrawEdgeCommand[] | null = null;
+
+  constructor(
+    corners: Array<{ x: number; y: number }>,
+    edge: Omit<Edge, 'id' | 'startVertexId' | 'endVertexId'>,
+    tolerance: number = INTERSECTION_TOLERANCE
+  ) {
+    this.corners = corners;
+    this.edge = edge;
+    this.tolerance = tolerance;
+  }
+
+  execute(state: CommandState): CommandState {
+    if (!this.sides) {
+      const vertices = this.corners.map(
+        (corner): Vertex =>
+          state.graph.queryRadius(corner.x, corner.y, this.tolerance)[0] ?? { id: generateId(), x: corner.x, y: corner.y }
+      );
+
+      this.sides = vertices.map((start, i) => {
+        const end = vertices[(i + 1) % vertices.length];
+        const edge: Edge = { ...this.edge, id: generateId(), startVertexId: start.id, endVertexId: end.id };
+        return new DrawEdgeCommand(start, end, edge, state.graph.hasVertex(start.id), state.graph.hasVertex(end.id), this.tolerance);
+      });
+    }
+
+    return this.sides.reduce((current, side) => side.execute(current), state);
+  }
+
+  undo(state: CommandState): CommandState {
+    if (!this.sides) return state;
+    return this.sides.reduceRight((current, side) => side.undo(current), state);
+  }
+
+  getDescription(): string {
+    return `Draw ${this.corners.length}-sided outline`;
   }
 }
 
@@ -248,9 +428,13 @@ export class RemoveEdgeCommand implements Command {
 
 /**
  * Command to split an edge at a vertex
+ * Openings hosted on the edge move to whichever new edge contains their centre.
+ * When the edge is curved, the split vertex is taken to lie on its arc and
+ * the two new edges (first from the start vertex) each follow their part of it.
  */
 export class SplitEdgeCommand implements Command {
   private originalEdge: Edge | null = null;
+  private originalOpenings: Opening[] = [];
   private affectedSurfaces: Map<string, Surface> = new Map();
   private edgeId: string;
   private splitVertex: Vertex;
@@ -274,6 +458,7 @@ export class SplitEdgeCommand implements Command {
     if (!edgeToSplit) return state;
 
     this.originalEdge = edgeToSplit;
+    this.originalOpenings = state.graph.getOpeningsForEdge(this.edgeId);
 
     const newGraph = state.graph.clone();
 
@@ -283,6 +468,10 @@ export class SplitEdgeCommand implements Command {
       this.affectedSurfaces.set(surface.id, surface);
     });
 
+    const start = state.graph.getVertex(edgeToSplit.startVertexId);
+    const end = state.graph.getVertex(edgeToSplit.endVertexId);
+    const t = start && end ? closestPointOnEdge(this.splitVertex, start, end, edgeToSplit.bulge).t : 0.5;
+
     // Add the split vertex
     newGraph.addVertex(this.splitVertex);
 
@@ -290,8 +479,14 @@ export class SplitEdgeCommand implements Command {
     newGraph.removeEdge(this.edgeId);
 
     // Add the two new edges with surface detection
-    newGraph.addEdge(this.edge1);
-    newGraph.addEdge(this.edge2);
+    newGraph.addEdge({ ...this.edge1, ...subArc(edgeToSplit, 0, t) });
+    newGraph.addEdge({ ...this.edge2, ...subArc(edgeToSplit, t, 1) });
+
+    // Re-host openings on the new edges
+    if (start && end && this.originalOpenings.length > 0) {
+      redistributeOpenings(this.originalOpenings, edgeToSplit, t, this.edge1, this.edge2)
+        .forEach(opening => newGraph.addOpening(opening));
+    }
 
     return {
       ...state,
@@ -307,8 +502,9 @@ export class SplitEdgeCommand implements Command {
     // Remove the split vertex (this also removes connected edges)
     newGraph.removeVertex(this.splitVertex.id);
 
-    // Restore the original edge
+    // Restore the original edge and its openings
     newGraph.restoreEdge(this.originalEdge);
+    this.originalOpenings.forEach(opening => newGraph.addOpening(opening));
 
     // Restore original surfaces
     this.affectedSurfaces.forEach((surface) => {
@@ -326,6 +522,268 @@ export class SplitEdgeCommand implements Command {
   }
 }
 
+/**
+ * Command to move one or more vertices
+ * Positions are absolute, so executing the same command repeatedly
+ * (e.g. as a live preview while dragging) is idempotent
+ */
+export class MoveVerticesCommand implements Command {
+  private from: Map<string, { x: number; y: number }>;
+  private to: Map<string, { x: number; y: number }>;
+
+  constructor(
+    from: Map<string, { x: number; y: number }>,
+    to: Map<string, { x: number; y: number }>
+  ) {
+    this.from = from;
+    this.to = to;
+  }
+
+  execute(state: CommandState): CommandState {
+    const newGraph = state.graph.clone();
+    newGraph.moveVertices(this.to);
+
+    return {
+      ...state,
+      graph: newGraph,
+    };
+  }
+
+  undo(state: CommandState): CommandState {
+    const newGraph = state.graph.clone();
+    newGraph.moveVertices(this.from);
+
+    return {
+      ...state,
+      graph: newGraph,
+    };
+  }
+
+  getDescription(): string {
+    return `Move ${this.to.size} vert${this.to.size === 1 ? 'ex' : 'ices'}`;
+  }
+}
+
+/**
+ * Command to update wall properties (type, thickness, alignment, curvature) of one or more edges
+ * Rooms around the edges are re-detected when their curvature changes. Curved
+ * walls can't host openings, so bending a wall drops the openings it hosted.
+ */
+export class UpdateEdgesCommand implements Command {
+  private edgeIds: string[];
+  private updates: Partial<Omit<Edge, 'id' | 'startVertexId' | 'endVertexId'>>;
+  private previousEdges: Map<string, Edge> = new Map();
+  private removedOpenings: Opening[] = [];
+
+  constructor(
+    edgeIds: string[],
+    updates: Partial<Omit<Edge, 'id' | 'startVertexId' | 'endVertexId'>>
+  ) {
+    this.edgeIds = edgeIds;
+    this.updates = updates;
+  }
+
+  execute(state: CommandState): CommandState {
+    const newGraph = state.graph.clone();
+    const selectedIds = new Set(state.selectedIds);
+    this.previousEdges = new Map();
+    this.removedOpenings = [];
+
+    this.edgeIds.forEach(edgeId => {
+      const previous = newGraph.updateEdge(edgeId, this.updates);
+      if (previous) this.previousEdges.set(edgeId, previous);
+
+      if (previous && this.updates.bulge) {
+        newGraph.getOpeningsForEdge(edgeId).forEach(opening => {
+          newGraph.removeOpening(opening.id);
+          selectedIds.delete(opening.id);
+          this.removedOpenings.push(opening);
+        });
+      }
+    });
+    this.updateSurfaces(newGraph);
+
+    return {
+      graph: newGraph,
+      selectedIds,
+    };
+  }
+
+  undo(state: CommandState): CommandState {
+    const newGraph = state.graph.clone();
+    this.previousEdges.forEach(edge => newGraph.restoreEdge(edge));
+    this.removedOpenings.forEach(opening => newGraph.addOpening(opening));
+    this.updateSurfaces(newGraph);
+
+    return {
+      ...state,
+      graph: newGraph,
+    };
+  }
+
+  getDescription(): string {
+    return `Update ${this.edgeIds.length} wall${this.edgeIds.length === 1 ? '' : 's'}`;
+  }
+
+  /**
+   * Curvature changes the shape and area of rooms, other wall properties don't
+   */
+  private updateSurfaces(graph: SpatialGraph): void {
+    if (!('bulge' in this.updates)) return;
+
+    const vertexIds: string[] = [];
+    this.previousEdges.forEach(edge => vertexIds.push(edge.startVertexId, edge.endVertexId));
+    graph.updateSurfacesAround(vertexIds);
+  }
+}
+
+/**
+ * Command to turn edges into virtual room separators or back into walls
+ * Separators drop their wall properties and the openings they hosted. Rooms
+ * around the edges are re-detected, since separators may not bound rooms.
+ */
+export class SetEdgeKindCommand implements Command {
+  private edgeIds: string[];
+  private kind: EdgeKind;
+  private previousState: CommandState | null = null;
+
+  constructor(edgeIds: string[], kind: EdgeKind) {
+    this.edgeIds = edgeIds;
+    this.kind = kind;
+  }
+
+  execute(state: CommandState): CommandState {
+    this.previousState = {
+      graph: state.graph.clone(),
+      selectedIds: new Set(state.selectedIds),
+    };
+
+    const newGraph = state.graph.clone();
+    const selectedIds = new Set(state.selectedIds);
+    const vertexIds: string[] = [];
+
+    this.edgeIds.forEach(edgeId => {
+      const edge = newGraph.getEdge(edgeId);
+      if (!edge) return;
+
+      if (this.kind === 'separator') {
+        const { id, startVertexId, endVertexId, bulge } = edge;
+        newGraph.restoreEdge({ id, startVertexId, endVertexId, kind: 'separator', ...(bulge ? { bulge } : {}) });
+        newGraph.getOpeningsForEdge(edgeId).forEach(opening => {
+          newGraph.removeOpening(opening.id);
+          selectedIds.delete(opening.id);
+        });
+      } else {
+        const wall = { ...edge };
+        delete wall.kind;
+        newGraph.restoreEdge(wall);
+      }
+      vertexIds.push(edge.startVertexId, edge.endVertexId);
+    });
+
+    newGraph.updateSurfacesAround(vertexIds);
+
+    return {
+      graph: newGraph,
+      selectedIds,
+    };
+  }
+
+  undo(state: CommandState): CommandState {
+    if (!this.previousState) return state;
+
+    return {
+      graph: this.previousState.graph.clone(),
+      selectedIds: new Set(this.previousState.selectedIds),
+    };
+  }
+
+  getDescription(): string {
+    const noun = this.kind === 'separator' ? 'separator' : 'wall';
+    return `Make ${this.edgeIds.length} ${noun}${this.edgeIds.length === 1 ? '' : 's'}`;
+  }
+}
+
+/**
+ * Command to add an opening (door, window or plain opening) to an edge
+ */
+export class AddOpeningCommand implements Command {
+  private opening: Opening;
+
+  constructor(opening: Opening) {
+    this.opening = opening;
+  }
+
+  execute(state: CommandState): CommandState {
+    if (!state.graph.hasEdge(this.opening.edgeId)) return state;
+
+    const newGraph = state.graph.clone();
+    newGraph.addOpening(this.opening);
+
+    return {
+      ...state,
+      graph: newGraph,
+    };
+  }
+
+  undo(state: CommandState): CommandState {
+    const newGraph = state.graph.clone();
+    newGraph.removeOpening(this.opening.id);
+
+    return {
+      ...state,
+      graph: newGraph,
+    };
+  }
+
+  getDescription(): string {
+    return `Add ${this.opening.type}`;
+  }
+}
+
+/**
+ * Command to update the properties (offset, width, type, hinge, swing) of one or more openings
+ */
+export class UpdateOpeningsCommand implements Command {
+  private openingIds: string[];
+  private updates: Partial<Omit<Opening, 'id' | 'edgeId'>>;
+  private previousOpenings: Map<string, Opening> = new Map();
+
+  constructor(openingIds: string[], updates: Partial<Omit<Opening, 'id' | 'edgeId'>>) {
+    this.openingIds = openingIds;
+    this.updates = updates;
+  }
+
+  execute(state: CommandState): CommandState {
+    const newGraph = state.graph.clone();
+    this.previousOpenings = new Map();
+
+    this.openingIds.forEach(openingId => {
+      const previous = newGraph.updateOpening(openingId, this.updates);
+      if (previous) this.previousOpenings.set(openingId, previous);
+    });
+
+    return {
+      ...state,
+      graph: newGraph,
+    };
+  }
+
+  undo(state: CommandState): CommandState {
+    const newGraph = state.graph.clone();
+    this.previousOpenings.forEach(opening => newGraph.addOpening(opening));
+
+    return {
+      ...state,
+      graph: newGraph,
+    };
+  }
+
+  getDescription(): string {
+    return `Update ${this.openingIds.length} opening${this.openingIds.length === 1 ? '' : 's'}`;
+  }
+}
+
 /**
  * Command to add a surface to the graph
  */
@@ -526,6 +984,196 @@ export class ClearAllCommand implements Command {
   }
 }
 
+/**
+ * Command to replace the whole document, e.g. when opening a file
+ * Keeps the previous graph and settings so an accidental open can be undone.
+ * Settings the new document doesn't bring stay as they are.
+ */
+export class ReplaceDocumentCommand implements Command {
+  private graph: SpatialGraph;
+  private name: string;
+  private settings: Partial<PlanSettings>;
+  private previousState: CommandState | null = null;
+
+  constructor(graph: SpatialGraph, name: string = 'document', settings: Partial<PlanSettings> = {}) {
+    this.graph = graph;
+    this.name = name;
+    this.settings = settings;
+  }
+
+  execute(state: CommandState): CommandState {
+    // Store entire state for undo
+    this.previousState = {
+      graph: state.graph.clone(),
+      selectedIds: new Set(state.selectedIds),
+      settings: state.settings,
+    };
+
+    return {
+      graph: this.graph.clone(),
+      selectedIds: new Set(),
+      settings: state.settings && { ...state.settings, ...this.settings },
+    };
+  }
+
+  undo(state: CommandState): CommandState {
+    if (!this.previousState) return state;
+
+    return {
+      graph: this.previousState.graph.clone(),
+      selectedIds: new Set(this.previousState.selectedIds),
+      settings: this.previousState.settings,
+    };
+  }
+
+  getDescription(): string {
+    return `Open ${this.name}`;
+  }
+}
+
+/**
+ * Command to change the drawing scale, e.g. after calibrating against a known distance
+ * The plan keeps its size on screen, so its real-world dimensions change with the scale.
+ */
+export class SetDrawingScaleCommand implements Command {
+  private pixelsPerMm: number;
+  private previousPixelsPerMm: number | null = null;
+
+  constructor(pixelsPerMm: number) {
+    this.pixelsPerMm = pixelsPerMm;
+  }
+
+  execute(state: CommandState): CommandState {
+    if (!state.settings) return state;
+
+    this.previousPixelsPerMm = state.settings.measurement.pixelsPerMm;
+    return this.withPixelsPerMm(state, this.pixelsPerMm);
+  }
+
+  undo(state: CommandState): CommandState {
+    if (this.previousPixelsPerMm === null) return state;
+    return this.withPixelsPerMm(state, this.previousPixelsPerMm);
+  }
+
+  getDescription(): string {
+    return 'Set drawing scale';
+  }
+
+  private withPixelsPerMm(state: CommandState, pixelsPerMm: number): CommandState {
+    if (!state.settings) return state;
+
+    return {
+      ...state,
+      settings: { ...state.settings, measurement: { ...state.settings.measurement, pixelsPerMm } },
+    };
+  }
+}
+
+/**
+ * Command to delete a set of vertices, edges and surfaces in one step
+ * - Vertices take their connected edges with them
+ * - Surfaces take the edges they do not share with another surface
+ * - Vertices left without edges by the deletion are removed as well
+ * - Openings are removed on their own or together with their host edge
+ */
+export class DeleteElementsCommand implements Command {
+  private ids: string[];
+  private previousState: CommandState | null = null;
+  private deletedCount = 0;
+
+  constructor(ids: string[]) {
+    this.ids = ids;
+  }
+
+  execute(state: CommandState): CommandState {
+    // Store entire state for undo
+    this.previousState = {
+      graph: state.graph.clone(),
+      selectedIds: new Set(state.selectedIds),
+    };
+
+    const newGraph = state.graph.clone();
+    const vertexIds = new Set<string>();
+    const edgeIds = new Set<string>();
+    const openingIds = new Set<string>();
+
+    for (const id of this.ids) {
+      if (newGraph.hasVertex(id)) {
+        vertexIds.add(id);
+      } else if (newGraph.hasEdge(id)) {
+        edgeIds.add(id);
+      } else if (newGraph.hasOpening(id)) {
+        openingIds.add(id);
+      } else {
+        const surface = newGraph.getSurface(id);
+        surface?.edgeIds.forEach(edgeId => {
+          if (newGraph.getSurfacesContainingEdge(edgeId).length === 1) {
+            edgeIds.add(edgeId);
+          }
+        });
+      }
+    }
+
+    vertexIds.forEach(vertexId => {
+      newGraph.getConnectedEdges(vertexId).forEach(edge => edgeIds.add(edge.id));
+    });
+
+    // Openings on deleted edges go with the edge; don't count them twice
+    openingIds.forEach(openingId => {
+      if (!edgeIds.has(newGraph.getOpening(openingId)!.edgeId)) {
+        newGraph.removeOpening(openingId);
+      } else {
+        openingIds.delete(openingId);
+      }
+    });
+
+    // Endpoints of removed edges may become orphans
+    const touchedVertexIds = new Set<string>();
+    edgeIds.forEach(edgeId => {
+      const edge = newGraph.getEdge(edgeId);
+      if (!edge) return;
+
+      touchedVertexIds.add(edge.startVertexId);
+      touchedVertexIds.add(edge.endVertexId);
+      newGraph.removeEdge(edgeId);
+    });
+
+    vertexIds.forEach(vertexId => newGraph.removeVertex(vertexId));
+
+    const orphans = newGraph
+      .findIsolatedVertices()
+      .filter(vertex => touchedVertexIds.has(vertex.id));
+    orphans.forEach(vertex => newGraph.removeVertex(vertex.id));
+
+    this.deletedCount = edgeIds.size + vertexIds.size + orphans.length + openingIds.size;
+
+    // Drop deleted elements from the selection
+    const selectedIds = new Set(
+      Array.from(state.selectedIds).filter(
+        id => newGraph.hasVertex(id) || newGraph.hasEdge(id) || newGraph.hasSurface(id) || newGraph.hasOpening(id)
+      )
+    );
+
+    return {
+      graph: newGraph,
+      selectedIds,
+    };
+  }
+
+  undo(state: CommandState): CommandState {
+    if (!this.previousState) return state;
+
+    return {
+      graph: this.previousState.graph.clone(),
+      selectedIds: new Set(this.previousState.selectedIds),
+    };
+  }
+
+  getDescription(): string {
+    return `Delete ${this.deletedCount} element${this.deletedCount === 1 ? '' : 's'}`;
+  }
+}
+
 /**
  * Composite command that executes multiple commands as a single action
  * Useful for operations that need to be undone together
@@ -690,11 +1338,13 @@ export class ClearCanvasCommand implements Command {
   private previousVertices: Map<string, Vertex>;
   private previousEdges: Map<string, Edge>;
   private previousSurfaces: Map<string, Surface>;
+  private previousOpenings: Map<string, Opening>;
 
   constructor() {
     this.previousVertices = new Map();
     this.previousEdges = new Map();
     this.previousSurfaces = new Map();
+    this.previousOpenings = new Map();
   }
 
   execute(state: CommandState): CommandState {
@@ -702,6 +1352,7 @@ export class ClearCanvasCommand implements Command {
     this.previousVertices = state.graph.getVertices();
     this.previousEdges = state.graph.getEdges();
     this.previousSurfaces = state.graph.getSurfaces();
+    this.previousOpenings = state.graph.getOpenings();
 
     const newGraph = new SpatialGraph(); // Create empty graph
     
@@ -716,7 +1367,8 @@ export class ClearCanvasCommand implements Command {
     const newGraph = new SpatialGraph(
       this.previousVertices,
       this.previousEdges,
-      this.previousSurfaces
+      this.previousSurfaces,
+      this.previousOpenings
     );
 
     return {
@@ -735,6 +1387,8 @@ export class CommandManager {
   private history: Command[] = [];
   private historyIndex: number = -1;
   private maxHistory: number = 50;
+  // Commands dropped from the start of the history to keep it within maxHistory
+  private trimmedCount: number = 0;
 
   /**
    * Execute a command and add it to history
@@ -756,6 +1410,7 @@ export class CommandManager {
     if (this.history.length > this.maxHistory) {
       this.history.shift();
       this.historyIndex--;
+      this.trimmedCount++;
     }
 
     return newState;
@@ -803,11 +1458,34 @@ export class CommandManager {
     return this.historyIndex < this.history.length - 1;
   }
 
+  /**
+   * Position of the command that would be undone next, counting commands trimmed
+   * from the start of the history, so it stays stable once the history is full
+   */
+  getCurrentIndex(): number {
+    return this.trimmedCount + this.historyIndex;
+  }
+
+  /**
+   * Merge the commands from position `fromIndex` (as given by getCurrentIndex) up to the
+   * current one into a single undo step
+   * Undone commands after them are dropped, since they can no longer be redone on their own.
+   */
+  squash(fromIndex: number, description: string): void {
+    const start = Math.max(fromIndex - this.trimmedCount, 0);
+    if (this.historyIndex - start < 1) return;
+
+    const merged = new CompositeCommand(this.history.slice(start, this.historyIndex + 1), description);
+    this.history = [...this.history.slice(0, start), merged];
+    this.historyIndex = start;
+  }
+
   /**
    * Clear history
    */
   clear(): void {
     this.history = [];
     this.historyIndex = -1;
+    this.trimmedCount = 0;
   }
 }
@@ -0,0 +1,48 @@
+// Trailing-edge debounce with explicit flush and cancel
+
+export interface Debounced<Args extends unknown[]> {
+  (...args: Args): void;
+  /** Run a pending call now */
+  flush: () => void;
+  /** Drop a pending call */
+  cancel: () => void;
+  pending: () => boolean;
+}
+
+/**
+ * Delay calls to `fn` until `wait` ms have passed without another call
+ * Only the arguments of the last call are used.
+ */
+export function debounce<Args extends unknown[]>(fn: (...args: Args) => void, wait: number): Debounced<Args> {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let lastArgs: Args | null = null;
+
+  const run = () => {
+    const args = lastArgs;
+    timer = null;
+    lastArgs = null;
+    if (args) fn(...args);
+  };
+
+  const debounced = (...args: Args) => {
+    lastArgs = args;
+    if (timer !== null) clearTimeout(timer);
+    timer = setTimeout(run, wait);
+  };
+
+  debounced.flush = () => {
+    if (timer === null) return;
+    clearTimeout(timer);
+    run();
+  };
+
+  debounced.cancel = () => {
+    if (timer !== null) clearTimeout(timer);
+    timer = null;
+    lastArgs = null;
+  };
+
+  debounced.pending = () => timer !== null;
+
+  return debounced;
+}
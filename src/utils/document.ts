@@ -0,0 +1,401 @@
+// Versioned floorplan document format: serialization, validation and migrations
+//
+// Documents are upgraded on load by a chain of migrations, one per version step,
+// so a file of any older version reaches the current version in order.
+
+import type { DocumentMetadata, DocumentValidationError, FloorplanDocument } from '../types/document';
+import type { DetectionSettings, DrawingSettings, MeasurementSettings, Underlay } from '../types/spatial';
+import { SpatialGraph } from './spatialGraph';
+import { DEFAULT_ANGLE_SNAP } from './geometry';
+import { WALL_TYPES } from './walls';
+import { DEFAULT_OPENING_WIDTHS } from './openings';
+import { scaleUnderlay } from './underlay';
+import { DEFAULT_POLYGON_SIDES, MAX_POLYGON_SIDES, MIN_POLYGON_SIDES } from './shapes';
+
+export const CURRENT_DOCUMENT_VERSION = 1;
+
+export const DEFAULT_MEASUREMENT_SETTINGS: MeasurementSettings = {
+  pixelsPerMm: 0.1,
+  showMeasurements: true,
+};
+
+export const DEFAULT_DRAWING_SETTINGS: DrawingSettings = {
+  resolution: 100,
+  wallType: 'interior',
+  openingType: 'door',
+  edgeKind: 'wall',
+  polygonSides: DEFAULT_POLYGON_SIDES,
+  angleSnap: DEFAULT_ANGLE_SNAP,
+};
+
+// 0.01 m² is the 100 px² the detector always used at the default scale
+export const DEFAULT_DETECTION_SETTINGS: DetectionSettings = {
+  minRoomArea: 0.01,
+  includeVirtualSeparators: true,
+  ignoreFilaments: false,
+};
+
+/**
+ * Editor settings saved with the plan
+ */
+export interface DocumentSettings {
+  measurement: MeasurementSettings;
+  drawingSettings: DrawingSettings;
+  detectionSettings?: DetectionSettings;
+  underlay?: Underlay | null;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// ==================== Serialization ====================
+
+/**
+ * Scale every coordinate-bearing field of a graph dump
+ * Lengths are multiplied by `factor` and areas by its square.
+ */
+function scaleGraphData(data: FloorplanDocument['data'], factor: number): FloorplanDocument['data'] {
+  return {
+    vertices: data.vertices.map((vertex) => ({ ...vertex, x: vertex.x * factor, y: vertex.y * factor })),
+    edges: data.edges,
+    surfaces: data.surfaces.map((surface) => ({
+      ...surface,
+      area: surface.area * factor * factor,
+      centroid: { x: surface.centroid.x * factor, y: surface.centroid.y * factor },
+      ...(surface.labelPosition && {
+        labelPosition: { x: surface.labelPosition.x * factor, y: surface.labelPosition.y * factor },
+      }),
+    })),
+    openings: data.openings,
+  };
+}
+
+/**
+ * Summarize document data (areas in mm²)
+ * Tolerates malformed data so migrations can use it before validation.
+ */
+function summarize(data: Record<string, unknown>): DocumentMetadata {
+  const count = (value: unknown) => (Array.isArray(value) ? value.length : 0);
+  const edges = Array.isArray(data.edges) ? data.edges : [];
+  const surfaces = Array.isArray(data.surfaces) ? data.surfaces : [];
+  const totalAreaMm2 = surfaces.reduce(
+    (total: number, surface) => total + (isObject(surface) && typeof surface.area === 'number' ? surface.area : 0),
+    0
+  );
+
+  return {
+    totalArea: totalAreaMm2 / 1000000,
+    roomCount: count(data.surfaces),
+    wallCount: edges.filter((edge) => !(isObject(edge) && edge.kind === 'separator')).length,
+    openingCount: count(data.openings),
+  };
+}
+
+/**
+ * Build a document from the graph and editor settings
+ */
+export function serializeDocument(
+  graph: SpatialGraph,
+  settings: DocumentSettings,
+  now: Date = new Date()
+): FloorplanDocument {
+  const data = scaleGraphData(graph.toJSON(), 1 / settings.measurement.pixelsPerMm);
+
+  return {
+    version: CURRENT_DOCUMENT_VERSION,
+    timestamp: now.toISOString(),
+    metadata: summarize(data),
+    measurement: { ...settings.measurement },
+    drawingSettings: { ...settings.drawingSettings },
+    detectionSettings: { ...(settings.detectionSettings ?? DEFAULT_DETECTION_SETTINGS) },
+    ...(settings.underlay ? { underlay: scaleUnderlay(settings.underlay, 1 / settings.measurement.pixelsPerMm) } : {}),
+    data,
+  };
+}
+
+/**
+ * Rebuild the graph from a (current version, validated) document
+ * Geometry is converted to pixels at `pixelsPerMm`, which defaults to the scale
+ * saved in the document.
+ */
+export function deserializeDocument(
+  document: FloorplanDocument,
+  pixelsPerMm: number = document.measurement.pixelsPerMm
+): SpatialGraph {
+  return SpatialGraph.fromJSON(scaleGraphData(document.data, pixelsPerMm));
+}
+
+/**
+ * Get the document's drawing settings; settings older documents lack use the defaults
+ */
+export function deserializeDrawingSettings(document: FloorplanDocument): DrawingSettings {
+  return { ...DEFAULT_DRAWING_SETTINGS, ...document.drawingSettings };
+}
+
+/**
+ * Get the document's room detection settings; older documents use the defaults
+ */
+export function deserializeDetectionSettings(document: FloorplanDocument): DetectionSettings {
+  return { ...DEFAULT_DETECTION_SETTINGS, ...document.detectionSettings };
+}
+
+/**
+ * Get the document's underlay in editor pixels at `pixelsPerMm`
+ */
+export function deserializeUnderlay(
+  document: FloorplanDocument,
+  pixelsPerMm: number = document.measurement.pixelsPerMm
+): Underlay | null {
+  return document.underlay ? scaleUnderlay(document.underlay, pixelsPerMm) : null;
+}
+
+// ==================== Migrations ====================
+
+type Migration = (document: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Migrations keyed by the version they upgrade from
+ * Migrations must tolerate malformed input: whatever they can't understand is passed
+ * through unchanged and reported by the validator afterwards.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  /**
+   * 0 → 1: the unversioned raw dump `{ vertices, edges, surfaces, openings? }` in pixels
+   * The scale was not saved, so the default (the only one the editor offered) is assumed.
+   */
+  0: (legacy) => {
+    const factor = 1 / DEFAULT_MEASUREMENT_SETTINGS.pixelsPerMm;
+    const scaleNumber = (value: unknown, by: number) => (typeof value === 'number' ? value * by : value);
+    const scalePoint = (value: unknown) =>
+      isObject(value) ? { ...value, x: scaleNumber(value.x, factor), y: scaleNumber(value.y, factor) } : value;
+    const scaleItems = (value: unknown, scale: (item: Record<string, unknown>) => unknown) =>
+      Array.isArray(value) ? value.map((item) => (isObject(item) ? scale(item) : item)) : value;
+
+    const data = {
+      vertices: scaleItems(legacy.vertices, scalePoint),
+      edges: legacy.edges,
+      surfaces: scaleItems(legacy.surfaces ?? [], (surface) => ({
+        ...surface,
+        area: scaleNumber(surface.area, factor * factor),
+        centroid: scalePoint(surface.centroid),
+      })),
+      openings: legacy.openings ?? [],
+    };
+
+    return {
+      version: 1,
+      timestamp: new Date().toISOString(),
+      metadata: summarize(data),
+      measurement: { ...DEFAULT_MEASUREMENT_SETTINGS },
+      drawingSettings: { ...DEFAULT_DRAWING_SETTINGS },
+      data,
+    };
+  },
+};
+
+export type MigrationResult =
+  | { success: true; document: unknown; fromVersion: number }
+  | { success: false; errors: DocumentValidationError[] };
+
+/**
+ * Upgrade parsed JSON to the current document version
+ * Data without a `version` field is treated as the unversioned format (version 0).
+ */
+export function migrateDocument(data: unknown): MigrationResult {
+  if (!isObject(data)) {
+    return { success: false, errors: [{ path: '', message: 'expected a floorplan document object' }] };
+  }
+
+  const fromVersion = data.version === undefined ? 0 : data.version;
+  if (typeof fromVersion !== 'number' || !Number.isInteger(fromVersion) || fromVersion < 0) {
+    return { success: false, errors: [{ path: 'version', message: 'expected a non-negative integer' }] };
+  }
+  if (fromVersion > CURRENT_DOCUMENT_VERSION) {
+    return {
+      success: false,
+      errors: [{
+        path: 'version',
+        message: `version ${fromVersion} is newer than this editor supports (${CURRENT_DOCUMENT_VERSION})`,
+      }],
+    };
+  }
+
+  let document = data;
+  for (let version = fromVersion; version < CURRENT_DOCUMENT_VERSION; version++) {
+    document = MIGRATIONS[version](document);
+  }
+
+  return { success: true, document, fromVersion };
+}
+
+// ==================== Validation ====================
+
+type Check = (value: unknown, path: string, errors: DocumentValidationError[]) => void;
+
+const join = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const number = (options: { positive?: boolean; integer?: boolean; min?: number; max?: number } = {}): Check => (value, path, errors) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push({ path, message: 'expected a finite number' });
+  } else if (options.integer && !Number.isInteger(value)) {
+    errors.push({ path, message: 'expected an integer' });
+  } else if (options.positive && value <= 0) {
+    errors.push({ path, message: 'expected a positive number' });
+  } else if (options.min !== undefined && options.max !== undefined && (value < options.min || value > options.max)) {
+    errors.push({ path, message: `expected a number between ${options.min} and ${options.max}` });
+  } else if (options.min !== undefined && value < options.min) {
+    errors.push({ path, message: `expected a number of at least ${options.min}` });
+  }
+};
+
+const string: Check = (value, path, errors) => {
+  if (typeof value !== 'string') errors.push({ path, message: 'expected a string' });
+};
+
+const boolean: Check = (value, path, errors) => {
+  if (typeof value !== 'boolean') errors.push({ path, message: 'expected a boolean' });
+};
+
+const oneOf = (values: readonly string[]): Check => (value, path, errors) => {
+  if (typeof value !== 'string' || !values.includes(value)) {
+    errors.push({ path, message: `expected one of ${values.map((v) => `"${v}"`).join(', ')}` });
+  }
+};
+
+const optional = (check: Check): Check => (value, path, errors) => {
+  if (value !== undefined) check(value, path, errors);
+};
+
+const object = (shape: Record<string, Check>): Check => (value, path, errors) => {
+  if (!isObject(value)) {
+    errors.push({ path, message: 'expected an object' });
+    return;
+  }
+  Object.entries(shape).forEach(([key, check]) => check(value[key], join(path, key), errors));
+};
+
+/**
+ * An array of objects with unique string `id`s
+ */
+const entities = (item: Check): Check => (value, path, errors) => {
+  if (!Array.isArray(value)) {
+    errors.push({ path, message: 'expected an array' });
+    return;
+  }
+
+  const seen = new Set<string>();
+  value.forEach((entry, index) => {
+    const entryPath = join(path, index);
+    item(entry, entryPath, errors);
+    if (isObject(entry) && typeof entry.id === 'string') {
+      if (seen.has(entry.id)) errors.push({ path: join(entryPath, 'id'), message: `duplicate id "${entry.id}"` });
+      seen.add(entry.id);
+    }
+  });
+};
+
+const array = (item: Check): Check => (value, path, errors) => {
+  if (!Array.isArray(value)) {
+    errors.push({ path, message: 'expected an array' });
+    return;
+  }
+  value.forEach((entry, index) => item(entry, join(path, index), errors));
+};
+
+const point = object({ x: number(), y: number() });
+const wallTypeIds = Object.keys(WALL_TYPES);
+const openingTypes = Object.keys(DEFAULT_OPENING_WIDTHS);
+const edgeKinds = ['wall', 'separator'];
+
+const documentSchema = object({
+  version: number(),
+  timestamp: string,
+  metadata: object({
+    totalArea: number({ min: 0 }),
+    roomCount: number({ min: 0 }),
+    wallCount: number({ min: 0 }),
+    openingCount: number({ min: 0 }),
+  }),
+  measurement: object({
+    pixelsPerMm: number({ positive: true }),
+    showMeasurements: boolean,
+  }),
+  drawingSettings: object({
+    resolution: number({ positive: true }),
+    wallType: oneOf(wallTypeIds),
+    openingType: oneOf(openingTypes),
+    edgeKind: optional(oneOf(edgeKinds)),
+    polygonSides: optional(number({ integer: true, min: MIN_POLYGON_SIDES, max: MAX_POLYGON_SIDES })),
+    angleSnap: optional(number({ min: 0, max: 180 })),
+  }),
+  detectionSettings: optional(object({
+    minRoomArea: number({ min: 0 }),
+    includeVirtualSeparators: boolean,
+    ignoreFilaments: boolean,
+  })),
+  underlay: optional(object({
+    src: string,
+    width: number({ positive: true }),
+    height: number({ positive: true }),
+    x: number(),
+    y: number(),
+    rotation: number(),
+    scale: number({ positive: true }),
+    opacity: number({ min: 0, max: 1 }),
+    locked: boolean,
+  })),
+  data: object({
+    vertices: entities(object({ id: string, x: number(), y: number() })),
+    edges: entities(object({
+      id: string,
+      startVertexId: string,
+      endVertexId: string,
+      kind: optional(oneOf(edgeKinds)),
+      bulge: optional(number()),
+      thickness: optional(number({ positive: true })),
+      alignment: optional(oneOf(['center', 'left', 'right'])),
+      wallType: optional(oneOf(wallTypeIds)),
+    })),
+    surfaces: entities(object({
+      id: string,
+      edgeIds: array(string),
+      area: number({ min: 0 }),
+      name: string,
+      centroid: point,
+      labelPosition: optional(point),
+      holes: optional(array(array(string))),
+    })),
+    openings: entities(object({
+      id: string,
+      edgeId: string,
+      offset: number({ min: 0, max: 1 }),
+      width: number({ positive: true }),
+      type: oneOf(openingTypes),
+      hinge: optional(oneOf(['start', 'end'])),
+      swing: optional(oneOf(['left', 'right'])),
+    })),
+  }),
+});
+
+/**
+ * Check that data is a well-formed current-version document
+ * Returns every problem found, each with the path of the offending value.
+ */
+export function validateDocument(data: unknown): DocumentValidationError[] {
+  const errors: DocumentValidationError[] = [];
+  documentSchema(data, '', errors);
+
+  if (isObject(data) && data.version !== CURRENT_DOCUMENT_VERSION && typeof data.version === 'number') {
+    errors.unshift({ path: 'version', message: `expected version ${CURRENT_DOCUMENT_VERSION}` });
+  }
+
+  return errors;
+}
+
+/**
+ * Format a validation error for display
+ */
+export function formatValidationError(error: DocumentValidationError): string {
+  return error.path ? `${error.path}: ${error.message}` : error.message;
+}
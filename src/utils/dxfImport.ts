@@ -0,0 +1,428 @@
+// Reading ASCII DXF drawings into a graph
+//
+// Parsing keeps the drawing in its own units and coordinates; building the graph
+// converts the chosen layers to millimetres, merges nearby endpoints and splits
+// crossing lines so rooms can be detected.
+
+import type { Edge, Vertex } from '../types/spatial';
+import { SpatialGraph } from './spatialGraph';
+import { generateId } from './geometry';
+import { INTERSECTION_TOLERANCE } from './intersections';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * A chain of straight segments from one DXF entity (arcs are already tessellated)
+ */
+export interface DXFPolyline {
+  layer: string;
+  points: Point[];
+  closed: boolean;
+}
+
+export interface DXFLayerInfo {
+  name: string;
+  /** Number of supported entities on the layer */
+  entityCount: number;
+}
+
+export interface DXFDrawing {
+  /** $INSUNITS header value (0 when the drawing is unitless or doesn't say) */
+  units: number;
+  layers: DXFLayerInfo[];
+  polylines: DXFPolyline[];
+  /** Counts of entity types that were not imported */
+  skipped: Record<string, number>;
+}
+
+export type DXFParseResult = { success: true; drawing: DXFDrawing } | { success: false; errors: string[] };
+
+/**
+ * Drawing units by $INSUNITS code, with their size in millimetres
+ */
+export const DXF_UNITS: Record<number, { name: string; mm: number }> = {
+  1: { name: 'Inches', mm: 25.4 },
+  2: { name: 'Feet', mm: 304.8 },
+  4: { name: 'Millimetres', mm: 1 },
+  5: { name: 'Centimetres', mm: 10 },
+  6: { name: 'Metres', mm: 1000 },
+  10: { name: 'Yards', mm: 914.4 },
+  14: { name: 'Decimetres', mm: 100 },
+};
+
+/**
+ * Millimetres per drawing unit; unitless and unknown drawings are taken as millimetres
+ */
+export function getDXFUnitScale(units: number): number {
+  return DXF_UNITS[units]?.mm ?? 1;
+}
+
+/** Largest angle covered by one segment of a tessellated arc */
+const ARC_SEGMENT_ANGLE = Math.PI / 18;
+
+const SUPPORTED_ENTITIES = new Set(['LINE', 'LWPOLYLINE', 'POLYLINE', 'ARC']);
+
+// ==================== Parsing ====================
+
+type Pair = [code: number, value: string];
+
+/**
+ * Points along a circular arc, counter-clockwise from `start` through `sweep` radians
+ */
+function tessellateArc(center: Point, radius: number, start: number, sweep: number): Point[] {
+  const segments = Math.max(1, Math.ceil(Math.abs(sweep) / ARC_SEGMENT_ANGLE));
+  return Array.from({ length: segments + 1 }, (_, i) => {
+    const angle = start + (sweep * i) / segments;
+    return { x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius };
+  });
+}
+
+/**
+ * Points of a polyline segment with a bulge (tan of a quarter of the included angle,
+ * positive counter-clockwise), excluding the start point
+ */
+function bulgeSegment(from: Point, to: Point, bulge: number): Point[] {
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  if (bulge === 0 || length === 0) return [to];
+
+  const sweep = 4 * Math.atan(bulge);
+  const radius = (length * (1 + bulge * bulge)) / (4 * Math.abs(bulge));
+  // Centre sits off the chord midpoint along its left normal
+  const offset = (length * (1 - bulge * bulge)) / (4 * bulge);
+  const center = {
+    x: (from.x + to.x) / 2 - ((to.y - from.y) / length) * offset,
+    y: (from.y + to.y) / 2 + ((to.x - from.x) / length) * offset,
+  };
+  const start = Math.atan2(from.y - center.y, from.x - center.x);
+
+  const points = tessellateArc(center, radius, start, sweep).slice(1);
+  points[points.length - 1] = to;
+  return points;
+}
+
+/**
+ * Expand polyline vertices with bulges into straight segments
+ */
+function expandBulges(vertices: { point: Point; bulge: number }[], closed: boolean): Point[] {
+  if (vertices.length === 0) return [];
+
+  const points = [vertices[0].point];
+  const count = closed ? vertices.length : vertices.length - 1;
+  for (let i = 0; i < count; i++) {
+    const next = vertices[(i + 1) % vertices.length].point;
+    const segment = bulgeSegment(vertices[i].point, next, vertices[i].bulge);
+    // The closing segment ends where the polyline starts
+    points.push(...(closed && i === count - 1 ? segment.slice(0, -1) : segment));
+  }
+  return points;
+}
+
+const numberValue = (pairs: Pair[], code: number, fallback: number = 0): number => {
+  const pair = pairs.find(([c]) => c === code);
+  const value = pair ? parseFloat(pair[1]) : NaN;
+  return Number.isFinite(value) ? value : fallback;
+};
+
+const layerOf = (pairs: Pair[]) => pairs.find(([code]) => code === 8)?.[1] ?? '0';
+
+/**
+ * Entities with extrusion (0, 0, -1) are mirrored in X in their object coordinate system
+ */
+const toWorld = (pairs: Pair[], points: Point[]): Point[] =>
+  numberValue(pairs, 230, 1) < 0 ? points.map((p) => ({ x: -p.x, y: p.y })) : points;
+
+/**
+ * Parse an ASCII DXF file
+ * Reads $INSUNITS and the LINE, LWPOLYLINE, POLYLINE and ARC entities of the ENTITIES
+ * section; other entity types are counted as skipped. Only X and Y are kept.
+ */
+export function parseDXF(text: string): DXFParseResult {
+  if (text.startsWith('AutoCAD Binary DXF')) {
+    return { success: false, errors: ['Binary DXF files are not supported; save the drawing as ASCII DXF'] };
+  }
+
+  const lines = text.split(/\r?\n/);
+  const pairs: Pair[] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = Number(lines[i].trim());
+    if (lines[i].trim() === '' || !Number.isInteger(code)) {
+      return { success: false, errors: [`Line ${i + 1}: expected a group code, found "${lines[i].trim()}"`] };
+    }
+    pairs.push([code, lines[i + 1].trim()]);
+  }
+
+  let units = 0;
+  let section: string | null = null;
+  let foundEntities = false;
+  const entities: { type: string; pairs: Pair[] }[] = [];
+
+  for (let i = 0; i < pairs.length; i++) {
+    const [code, value] = pairs[i];
+
+    if (code === 0 && value === 'SECTION') {
+      section = pairs[i + 1]?.[0] === 2 ? pairs[i + 1][1] : null;
+      foundEntities ||= section === 'ENTITIES';
+      i++;
+    } else if (code === 0 && value === 'ENDSEC') {
+      section = null;
+    } else if (section === 'HEADER' && code === 9 && value === '$INSUNITS') {
+      units = pairs[i + 1]?.[0] === 70 ? parseInt(pairs[i + 1][1], 10) || 0 : 0;
+    } else if (section === 'ENTITIES') {
+      if (code === 0) {
+        entities.push({ type: value, pairs: [] });
+      } else {
+        entities[entities.length - 1]?.pairs.push(pairs[i]);
+      }
+    }
+  }
+
+  if (!foundEntities) {
+    return { success: false, errors: ['The file has no ENTITIES section; is it a DXF drawing?'] };
+  }
+
+  const polylines: DXFPolyline[] = [];
+  const skipped: Record<string, number> = {};
+
+  for (let i = 0; i < entities.length; i++) {
+    const { type, pairs: entity } = entities[i];
+    const layer = layerOf(entity);
+
+    if (type === 'LINE') {
+      polylines.push({
+        layer,
+        points: [
+          { x: numberValue(entity, 10), y: numberValue(entity, 20) },
+          { x: numberValue(entity, 11), y: numberValue(entity, 21) },
+        ],
+        closed: false,
+      });
+    } else if (type === 'LWPOLYLINE') {
+      // Each vertex is a 10/20 pair, optionally followed by its 42 bulge
+      const vertices: { point: Point; bulge: number }[] = [];
+      entity.forEach(([code, value]) => {
+        if (code === 10) vertices.push({ point: { x: parseFloat(value), y: 0 }, bulge: 0 });
+        else if (code === 20 && vertices.length > 0) vertices[vertices.length - 1].point.y = parseFloat(value);
+        else if (code === 42 && vertices.length > 0) vertices[vertices.length - 1].bulge = parseFloat(value) || 0;
+      });
+      const closed = (numberValue(entity, 70) & 1) === 1;
+      polylines.push({ layer, points: toWorld(entity, expandBulges(vertices, closed)), closed });
+    } else if (type === 'POLYLINE') {
+      // Followed by VERTEX entities up to SEQEND
+      const vertices: { point: Point; bulge: number }[] = [];
+      while (entities[i + 1]?.type === 'VERTEX') {
+        const vertex = entities[++i].pairs;
+        vertices.push({ point: { x: numberValue(vertex, 10), y: numberValue(vertex, 20) }, bulge: numberValue(vertex, 42) });
+      }
+      if (entities[i + 1]?.type === 'SEQEND') i++;
+
+      const flags = numberValue(entity, 70);
+      // Polygon meshes and polyface meshes are 3D surfaces, not outlines
+      if (flags & (16 | 64)) {
+        skipped[type] = (skipped[type] ?? 0) + 1;
+        continue;
+      }
+      const closed = (flags & 1) === 1;
+      polylines.push({ layer, points: toWorld(entity, expandBulges(vertices, closed)), closed });
+    } else if (type === 'ARC') {
+      const center = { x: numberValue(entity, 10), y: numberValue(entity, 20) };
+      const start = (numberValue(entity, 50) * Math.PI) / 180;
+      let sweep = (numberValue(entity, 51) * Math.PI) / 180 - start;
+      if (sweep <= 0) sweep += Math.PI * 2;
+      polylines.push({ layer, points: toWorld(entity, tessellateArc(center, numberValue(entity, 40), start, sweep)), closed: false });
+    } else if (!SUPPORTED_ENTITIES.has(type)) {
+      skipped[type] = (skipped[type] ?? 0) + 1;
+    }
+  }
+
+  const counts = new Map<string, number>();
+  polylines.forEach(({ layer }) => counts.set(layer, (counts.get(layer) ?? 0) + 1));
+  const layers = Array.from(counts, ([name, entityCount]) => ({ name, entityCount })).sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+
+  return { success: true, drawing: { units, layers, polylines, skipped } };
+}
+
+// ==================== Building the graph ====================
+
+export interface DXFImportOptions {
+  /** Layers to import; all layers when omitted */
+  layers?: string[];
+  /** Millimetres per drawing unit; defaults to the drawing's $INSUNITS */
+  unitScale?: number;
+  pixelsPerMm: number;
+  /** Endpoints closer than this (in mm) are merged */
+  tolerance?: number;
+}
+
+/**
+ * Merge points that lie within `tolerance` of each other
+ * Returns the index of the representative point for each input point.
+ */
+function clusterPoints(points: Point[], tolerance: number): { representatives: Point[]; indices: number[] } {
+  const cellSize = Math.max(tolerance, 1e-9);
+  const grid = new Map<string, number[]>();
+  const representatives: Point[] = [];
+
+  const indices = points.map((point) => {
+    const cx = Math.floor(point.x / cellSize);
+    const cy = Math.floor(point.y / cellSize);
+
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (const index of grid.get(`${cx + dx},${cy + dy}`) ?? []) {
+          const other = representatives[index];
+          if (Math.hypot(other.x - point.x, other.y - point.y) <= tolerance) return index;
+        }
+      }
+    }
+
+    const index = representatives.push(point) - 1;
+    const key = `${cx},${cy}`;
+    grid.set(key, [...(grid.get(key) ?? []), index]);
+    return index;
+  });
+
+  return { representatives, indices };
+}
+
+/**
+ * Split segments where they cross or touch each other, then merge nearby endpoints
+ * Returns the merged points and the edges between them, without duplicates. The
+ * tolerance is at least INTERSECTION_TOLERANCE, since each segment places a crossing
+ * point with its own rounding and the two copies have to merge.
+ */
+export function nodeSegments(
+  segments: [Point, Point][],
+  joinTolerance: number
+): { points: Point[]; edges: [number, number][] } {
+  const tolerance = Math.max(joinTolerance, INTERSECTION_TOLERANCE);
+  const splits: number[][] = segments.map(() => []);
+  const bounds = segments.map(([a, b]) => ({
+    minX: Math.min(a.x, b.x) - tolerance,
+    maxX: Math.max(a.x, b.x) + tolerance,
+    minY: Math.min(a.y, b.y) - tolerance,
+    maxY: Math.max(a.y, b.y) + tolerance,
+  }));
+
+  // Parameter of a point projected onto segment i, if it lies on the segment's interior
+  const interiorParameter = (i: number, point: Point): number | null => {
+    const [a, b] = segments[i];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const length = Math.hypot(dx, dy);
+    if (length === 0) return null;
+
+    const t = ((point.x - a.x) * dx + (point.y - a.y) * dy) / (length * length);
+    const offLine = Math.abs((point.x - a.x) * dy - (point.y - a.y) * dx) / length;
+    const margin = tolerance / length;
+    return offLine <= tolerance && t > margin && t < 1 - margin ? t : null;
+  };
+
+  // Sweep along X so only segments with overlapping extents are compared
+  const order = segments.map((_, i) => i).sort((i, j) => bounds[i].minX - bounds[j].minX);
+  for (let m = 0; m < order.length; m++) {
+    const i = order[m];
+    for (let n = m + 1; n < order.length; n++) {
+      const j = order[n];
+      if (bounds[j].minX > bounds[i].maxX) break;
+      if (bounds[j].minY > bounds[i].maxY || bounds[j].maxY < bounds[i].minY) continue;
+
+      const [a, b] = segments[i];
+      const [c, d] = segments[j];
+      const r = { x: b.x - a.x, y: b.y - a.y };
+      const s = { x: d.x - c.x, y: d.y - c.y };
+      const denominator = r.x * s.y - r.y * s.x;
+      const lengths = Math.hypot(r.x, r.y) * Math.hypot(s.x, s.y);
+
+      if (lengths > 0 && Math.abs(denominator) > 1e-9 * lengths) {
+        // Crossing lines: split each segment at the intersection if it falls inside it
+        const t = ((c.x - a.x) * s.y - (c.y - a.y) * s.x) / denominator;
+        const point = { x: a.x + r.x * t, y: a.y + r.y * t };
+        const ti = interiorParameter(i, point);
+        const tj = interiorParameter(j, point);
+        const onI = ti !== null || Math.hypot(point.x - a.x, point.y - a.y) <= tolerance || Math.hypot(point.x - b.x, point.y - b.y) <= tolerance;
+        const onJ = tj !== null || Math.hypot(point.x - c.x, point.y - c.y) <= tolerance || Math.hypot(point.x - d.x, point.y - d.y) <= tolerance;
+        if (onI && onJ) {
+          if (ti !== null) splits[i].push(ti);
+          if (tj !== null) splits[j].push(tj);
+        }
+      } else {
+        // Parallel: endpoints of one that lie on the other (collinear overlap or touch)
+        [c, d].forEach((point) => {
+          const t = interiorParameter(i, point);
+          if (t !== null) splits[i].push(t);
+        });
+        [a, b].forEach((point) => {
+          const t = interiorParameter(j, point);
+          if (t !== null) splits[j].push(t);
+        });
+      }
+    }
+  }
+
+  // Every segment becomes a chain through its split points
+  const chains = segments.map(([a, b], i) => [
+    a,
+    ...splits[i].sort((x, y) => x - y).map((t) => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t })),
+    b,
+  ]);
+  const { representatives, indices } = clusterPoints(chains.flat(), tolerance);
+
+  const edges: [number, number][] = [];
+  const seen = new Set<string>();
+  let offset = 0;
+  chains.forEach((chain) => {
+    for (let k = 0; k + 1 < chain.length; k++) {
+      const from = indices[offset + k];
+      const to = indices[offset + k + 1];
+      const key = from < to ? `${from},${to}` : `${to},${from}`;
+      if (from !== to && !seen.has(key)) {
+        seen.add(key);
+        edges.push([from, to]);
+      }
+    }
+    offset += chain.length;
+  });
+
+  return { points: representatives, edges };
+}
+
+/**
+ * Build a graph from the chosen layers of a drawing, with rooms detected
+ * The drawing is converted to millimetres, flipped to screen orientation (DXF Y
+ * points up) and moved so its top-left corner is at the origin.
+ */
+export function buildGraphFromDXF(drawing: DXFDrawing, options: DXFImportOptions): SpatialGraph {
+  const { pixelsPerMm, tolerance = 1 } = options;
+  const unitScale = options.unitScale ?? getDXFUnitScale(drawing.units);
+  const layers = options.layers ? new Set(options.layers) : null;
+
+  const segments: [Point, Point][] = [];
+  drawing.polylines
+    .filter((polyline) => !layers || layers.has(polyline.layer))
+    .forEach(({ points, closed }) => {
+      const mm = points.map((p) => ({ x: p.x * unitScale, y: -p.y * unitScale }));
+      for (let i = 0; i + 1 < mm.length; i++) segments.push([mm[i], mm[i + 1]]);
+      if (closed && mm.length > 2) segments.push([mm[mm.length - 1], mm[0]]);
+    });
+
+  const { points, edges } = nodeSegments(segments, tolerance);
+  const minX = points.reduce((min, p) => Math.min(min, p.x), Infinity);
+  const minY = points.reduce((min, p) => Math.min(min, p.y), Infinity);
+
+  // Only points that ended up on an edge become vertices
+  const used = new Set(edges.flat());
+  const ids = points.map(() => generateId());
+  const vertices: Vertex[] = points
+    .map((p, i) => ({ id: ids[i], x: (p.x - minX) * pixelsPerMm, y: (p.y - minY) * pixelsPerMm }))
+    .filter((_, i) => used.has(i));
+  const graphEdges: Edge[] = edges.map(([from, to]) => ({ id: generateId(), startVertexId: ids[from], endVertexId: ids[to] }));
+
+  const graph = SpatialGraph.fromJSON({ vertices, edges: graphEdges, surfaces: [] });
+  graph.detectAllSurfaces();
+  return graph;
+}
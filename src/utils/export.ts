@@ -1,25 +1,36 @@
 import { SpatialGraph } from './spatialGraph';
+import {
+  DEFAULT_DRAWING_SETTINGS,
+  DEFAULT_MEASUREMENT_SETTINGS,
+  serializeDocument,
+  type DocumentSettings,
+} from './document';
+import { computeWallPolygons, getWallOffsets, getWallType, isSeparator } from './walls';
+import { getDoorSwing, getOpeningPlacement } from './openings';
+import { formatMeasurement } from './measurements';
+import { getArc, getArcLength, getPathArea, pointAlongEdge, tessellateEdge, tessellatePath, type PathPoint } from './arcs';
 
-export const generateJSON = (graph: SpatialGraph): string => {
-  const data = {
-    vertices: Array.from(graph.getVertices().values()),
-    edges: Array.from(graph.getEdges().values()),
-    surfaces: Array.from(graph.getSurfaces().values()),
-  };
-  return JSON.stringify(data, null, 2);
+export const generateJSON = (
+  graph: SpatialGraph,
+  settings: DocumentSettings = { measurement: DEFAULT_MEASUREMENT_SETTINGS, drawingSettings: DEFAULT_DRAWING_SETTINGS }
+): string => {
+  return JSON.stringify(serializeDocument(graph, settings), null, 2);
 };
 
-export const generateCSV = (graph: SpatialGraph, pixelsPerMm: number = 0.1): { walls: string; rooms: string } => {
-  // Walls CSV
+export const generateCSV = (
+  graph: SpatialGraph,
+  pixelsPerMm: number = 0.1
+): { walls: string; rooms: string; openings: string } => {
+  // Walls CSV (separators are not walls)
   const wallsHeader = 'ID,Start X,Start Y,End X,End Y,Length (mm)\n';
   const wallsRows = Array.from(graph.getEdges().values())
+    .filter((edge) => !isSeparator(edge))
     .map((edge) => {
       const start = graph.getVertex(edge.startVertexId);
       const end = graph.getVertex(edge.endVertexId);
       if (!start || !end) return '';
       
-      const lengthPx = Math.sqrt(Math.pow(end.x - start.x, 2) + Math.pow(end.y - start.y, 2));
-      const lengthMm = lengthPx / pixelsPerMm;
+      const lengthMm = getArcLength(start, end, edge.bulge) / pixelsPerMm;
       
       return `${edge.id},${start.x},${start.y},${end.x},${end.y},${lengthMm.toFixed(2)}`;
     })
@@ -36,8 +47,544 @@ export const generateCSV = (graph: SpatialGraph, pixelsPerMm: number = 0.1): { w
     })
     .join('\n');
 
+  // Openings CSV (offset is the distance from the wall's start vertex to the opening centre)
+  const openingsHeader = 'ID,Wall ID,Type,Offset (mm),Width (mm),Hinge,Swing\n';
+  const openingsRows = Array.from(graph.getOpenings().values())
+    .map((opening) => {
+      const edge = graph.getEdge(opening.edgeId);
+      const start = edge && graph.getVertex(edge.startVertexId);
+      const end = edge && graph.getVertex(edge.endVertexId);
+      if (!start || !end) return '';
+
+      const lengthMm = Math.sqrt(Math.pow(end.x - start.x, 2) + Math.pow(end.y - start.y, 2)) / pixelsPerMm;
+      const isDoor = opening.type === 'door';
+      const hinge = isDoor ? opening.hinge ?? 'start' : '';
+      const swing = isDoor ? opening.swing ?? 'left' : '';
+
+      return `${opening.id},${opening.edgeId},${opening.type},${(opening.offset * lengthMm).toFixed(2)},${opening.width},${hinge},${swing}`;
+    })
+    .filter((row) => row !== '')
+    .join('\n');
+
   return {
     walls: wallsHeader + wallsRows,
     rooms: roomsHeader + roomsRows,
+    openings: openingsHeader + openingsRows,
+  };
+};
+
+export interface SVGExportOptions {
+  pixelsPerMm?: number;
+  /** Drawing scale denominator, e.g. 100 for 1:100 */
+  scale?: number;
+  /** Fill rooms with `roomFillColor` */
+  fillRooms?: boolean;
+  roomFillColor?: string;
+  showRoomLabels?: boolean;
+  showDimensions?: boolean;
+  showScaleBar?: boolean;
+  /** Margin around the plan in paper millimetres */
+  margin?: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Sizes on paper in millimetres, scaled to model units when written
+const SVG_LINE_WIDTH = 0.25;
+const SVG_LABEL_SIZE = 2.5;
+const SVG_DIMENSION_SIZE = 1.8;
+const SVG_SCALE_BAR_HEIGHT = 1.5;
+const SVG_SEPARATOR_DASH = 2;
+const SVG_SEPARATOR_GAP = 1;
+
+/** Scale bar lengths to choose from, in millimetres */
+const SCALE_BAR_LENGTHS = [500, 1000, 2000, 5000, 10000, 20000, 50000, 100000];
+
+const formatNumber = (value: number): string => String(Number(value.toFixed(2)));
+
+const formatColor = (color: number): string => `#${color.toString(16).padStart(6, '0')}`;
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Line or elliptical arc command from one point to the next
+ * SVG's positive sweep direction is clockwise with Y down, the same sense as a positive bulge.
+ */
+const segmentData = (from: PathPoint, to: PathPoint): string => {
+  const arc = getArc(from, to, from.bulge);
+  const end = `${formatNumber(to.x)} ${formatNumber(to.y)}`;
+  if (!arc) return `L${end}`;
+
+  const radius = formatNumber(arc.radius);
+  return `A${radius} ${radius} 0 ${Math.abs(arc.sweep) > Math.PI ? 1 : 0} ${arc.sweep > 0 ? 1 : 0} ${end}`;
+};
+
+const pathData = (points: PathPoint[], close: boolean = true): string => {
+  if (points.length === 0) return '';
+
+  const commands = [`M${formatNumber(points[0].x)} ${formatNumber(points[0].y)}`];
+  points.slice(1).forEach((point, i) => commands.push(segmentData(points[i], point)));
+  const last = points[points.length - 1];
+  if (close && last.bulge) commands.push(segmentData(last, points[0]));
+  return commands.join(' ') + (close ? ' Z' : '');
+};
+
+/** Paths enclosing no area, such as loops broken by a missing vertex, are skipped */
+const enclosesArea = (path: PathPoint[]): boolean => getPathArea(path) !== 0;
+
+/**
+ * Generate an SVG drawing of the plan at true scale
+ * The viewBox is in millimetres and the document size is set in paper millimetres,
+ * so it prints at exactly 1:`scale`. Walls, separators, rooms, openings, room labels,
+ * dimensions and the scale bar are each written to their own `<g>` layer.
+ */
+export const generateSVG = (graph: SpatialGraph, options: SVGExportOptions = {}): string => {
+  const {
+    pixelsPerMm = DEFAULT_MEASUREMENT_SETTINGS.pixelsPerMm,
+    scale = 100,
+    fillRooms = true,
+    roomFillColor = '#eef4fa',
+    showRoomLabels = true,
+    showDimensions = true,
+    showScaleBar = true,
+    margin = 10,
+  } = options;
+
+  // Graph coordinates are pixels; everything is written in millimetres
+  const toMm = (point: PathPoint): PathPoint => ({ x: point.x / pixelsPerMm, y: point.y / pixelsPerMm, bulge: point.bulge });
+  // Paper millimetres to model millimetres
+  const paper = (size: number) => size * scale;
+
+  const lineWidth = formatNumber(paper(SVG_LINE_WIDTH));
+  const wallPolygons = computeWallPolygons(graph, pixelsPerMm);
+
+  // Plan extent including wall bodies
+  const extent = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  const include = (point: Point) => {
+    extent.minX = Math.min(extent.minX, point.x);
+    extent.minY = Math.min(extent.minY, point.y);
+    extent.maxX = Math.max(extent.maxX, point.x);
+    extent.maxY = Math.max(extent.maxY, point.y);
   };
+  graph.getVertices().forEach((vertex) => include(toMm(vertex)));
+  wallPolygons.forEach((polygon) => tessellatePath(polygon).forEach((point) => include(toMm(point))));
+  if (!Number.isFinite(extent.minX)) {
+    Object.assign(extent, { minX: 0, minY: 0, maxX: 1000, maxY: 1000 });
+  }
+
+  const layers: string[] = [];
+
+  // Rooms
+  const rooms = Array.from(graph.getSurfaces().values())
+    .map((surface) => ({
+      surface,
+      polygon: graph.getSurfacePath(surface.id).map(toMm),
+      holes: graph.getSurfaceHolePaths(surface.id).filter(enclosesArea).map((hole) => hole.map(toMm)),
+    }))
+    .filter(({ polygon }) => enclosesArea(polygon));
+  layers.push(
+    `  <g id="rooms" fill="${fillRooms ? roomFillColor : 'none'}" fill-rule="evenodd" stroke="none">\n` +
+      rooms
+        .map(({ surface, polygon, holes }) => {
+          const d = [polygon, ...holes].map((loop) => pathData(loop)).join(' ');
+          return `    <path id="${escapeXml(surface.id)}" d="${d}"/>\n`;
+        })
+        .join('') +
+      '  </g>'
+  );
+
+  // Walls: mitred outlines, or the centreline for walls without a body
+  const edges = Array.from(graph.getEdges().values());
+  const walls = edges.filter((edge) => !isSeparator(edge)).map((edge) => {
+    const color = formatColor(getWallType(edge).color);
+    const polygon = wallPolygons.get(edge.id);
+    if (polygon && polygon.length >= 3) {
+      return `    <path id="${escapeXml(edge.id)}" d="${pathData(polygon.map(toMm))}" fill="${color}"/>\n`;
+    }
+
+    const start = graph.getVertex(edge.startVertexId);
+    const end = graph.getVertex(edge.endVertexId);
+    if (!start || !end) return '';
+    return `    <path id="${escapeXml(edge.id)}" d="${pathData([toMm({ ...start, bulge: edge.bulge }), toMm(end)], false)}" stroke="${color}"/>\n`;
+  });
+  layers.push(
+    `  <g id="walls" stroke="#1a252f" stroke-width="${lineWidth}" stroke-linejoin="miter">\n${walls.join('')}  </g>`
+  );
+
+  // Separators: dashed centrelines
+  const separators = edges.filter(isSeparator).map((edge) => {
+    const start = graph.getVertex(edge.startVertexId);
+    const end = graph.getVertex(edge.endVertexId);
+    if (!start || !end) return '';
+    return `    <path id="${escapeXml(edge.id)}" d="${pathData([toMm({ ...start, bulge: edge.bulge }), toMm(end)], false)}"/>\n`;
+  });
+  layers.push(
+    `  <g id="separators" fill="none" stroke="#7f8c9a" stroke-width="${lineWidth}" stroke-dasharray="${formatNumber(paper(SVG_SEPARATOR_DASH))} ${formatNumber(paper(SVG_SEPARATOR_GAP))}">\n${separators.join('')}  </g>`
+  );
+
+  // Openings: the span is cut out of the wall with the paper colour and the symbol drawn on top
+  const openings = Array.from(graph.getOpenings().values()).map((opening) => {
+    const placement = getOpeningPlacement(graph, opening, pixelsPerMm);
+    if (!placement) return '';
+
+    const { start, end, normal, left, right } = placement;
+    const face = (point: Point, offset: number) => toMm({ x: point.x + normal.x * offset, y: point.y + normal.y * offset });
+    const [startLeft, endLeft, endRight, startRight] = [face(start, left), face(end, left), face(end, -right), face(start, -right)];
+
+    const parts = [
+      `<path d="${pathData([startLeft, endLeft, endRight, startRight])}" fill="#ffffff" stroke="none"/>`,
+      `<path d="${pathData([startLeft, startRight], false)} ${pathData([endLeft, endRight], false)}"/>`,
+    ];
+    if (opening.type === 'window') {
+      parts.push(
+        `<path d="${pathData([startLeft, endLeft], false)} ${pathData([startRight, endRight], false)} ${pathData([toMm(start), toMm(end)], false)}"/>`
+      );
+    } else if (opening.type === 'door') {
+      const { pivot, arc } = getDoorSwing(placement, opening);
+      parts.push(`<path d="${pathData([toMm(pivot), toMm(arc[0])], false)}"/>`);
+      parts.push(`<path d="${pathData(arc.map(toMm), false)}"/>`);
+    }
+
+    return `    <g id="${escapeXml(opening.id)}">${parts.join('')}</g>\n`;
+  });
+  layers.push(
+    `  <g id="openings" fill="none" stroke="#1a252f" stroke-width="${lineWidth}">\n${openings.join('')}  </g>`
+  );
+
+  // Room name and gross area at the label position
+  if (showRoomLabels) {
+    const labelSize = paper(SVG_LABEL_SIZE);
+    const labels = rooms.map(({ surface }) => {
+      const at = toMm(surface.labelPosition ?? surface.centroid);
+      const areaM2 = surface.area / (pixelsPerMm * pixelsPerMm) / 1000000;
+      const x = formatNumber(at.x);
+      return (
+        `    <text x="${x}" y="${formatNumber(at.y)}">` +
+        `<tspan x="${x}">${escapeXml(surface.name)}</tspan>` +
+        `<tspan x="${x}" dy="${formatNumber(labelSize * 1.2)}">${areaM2.toFixed(2)} m²</tspan></text>\n`
+      );
+    });
+    layers.push(
+      `  <g id="room-labels" font-family="Arial, sans-serif" font-size="${formatNumber(labelSize)}" text-anchor="middle" fill="#1a252f">\n` +
+        labels.join('') +
+        '  </g>'
+    );
+  }
+
+  // Edge lengths beside the left face of each wall, rotated to stay upright; curved
+  // walls are measured along the arc and labelled beside its midpoint
+  if (showDimensions) {
+    const dimensionSize = paper(SVG_DIMENSION_SIZE);
+    const dimensions = Array.from(graph.getEdges().values()).map((edge) => {
+      const startVertex = graph.getVertex(edge.startVertexId);
+      const endVertex = graph.getVertex(edge.endVertexId);
+      if (!startVertex || !endVertex) return '';
+
+      const start = toMm(startVertex);
+      const end = toMm(endVertex);
+      const chord = Math.hypot(end.x - start.x, end.y - start.y);
+      if (chord === 0) return '';
+
+      // The tangent at the middle of an arc is parallel to its chord
+      const length = getArcLength(start, end, edge.bulge);
+      const middle = pointAlongEdge(start, end, edge.bulge, 0.5);
+      const dir = { x: (end.x - start.x) / chord, y: (end.y - start.y) / chord };
+      const normal = { x: dir.y, y: -dir.x };
+      const gap = getWallOffsets(edge, pixelsPerMm).left / pixelsPerMm + dimensionSize * 0.6;
+      const position = { x: middle.x + normal.x * gap, y: middle.y + normal.y * gap };
+
+      let angle = (Math.atan2(dir.y, dir.x) * 180) / Math.PI;
+      if (angle > 90) angle -= 180;
+      if (angle <= -90) angle += 180;
+
+      const x = formatNumber(position.x);
+      const y = formatNumber(position.y);
+      return `    <text x="${x}" y="${y}" transform="rotate(${formatNumber(angle)} ${x} ${y})">${formatMeasurement(length)}</text>\n`;
+    });
+    layers.push(
+      `  <g id="dimensions" font-family="Arial, sans-serif" font-size="${formatNumber(dimensionSize)}" text-anchor="middle" dominant-baseline="central" fill="#555555">\n` +
+        dimensions.join('') +
+        '  </g>'
+    );
+  }
+
+  // Scale bar below the plan: the longest standard length up to a third of the plan width
+  if (showScaleBar) {
+    const planWidth = extent.maxX - extent.minX;
+    const barLength = SCALE_BAR_LENGTHS.filter((length) => length <= planWidth / 3).pop() ?? SCALE_BAR_LENGTHS[0];
+    const segments = barLength >= 1000 && barLength <= 5000 ? barLength / 1000 : 4;
+    const segmentLength = barLength / segments;
+    const barHeight = paper(SVG_SCALE_BAR_HEIGHT);
+    const textSize = paper(SVG_DIMENSION_SIZE);
+    const x0 = extent.minX;
+    const y0 = extent.maxY + paper(margin) / 2;
+
+    const blocks = Array.from({ length: segments }, (_, i) =>
+      `    <rect x="${formatNumber(x0 + i * segmentLength)}" y="${formatNumber(y0)}" width="${formatNumber(segmentLength)}" height="${formatNumber(barHeight)}" fill="${i % 2 === 0 ? '#1a252f' : '#ffffff'}"/>\n`
+    );
+    const labelY = formatNumber(y0 + barHeight + textSize * 1.2);
+    const barLabel = barLength >= 1000 ? `${barLength / 1000} m` : `${barLength} mm`;
+
+    layers.push(
+      `  <g id="scale-bar" stroke="#1a252f" stroke-width="${lineWidth}" font-family="Arial, sans-serif" font-size="${formatNumber(textSize)}">\n` +
+        blocks.join('') +
+        `    <text x="${formatNumber(x0)}" y="${labelY}" stroke="none" fill="#1a252f" text-anchor="middle">0</text>\n` +
+        `    <text x="${formatNumber(x0 + barLength)}" y="${labelY}" stroke="none" fill="#1a252f" text-anchor="middle">${barLabel}</text>\n` +
+        `    <text x="${formatNumber(x0 + barLength + textSize)}" y="${formatNumber(y0 + barHeight)}" stroke="none" fill="#1a252f">1:${scale}</text>\n` +
+        '  </g>'
+    );
+  }
+
+  // Room for the scale bar and its labels below the plan
+  const bottom = showScaleBar ? paper(margin) / 2 + paper(SVG_SCALE_BAR_HEIGHT + SVG_DIMENSION_SIZE * 1.5) : 0;
+  const viewBox = {
+    x: extent.minX - paper(margin),
+    y: extent.minY - paper(margin),
+    width: extent.maxX - extent.minX + paper(margin) * 2,
+    height: extent.maxY - extent.minY + paper(margin) * 2 + bottom,
+  };
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${formatNumber(viewBox.width / scale)}mm" height="${formatNumber(viewBox.height / scale)}mm" viewBox="${formatNumber(viewBox.x)} ${formatNumber(viewBox.y)} ${formatNumber(viewBox.width)} ${formatNumber(viewBox.height)}">`,
+    `  <title>Floorplan 1:${scale}</title>`,
+    `  <rect x="${formatNumber(viewBox.x)}" y="${formatNumber(viewBox.y)}" width="${formatNumber(viewBox.width)}" height="${formatNumber(viewBox.height)}" fill="#ffffff"/>`,
+    ...layers,
+    '</svg>',
+    '',
+  ].join('\n');
+};
+
+export interface DXFExportOptions {
+  pixelsPerMm?: number;
+  /** Write walls as closed outlines (LWPOLYLINE) rather than centrelines (LINE) */
+  wallOutlines?: boolean;
+  /** Height of room labels in millimetres */
+  textHeight?: number;
+}
+
+/** AutoCAD colour indices */
+const DXF_LAYERS = [
+  { name: '0', color: 7, linetype: 'CONTINUOUS' },
+  { name: 'WALLS', color: 7, linetype: 'CONTINUOUS' },
+  { name: 'ROOMS', color: 4, linetype: 'CONTINUOUS' },
+  { name: 'SEPARATORS', color: 8, linetype: 'DASHED' },
+];
+
+/** Dash and gap of the DASHED linetype in millimetres */
+const DXF_DASH = [200, 100];
+
+/** $INSUNITS value for millimetres */
+const DXF_UNITS_MM = 4;
+
+const formatDXFNumber = (value: number): string => String(Number(value.toFixed(3)));
+
+/**
+ * Encode text for a DXF string value; non-ASCII characters use the \U+XXXX escape
+ */
+const escapeDXFText = (text: string): string =>
+  text
+    .replace(/[\r\n]+/g, ' ')
+    .replace(/[^\x20-\x7e]/g, (char) => `\\U+${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}`);
+
+type DXFPair = [number, string | number];
+
+/**
+ * Generate an ASCII DXF (AutoCAD 2000) drawing in millimetres
+ * Walls go on the WALLS layer and rooms on the ROOMS layer as closed polylines
+ * with their name and area as TEXT; separators are dashed lines on SEPARATORS. The Y axis is flipped, as DXF Y points up.
+ * Curves are kept as polyline bulges, and as ARC entities for centrelines.
+ *
+ * The file has the structure AutoCAD requires of a 2000 drawing: all nine symbol
+ * tables, the model and paper space blocks, a root dictionary, and owner handles
+ * linking every record and entity to its table or block.
+ */
+export const generateDXF = (graph: SpatialGraph, options: DXFExportOptions = {}): string => {
+  const { pixelsPerMm = DEFAULT_MEASUREMENT_SETTINGS.pixelsPerMm, wallOutlines = true, textHeight = 200 } = options;
+
+  // Flipping Y reverses the turning direction, so bulges change sign
+  const toDXF = (point: PathPoint): PathPoint => ({
+    x: point.x / pixelsPerMm,
+    y: -point.y / pixelsPerMm,
+    bulge: point.bulge && -point.bulge,
+  });
+
+  const pairs: DXFPair[] = [];
+  const add = (...values: DXFPair[]) => pairs.push(...values);
+
+  let nextHandle = 1;
+  const newHandle = (): string => (nextHandle++).toString(16).toUpperCase();
+  const handle = (): [number, string] => [5, newHandle()];
+
+  // Block records are owned by their table but referenced by the blocks and entities
+  const modelSpace = newHandle();
+  const paperSpace = newHandle();
+  const point = (code: number, { x, y }: Point): [number, string][] => [
+    [code, formatDXFNumber(x)],
+    [code + 10, formatDXFNumber(y)],
+    [code + 20, '0'],
+  ];
+
+  // ---- Entities (written first so the extents and handle seed are known for the header)
+  const entities: DXFPair[] = [];
+  const entity = (type: string, layer: string, subclass: string, ...values: DXFPair[]) =>
+    entities.push([0, type], handle(), [330, modelSpace], [100, 'AcDbEntity'], [8, layer], [100, subclass], ...values);
+  const extent = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  const include = ({ x, y }: Point) => {
+    extent.minX = Math.min(extent.minX, x);
+    extent.minY = Math.min(extent.minY, y);
+    extent.maxX = Math.max(extent.maxX, x);
+    extent.maxY = Math.max(extent.maxY, y);
+  };
+  const polyline = (layer: string, points: PathPoint[]) => {
+    tessellatePath(points).forEach(include);
+    const vertices = points.flatMap((p): [number, string][] => [
+      ...point(10, p).slice(0, 2),
+      ...(p.bulge ? [[42, formatDXFNumber(p.bulge)] as [number, string]] : []),
+    ]);
+    entity('LWPOLYLINE', layer, 'AcDbPolyline', [90, points.length], [70, 1], ...vertices);
+  };
+
+  const wallPolygons = computeWallPolygons(graph, pixelsPerMm);
+  graph.getEdges().forEach((edge) => {
+    const polygon = wallPolygons.get(edge.id);
+    if (wallOutlines && polygon && polygon.length >= 3) {
+      polyline('WALLS', polygon.map(toDXF));
+      return;
+    }
+
+    const startVertex = graph.getVertex(edge.startVertexId);
+    const endVertex = graph.getVertex(edge.endVertexId);
+    if (!startVertex || !endVertex) return;
+
+    const layer = isSeparator(edge) ? 'SEPARATORS' : 'WALLS';
+    const start = toDXF({ ...startVertex, bulge: edge.bulge });
+    const end = toDXF(endVertex);
+    [start, ...tessellateEdge(start, end, start.bulge)].forEach(include);
+
+    const arc = getArc(start, end, start.bulge);
+    if (!arc) {
+      entity('LINE', layer, 'AcDbLine', ...point(10, start), ...point(11, end));
+      return;
+    }
+
+    // ARC entities run counter-clockwise, which is the positive sweep direction with Y up
+    const degrees = (angle: number) => formatDXFNumber((((angle * 180) / Math.PI) % 360 + 360) % 360);
+    const from = arc.sweep > 0 ? arc.startAngle : arc.startAngle + arc.sweep;
+    const to = arc.sweep > 0 ? arc.startAngle + arc.sweep : arc.startAngle;
+    entity('ARC', layer, 'AcDbCircle', ...point(10, arc.center), [40, formatDXFNumber(arc.radius)],
+      [100, 'AcDbArc'], [50, degrees(from)], [51, degrees(to)]);
+  });
+
+  graph.getSurfaces().forEach((surface) => {
+    const path = graph.getSurfacePath(surface.id);
+    if (!enclosesArea(path)) return;
+
+    polyline('ROOMS', path.map(toDXF));
+    graph.getSurfaceHolePaths(surface.id).forEach((hole) => {
+      if (enclosesArea(hole)) polyline('ROOMS', hole.map(toDXF));
+    });
+
+    // Name above the label position and area below, both centred
+    const position = toDXF(surface.labelPosition ?? surface.centroid);
+    const areaM2 = surface.area / (pixelsPerMm * pixelsPerMm) / 1000000;
+    const label = (text: string, dy: number) => {
+      const at = { x: position.x, y: position.y + dy };
+      entity('TEXT', 'ROOMS', 'AcDbText', ...point(10, at), [40, formatDXFNumber(textHeight)], [1, escapeDXFText(text)],
+        [72, 1], ...point(11, at), [100, 'AcDbText'], [73, 2]);
+    };
+    label(surface.name, textHeight * 0.7);
+    label(`${areaM2.toFixed(2)} m²`, -textHeight * 0.7);
+  });
+
+  if (!Number.isFinite(extent.minX)) {
+    Object.assign(extent, { minX: 0, minY: 0, maxX: 0, maxY: 0 });
+  }
+
+  // ---- Tables, each record owned by its table
+  const tables: DXFPair[] = [];
+  const table = (name: string, records: DXFPair[][], recordHandles: string[] = []) => {
+    const owner = newHandle();
+    tables.push([0, 'TABLE'], [2, name], [5, owner], [330, '0'], [100, 'AcDbSymbolTable'], [70, records.length]);
+    records.forEach((values, i) => {
+      tables.push([0, name], [5, recordHandles[i] ?? newHandle()], [330, owner], [100, 'AcDbSymbolTableRecord'], ...values);
+    });
+    tables.push([0, 'ENDTAB']);
+  };
+  const linetypeRecord = (name: string, description: string, ...pattern: DXFPair[]): DXFPair[] => [
+    [100, 'AcDbLinetypeTableRecord'], [2, name], [70, 0], [3, description], [72, 65], ...pattern,
+  ];
+
+  table('VPORT', []);
+  table('LTYPE', [
+    linetypeRecord('ByBlock', '', [73, 0], [40, '0.0']),
+    linetypeRecord('ByLayer', '', [73, 0], [40, '0.0']),
+    linetypeRecord('CONTINUOUS', 'Solid line', [73, 0], [40, '0.0']),
+    linetypeRecord('DASHED', 'Dashed __ __ __', [73, 2], [40, formatDXFNumber(DXF_DASH[0] + DXF_DASH[1])],
+      [49, formatDXFNumber(DXF_DASH[0])], [74, 0], [49, formatDXFNumber(-DXF_DASH[1])], [74, 0]),
+  ]);
+  table('LAYER', DXF_LAYERS.map(({ name, color, linetype }) => [
+    [100, 'AcDbLayerTableRecord'], [2, name], [70, 0], [62, color], [6, linetype],
+  ]));
+  table('STYLE', [[
+    [100, 'AcDbTextStyleTableRecord'], [2, 'Standard'], [70, 0], [40, '0.0'], [41, '1.0'], [50, '0.0'], [71, 0],
+    [42, '2.5'], [3, 'txt'], [4, ''],
+  ]]);
+  table('VIEW', []);
+  table('UCS', []);
+  table('APPID', [[[100, 'AcDbRegAppTableRecord'], [2, 'ACAD'], [70, 0]]]);
+
+  // The dimension style table lists its styles, and their records use code 105 for the handle
+  const dimStyles = newHandle();
+  const standardDimStyle = newHandle();
+  tables.push([0, 'TABLE'], [2, 'DIMSTYLE'], [5, dimStyles], [330, '0'], [100, 'AcDbSymbolTable'], [70, 1],
+    [100, 'AcDbDimStyleTable'], [71, 1], [340, standardDimStyle]);
+  tables.push([0, 'DIMSTYLE'], [105, standardDimStyle], [330, dimStyles], [100, 'AcDbSymbolTableRecord'],
+    [100, 'AcDbDimStyleTableRecord'], [2, 'Standard'], [70, 0], [0, 'ENDTAB']);
+
+  table('BLOCK_RECORD', [
+    [[100, 'AcDbBlockTableRecord'], [2, '*Model_Space']],
+    [[100, 'AcDbBlockTableRecord'], [2, '*Paper_Space']],
+  ], [modelSpace, paperSpace]);
+
+  // ---- Blocks: the empty definitions of model and paper space
+  const blocks: DXFPair[] = [];
+  [
+    { name: '*Model_Space', owner: modelSpace, space: [] as DXFPair[] },
+    { name: '*Paper_Space', owner: paperSpace, space: [[67, 1]] as DXFPair[] },
+  ].forEach(({ name, owner, space }) => {
+    blocks.push([0, 'BLOCK'], handle(), [330, owner], [100, 'AcDbEntity'], ...space, [8, '0'], [100, 'AcDbBlockBegin'],
+      [2, name], [70, 0], ...point(10, { x: 0, y: 0 }), [3, name], [1, '']);
+    blocks.push([0, 'ENDBLK'], handle(), [330, owner], [100, 'AcDbEntity'], ...space, [8, '0'], [100, 'AcDbBlockEnd']);
+  });
+
+  // ---- Objects: the root dictionary, holding the (empty) group dictionary
+  const root = newHandle();
+  const groups = newHandle();
+  const objects: DXFPair[] = [
+    [0, 'DICTIONARY'], [5, root], [330, '0'], [100, 'AcDbDictionary'], [281, 1], [3, 'ACAD_GROUP'], [350, groups],
+    [0, 'DICTIONARY'], [5, groups], [330, root], [100, 'AcDbDictionary'], [281, 1],
+  ];
+
+  // ---- File
+  add([0, 'SECTION'], [2, 'HEADER']);
+  add([9, '$ACADVER'], [1, 'AC1015']);
+  add([9, '$INSUNITS'], [70, DXF_UNITS_MM]);
+  add([9, '$MEASUREMENT'], [70, 1]);
+  add([9, '$EXTMIN'], ...point(10, { x: extent.minX, y: extent.minY }));
+  add([9, '$EXTMAX'], ...point(10, { x: extent.maxX, y: extent.maxY }));
+  add([9, '$HANDSEED'], [5, nextHandle.toString(16).toUpperCase()]);
+  add([0, 'ENDSEC']);
+  add([0, 'SECTION'], [2, 'CLASSES'], [0, 'ENDSEC']);
+  add([0, 'SECTION'], [2, 'TABLES'], ...tables, [0, 'ENDSEC']);
+  add([0, 'SECTION'], [2, 'BLOCKS'], ...blocks, [0, 'ENDSEC']);
+  add([0, 'SECTION'], [2, 'ENTITIES'], ...entities, [0, 'ENDSEC']);
+  add([0, 'SECTION'], [2, 'OBJECTS'], ...objects, [0, 'ENDSEC']);
+  add([0, 'EOF']);
+
+  return pairs.map(([code, value]) => `${code}\n${value}`).join('\n') + '\n';
 };
@@ -45,7 +45,35 @@ export const midpoint = (p1: Vertex, p2: Vertex): Vertex => {
 };
 
 /**
- * Check if two line segments intersect
+ * Intersection point of segments p1-p2 and p3-p4
+ * `t` and `u` are the positions of the point along each segment (0..1).
+ * Returns null for parallel segments or when the lines meet outside either segment.
+ */
+export const lineSegmentIntersection = (
+  p1: { x: number; y: number },
+  p2: { x: number; y: number },
+  p3: { x: number; y: number },
+  p4: { x: number; y: number }
+): { x: number; y: number; t: number; u: number } | null => {
+  const det = (p2.x - p1.x) * (p4.y - p3.y) - (p4.x - p3.x) * (p2.y - p1.y);
+  if (det === 0) return null; // Parallel lines
+
+  const t =
+    ((p4.y - p3.y) * (p4.x - p1.x) + (p3.x - p4.x) * (p4.y - p1.y)) / det;
+  const u =
+    ((p3.x - p1.x) * (p2.y - p1.y) - (p3.y - p1.y) * (p2.x - p1.x)) / det;
+  if (t < 0 || t > 1 || u < 0 || u > 1) return null;
+
+  return {
+    x: p1.x + (p2.x - p1.x) * t,
+    y: p1.y + (p2.y - p1.y) * t,
+    t,
+    u,
+  };
+};
+
+/**
+ * Check if two line segments cross (touching endpoints don't count)
  */
 export const lineSegmentsIntersect = (
   p1: Vertex,
@@ -53,15 +81,8 @@ export const lineSegmentsIntersect = (
   p3: Vertex,
   p4: Vertex
 ): boolean => {
-  const det = (p2.x - p1.x) * (p4.y - p3.y) - (p4.x - p3.x) * (p2.y - p1.y);
-  if (det === 0) return false; // Parallel lines
-
-  const lambda =
-    ((p4.y - p3.y) * (p4.x - p1.x) + (p3.x - p4.x) * (p4.y - p1.y)) / det;
-  const gamma =
-    ((p1.y - p2.y) * (p4.x - p1.x) + (p2.x - p1.x) * (p4.y - p1.y)) / det;
-
-  return lambda > 0 && lambda < 1 && gamma > 0 && gamma < 1;
+  const hit = lineSegmentIntersection(p1, p2, p3, p4);
+  return hit !== null && hit.t > 0 && hit.t < 1 && hit.u > 0 && hit.u < 1;
 };
 
 /**
@@ -132,20 +153,85 @@ export const isVertexOnLineSegment = (
 };
 
 /**
- * Calculates the snapped position for the cursor.
- * Prioritizes snapping to existing vertices over grid snapping.
+ * How close (in screen pixels) the mouse needs to be to snap to a vertex
  */
-export const getSnappedPoint = (
+export const SCREEN_SNAP_RADIUS = 10;
+
+/**
+ * Angle snapping increment (degrees) for new plans and plans saved without one
+ */
+export const DEFAULT_ANGLE_SNAP = 15;
+
+export interface SnapOptions {
+  /** Snap the direction from the start to multiples of this many degrees; 0 turns it off */
+  angleIncrement?: number;
+  /** Constrain the direction from the start to horizontal or vertical */
+  orthogonal?: boolean;
+  /** Direction of the previous segment (as an atan2 angle); angles are also tracked relative to it */
+  referenceAngle?: number;
+}
+
+export interface SnapResult {
+  x: number;
+  y: number;
+  /** What decided the position */
+  kind: 'vertex' | 'angle' | 'length' | 'free';
+  /** Direction from the start (as an atan2 angle) when it is locked by the orthogonal or angle snap */
+  lockedAngle?: number;
+}
+
+/**
+ * Direction the cursor is locked to, if any
+ * Orthogonal mode always locks to the nearest axis. Angle snapping locks to the nearest
+ * multiple of the increment, counted from the X axis or from the previous segment, but
+ * only when the cursor is within `radius` of that ray, so other angles stay reachable.
+ */
+const getLockedAngle = (
+  dx: number,
+  dy: number,
+  radius: number,
+  { angleIncrement = 0, orthogonal = false, referenceAngle }: SnapOptions
+): number | undefined => {
+  const angle = Math.atan2(dy, dx);
+  if (orthogonal) {
+    return Math.round(angle / (Math.PI / 2)) * (Math.PI / 2);
+  }
+  if (angleIncrement <= 0) return undefined;
+
+  const increment = (angleIncrement * Math.PI) / 180;
+  const bases = referenceAngle === undefined ? [0] : [0, referenceAngle];
+  const length = Math.hypot(dx, dy);
+
+  let best: number | undefined;
+  let bestDistance = radius;
+  for (const base of bases) {
+    const candidate = base + Math.round((angle - base) / increment) * increment;
+    // Distance from the cursor to the ray in that direction
+    const distance = length * Math.abs(Math.sin(angle - candidate));
+    if (distance <= bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+/**
+ * Calculates the snapped position for the cursor, and what it snapped to.
+ * Priorities: existing vertices, then the direction from the start (orthogonal or
+ * angle snap), then the length from the start in multiples of the resolution. A
+ * locked direction keeps length snapping, measured along that direction.
+ */
+export const getSnappedPointWithInfo = (
   cursorPos: { x: number; y: number },
   resolution: number,
   existingVertices: Vertex[],
   scale: number = 1,
-  startVertex: Vertex | null = null
-): { x: number; y: number } => {
+  startVertex: Vertex | null = null,
+  options: SnapOptions = {}
+): SnapResult => {
   // 1. Configuration
-  // How close (in screen pixels) the mouse needs to be to snap to a vertex.
-  const SCREEN_SNAP_RADIUS = 10;
-  // Convert to world coordinates so behavior is consistent regardless of zoom.
+  // Convert the snap radius to world coordinates so behavior is consistent regardless of zoom.
   const worldSnapRadius = SCREEN_SNAP_RADIUS / scale;
 
   // 2. Priority 1: Vertex Snapping (Point Snapping)
@@ -162,30 +248,151 @@ export const getSnappedPoint = (
   }
 
   // If we found a vertex within the 'magnetic' radius, return it immediately.
-  // This overrides the grid.
+  // This overrides the grid and the angle snap, so walls still connect.
   if (closestVertex && minDistance <= worldSnapRadius) {
-    return { x: closestVertex.x, y: closestVertex.y };
+    return { x: closestVertex.x, y: closestVertex.y, kind: 'vertex' };
+  }
+
+  // Without a start there is no length or direction to snap
+  if (!startVertex) {
+    return { x: cursorPos.x, y: cursorPos.y, kind: 'free' };
+  }
+
+  const dx = cursorPos.x - startVertex.x;
+  const dy = cursorPos.y - startVertex.y;
+  const currentLength = Math.sqrt(dx * dx + dy * dy);
+
+  if (currentLength === 0) return { x: startVertex.x, y: startVertex.y, kind: 'length' };
+
+  // 3. Priority 2: Direction Snapping
+  // The cursor is projected onto the locked direction, and its length snapped along it.
+  const lockedAngle = getLockedAngle(dx, dy, worldSnapRadius, options);
+  if (lockedAngle !== undefined) {
+    const along = currentLength * Math.cos(Math.atan2(dy, dx) - lockedAngle);
+    const snappedAlong = resolution > 0 ? Math.round(along / resolution) * resolution : along;
+
+    return {
+      x: startVertex.x + Math.cos(lockedAngle) * snappedAlong,
+      y: startVertex.y + Math.sin(lockedAngle) * snappedAlong,
+      kind: 'angle',
+      lockedAngle,
+    };
   }
 
-  // 3. Priority 2: Relative Length Snapping (only if startVertex is present)
+  // 4. Priority 3: Relative Length Snapping
   // If we are drawing a wall (startVertex exists), snap the length to multiples of resolution.
   // This ensures walls are always e.g. 100mm, 200mm long, even on diagonals.
-  if (startVertex && resolution > 0) {
-    const dx = cursorPos.x - startVertex.x;
-    const dy = cursorPos.y - startVertex.y;
-    const currentLength = Math.sqrt(dx * dx + dy * dy);
-    
-    if (currentLength === 0) return startVertex;
-
+  if (resolution > 0) {
     const snappedLength = Math.round(currentLength / resolution) * resolution;
     const scaleFactor = snappedLength / currentLength;
 
     return {
       x: startVertex.x + dx * scaleFactor,
       y: startVertex.y + dy * scaleFactor,
+      kind: 'length',
     };
   }
 
   // Default: Return raw cursor position (free movement)
-  return cursorPos;
+  return { x: cursorPos.x, y: cursorPos.y, kind: 'free' };
+};
+
+/**
+ * Calculates the snapped position for the cursor.
+ * Prioritizes snapping to existing vertices over grid snapping.
+ */
+export const getSnappedPoint = (
+  cursorPos: { x: number; y: number },
+  resolution: number,
+  existingVertices: Vertex[],
+  scale: number = 1,
+  startVertex: Vertex | null = null,
+  options: SnapOptions = {}
+): { x: number; y: number } => {
+  const { x, y } = getSnappedPointWithInfo(cursorPos, resolution, existingVertices, scale, startVertex, options);
+  return { x, y };
+};
+
+/**
+ * Check if a point lies inside a polygon (ray casting, even-odd rule)
+ * The polygon is given as an ordered list of vertices; closure is implicit.
+ */
+export const isPointInPolygon = (
+  point: { x: number; y: number },
+  polygon: Array<{ x: number; y: number }>
+): boolean => {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+
+    const crosses = (a.y > point.y) !== (b.y > point.y);
+    if (crosses && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+};
+
+/**
+ * Intersect two infinite lines given as point + direction
+ * Returns null when the lines are (nearly) parallel
+ */
+export const intersectLines = (
+  p: { x: number; y: number },
+  d: { x: number; y: number },
+  q: { x: number; y: number },
+  e: { x: number; y: number }
+): { x: number; y: number } | null => {
+  const det = d.x * e.y - d.y * e.x;
+  if (Math.abs(det) < 1e-9) return null;
+
+  const t = ((q.x - p.x) * e.y - (q.y - p.y) * e.x) / det;
+  return { x: p.x + d.x * t, y: p.y + d.y * t };
+};
+
+/**
+ * Calculate signed polygon area using the Shoelace formula
+ * Positive for clockwise winding in screen coordinates (Y down)
+ */
+export const signedPolygonArea = (polygon: Array<{ x: number; y: number }>): number => {
+  if (polygon.length < 3) return 0;
+
+  let area = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const j = (i + 1) % polygon.length;
+    area += polygon[i].x * polygon[j].y - polygon[j].x * polygon[i].y;
+  }
+  return area / 2;
+};
+
+/**
+ * Area-weighted centroid of a simple polygon
+ * Falls back to the vertex average for polygons without area.
+ */
+export const polygonCentroid = (polygon: Array<{ x: number; y: number }>): { x: number; y: number } => {
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    const cross = a.x * b.y - b.x * a.y;
+    area += cross;
+    cx += (a.x + b.x) * cross;
+    cy += (a.y + b.y) * cross;
+  }
+
+  if (Math.abs(area) < 1e-9) {
+    const count = Math.max(polygon.length, 1);
+    return {
+      x: polygon.reduce((sum, p) => sum + p.x, 0) / count,
+      y: polygon.reduce((sum, p) => sum + p.y, 0) / count,
+    };
+  }
+
+  return { x: cx / (3 * area), y: cy / (3 * area) };
 };
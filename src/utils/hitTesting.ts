@@ -0,0 +1,230 @@
+// Hit-testing utilities for picking graph elements under the cursor
+
+import type { SpatialGraph } from './spatialGraph';
+import { isPointInPolygon, lineSegmentsIntersect, pointToLineSegmentDistance } from './geometry';
+import { getOpeningPlacement } from './openings';
+import { DEFAULT_MEASUREMENT_SETTINGS } from './document';
+import { getSegmentBounds } from './spatialIndex';
+
+export type HitType = 'vertex' | 'edge' | 'surface' | 'opening';
+
+export interface HitResult {
+  type: HitType;
+  id: string;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface HitTolerance {
+  /** Pick radius around vertices */
+  vertex: number;
+  /** Pick distance from edge centrelines */
+  edge: number;
+}
+
+/**
+ * Default pick tolerances in screen pixels
+ */
+export const DEFAULT_HIT_TOLERANCE: HitTolerance = {
+  vertex: 8,
+  edge: 6,
+};
+
+/**
+ * Find the vertex closest to a point within the given radius
+ */
+export function hitTestVertex(
+  graph: SpatialGraph,
+  point: { x: number; y: number },
+  radius: number
+): string | null {
+  return graph.queryRadius(point.x, point.y, radius)[0]?.id ?? null;
+}
+
+/**
+ * Find the edge closest to a point within the given tolerance
+ */
+export function hitTestEdge(
+  graph: SpatialGraph,
+  point: { x: number; y: number },
+  tolerance: number
+): string | null {
+  return graph.nearestEdge(point.x, point.y, tolerance)?.edge.id ?? null;
+}
+
+/**
+ * Find the opening closest to a point
+ * An opening is hit anywhere within its span and the wall body around it
+ */
+export function hitTestOpening(
+  graph: SpatialGraph,
+  point: { x: number; y: number },
+  tolerance: number,
+  pixelsPerMm: number
+): string | null {
+  let closestId: string | null = null;
+  let minDistance = Infinity;
+
+  graph.getOpenings().forEach((opening) => {
+    const placement = getOpeningPlacement(graph, opening, pixelsPerMm);
+    if (!placement) return;
+
+    const { distance: dist } = pointToLineSegmentDistance(
+      { id: '', ...point },
+      { id: '', ...placement.start },
+      { id: '', ...placement.end }
+    );
+    const reach = Math.max(placement.left, placement.right) + tolerance;
+    if (dist <= reach && dist < minDistance) {
+      minDistance = dist;
+      closestId = opening.id;
+    }
+  });
+
+  return closestId;
+}
+
+/**
+ * Find the surface containing a point
+ * When surfaces are nested, the smallest one wins; a point in a hole is not in the room
+ */
+export function hitTestSurface(
+  graph: SpatialGraph,
+  point: { x: number; y: number }
+): string | null {
+  let hitId: string | null = null;
+  let minArea = Infinity;
+
+  graph.getSurfaces().forEach((surface) => {
+    const polygon = graph.getSurfaceBoundary(surface.id);
+    if (polygon.length < 3) return;
+
+    if (!isPointInPolygon(point, polygon) || surface.area >= minArea) return;
+    if (graph.getSurfaceHoleBoundaries(surface.id).some((hole) => isPointInPolygon(point, hole))) return;
+
+    minArea = surface.area;
+    hitId = surface.id;
+  });
+
+  return hitId;
+}
+
+/**
+ * Pick the topmost element under a point
+ * Priority: vertices, then openings, then edges, then surfaces
+ */
+export function hitTest(
+  graph: SpatialGraph,
+  point: { x: number; y: number },
+  tolerance: HitTolerance = DEFAULT_HIT_TOLERANCE,
+  pixelsPerMm: number = DEFAULT_MEASUREMENT_SETTINGS.pixelsPerMm
+): HitResult | null {
+  const vertexId = hitTestVertex(graph, point, tolerance.vertex);
+  if (vertexId) return { type: 'vertex', id: vertexId };
+
+  const openingId = hitTestOpening(graph, point, tolerance.edge, pixelsPerMm);
+  if (openingId) return { type: 'opening', id: openingId };
+
+  const edgeId = hitTestEdge(graph, point, tolerance.edge);
+  if (edgeId) return { type: 'edge', id: edgeId };
+
+  const surfaceId = hitTestSurface(graph, point);
+  if (surfaceId) return { type: 'surface', id: surfaceId };
+
+  return null;
+}
+
+/**
+ * Build a normalized rectangle from two corner points
+ */
+export function rectFromPoints(
+  a: { x: number; y: number },
+  b: { x: number; y: number }
+): Rect {
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(b.x - a.x),
+    height: Math.abs(b.y - a.y),
+  };
+}
+
+/**
+ * Check if a point lies inside a rectangle (edges inclusive)
+ */
+export function isPointInRect(point: { x: number; y: number }, rect: Rect): boolean {
+  return (
+    point.x >= rect.x &&
+    point.x <= rect.x + rect.width &&
+    point.y >= rect.y &&
+    point.y <= rect.y + rect.height
+  );
+}
+
+/**
+ * Find all elements fully enclosed by a rectangle (window selection)
+ * Edges and surfaces need their whole outline inside, including the bulge of curved walls.
+ */
+export function findElementsInRect(graph: SpatialGraph, rect: Rect): string[] {
+  const ids: string[] = [];
+  const { vertices, edges } = graph.queryRect({
+    minX: rect.x,
+    minY: rect.y,
+    maxX: rect.x + rect.width,
+    maxY: rect.y + rect.height,
+  });
+
+  vertices.forEach((vertex) => ids.push(vertex.id));
+
+  edges.forEach((edge) => {
+    const points = graph.getEdgePoints(edge.id);
+    if (points.length > 0 && points.every((point) => isPointInRect(point, rect))) {
+      ids.push(edge.id);
+    }
+  });
+
+  graph.getSurfaces().forEach((surface) => {
+    const polygon = graph.getSurfaceBoundary(surface.id);
+    if (polygon.length >= 3 && polygon.every((vertex) => isPointInRect(vertex, rect))) {
+      ids.push(surface.id);
+    }
+  });
+
+  return ids;
+}
+
+/**
+ * Find all edges crossed by a segment (used for drag strokes)
+ */
+export function findEdgesCrossingSegment(
+  graph: SpatialGraph,
+  a: { x: number; y: number },
+  b: { x: number; y: number }
+): string[] {
+  const ids: string[] = [];
+
+  graph.queryRect(getSegmentBounds(a, b)).edges.forEach((edge) => {
+    const points = graph.getEdgePoints(edge.id);
+    const crosses = points.slice(1).some((point, i) =>
+      lineSegmentsIntersect({ id: '', ...a }, { id: '', ...b }, { id: '', ...points[i] }, { id: '', ...point })
+    );
+    if (crosses) ids.push(edge.id);
+  });
+
+  return ids;
+}
+
+/**
+ * Convert a screen-pixel tolerance to world units at the given zoom
+ */
+export function scaleHitTolerance(tolerance: HitTolerance, scale: number): HitTolerance {
+  return {
+    vertex: tolerance.vertex / scale,
+    edge: tolerance.edge / scale,
+  };
+}
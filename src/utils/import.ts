@@ -0,0 +1,55 @@
+// Reading saved floorplan documents back into a graph
+
+import type { FloorplanDocument } from '../types/document';
+import type { SpatialGraph } from './spatialGraph';
+import { deserializeDocument, formatValidationError, migrateDocument, validateDocument } from './document';
+
+export type ImportResult =
+  | {
+      success: true;
+      graph: SpatialGraph;
+      /** The document, upgraded to the current version */
+      document: FloorplanDocument;
+      /** Version the file was saved in (0 for the unversioned format) */
+      fromVersion: number;
+      /** Integrity issues reported by SpatialGraph.validate(); the plan still loads */
+      issues: string[];
+    }
+  | {
+      success: false;
+      /** Structural errors that prevent loading */
+      errors: string[];
+    };
+
+/**
+ * Parse a saved floorplan, upgrade it to the current format and rebuild the graph
+ * Geometry is converted at `pixelsPerMm`, defaulting to the scale saved in the file.
+ */
+export function parseFloorplanJSON(text: string, pixelsPerMm?: number): ImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return { success: false, errors: [`Invalid JSON: ${(error as Error).message}`] };
+  }
+
+  const migration = migrateDocument(data);
+  if (!migration.success) {
+    return { success: false, errors: migration.errors.map(formatValidationError) };
+  }
+
+  const errors = validateDocument(migration.document);
+  if (errors.length > 0) {
+    return { success: false, errors: errors.map(formatValidationError) };
+  }
+
+  const document = migration.document as FloorplanDocument;
+  const graph = deserializeDocument(document, pixelsPerMm);
+
+  // Files written without rooms (e.g. by other tools) get them detected from the walls
+  if (document.data.surfaces.length === 0 && document.data.edges.length > 0) {
+    graph.detectAllSurfaces();
+  }
+
+  return { success: true, graph, document, fromVersion: migration.fromVersion, issues: graph.validate() };
+}
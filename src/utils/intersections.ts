@@ -0,0 +1,127 @@
+// Finding where a new wall meets the existing walls
+//
+// A wall drawn across other walls must be split wherever it touches them, otherwise
+// the graph isn't planar and rooms can't be traced. The crossings found here tell
+// DrawEdgeCommand where to insert vertices and which existing edges to split.
+
+import type { Vertex } from '../types/spatial';
+import type { SpatialGraph } from './spatialGraph';
+import { lineSegmentIntersection, pointToLineSegmentDistance } from './geometry';
+import { getSegmentBounds } from './spatialIndex';
+import { closestPointOnEdge, getArcLength, intersectSegmentWithArc, isArcEdge } from './arcs';
+
+/** Default distance (world units) within which points are considered to coincide */
+export const INTERSECTION_TOLERANCE = 1e-3;
+
+export interface EdgeSplit {
+  edgeId: string;
+  /** Position of the split along the edge (0..1 from its start vertex) */
+  u: number;
+}
+
+export interface SegmentCrossing {
+  /** Position along the new segment: 0 at its start, 1 at its end */
+  t: number;
+  x: number;
+  y: number;
+  /** Existing vertex the segment passes through, if any */
+  vertexId: string | null;
+  /** Existing edges that must be split at this point */
+  splits: EdgeSplit[];
+}
+
+/**
+ * Find every point where the segment start-end meets the existing graph, ordered
+ * from start to end
+ * - Proper crossings with other edges split both edges
+ * - Existing vertices lying on the segment split the segment (T-junction)
+ * - An endpoint lying on an edge splits that edge (T-junction); these come back
+ *   with t exactly 0 or 1
+ * Collinear overlaps are the combination of the last two: each segment is split
+ * at the other's endpoints, so the shared stretch ends up as one edge.
+ * On curved edges `u` is the fraction of the arc's sweep.
+ */
+export function findSegmentCrossings(
+  graph: SpatialGraph,
+  start: Vertex,
+  end: Vertex,
+  tolerance: number = INTERSECTION_TOLERANCE
+): SegmentCrossing[] {
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+  if (length <= tolerance) return [];
+
+  const margin = tolerance / length;
+  const isInterior = (t: number, edgeMargin: number) => t > edgeMargin && t < 1 - edgeMargin;
+  const crossings: SegmentCrossing[] = [];
+  const { vertices, edges } = graph.queryRect(getSegmentBounds(start, end, tolerance));
+
+  vertices.forEach((vertex) => {
+    if (vertex.id === start.id || vertex.id === end.id) return;
+
+    const { distance, t } = pointToLineSegmentDistance(vertex, start, end);
+    if (distance <= tolerance && isInterior(t, margin)) {
+      crossings.push({ t, x: vertex.x, y: vertex.y, vertexId: vertex.id, splits: [] });
+    }
+  });
+
+  edges.forEach((edge) => {
+    const a = graph.getVertex(edge.startVertexId);
+    const b = graph.getVertex(edge.endVertexId);
+    if (!a || !b) return;
+
+    const edgeLength = Math.hypot(b.x - a.x, b.y - a.y);
+    if (edgeLength <= tolerance) return;
+    const edgeMargin = tolerance / getArcLength(a, b, edge.bulge);
+
+    // New endpoints resting on the edge
+    let touched = false;
+    [start, end].forEach((endpoint, index) => {
+      if (endpoint.id === a.id || endpoint.id === b.id) return;
+
+      const { distance, t: u } = closestPointOnEdge(endpoint, a, b, edge.bulge);
+      if (distance <= tolerance && isInterior(u, edgeMargin)) {
+        crossings.push({ t: index, x: endpoint.x, y: endpoint.y, vertexId: null, splits: [{ edgeId: edge.id, u }] });
+        touched = true;
+      }
+    });
+    if (touched) return;
+
+    if (isArcEdge(edge)) {
+      intersectSegmentWithArc(start, end, a, b, edge.bulge!).forEach((hit) => {
+        if (isInterior(hit.t, margin) && isInterior(hit.u, edgeMargin)) {
+          crossings.push({ t: hit.t, x: hit.x, y: hit.y, vertexId: null, splits: [{ edgeId: edge.id, u: hit.u }] });
+        }
+      });
+      return;
+    }
+
+    // Nearly parallel edges only meet through their endpoints, handled above
+    const cross = (end.x - start.x) * (b.y - a.y) - (end.y - start.y) * (b.x - a.x);
+    if (Math.abs(cross) <= 1e-9 * length * edgeLength) return;
+
+    const hit = lineSegmentIntersection(start, end, a, b);
+    if (hit && isInterior(hit.t, margin) && isInterior(hit.u, edgeMargin)) {
+      crossings.push({ t: hit.t, x: hit.x, y: hit.y, vertexId: null, splits: [{ edgeId: edge.id, u: hit.u }] });
+    }
+  });
+
+  crossings.sort((p, q) => p.t - q.t);
+
+  // Several edges can meet the segment at the same point, e.g. through a vertex
+  const merged: SegmentCrossing[] = [];
+  crossings.forEach((crossing) => {
+    const previous = merged[merged.length - 1];
+    if (previous && Math.hypot(crossing.x - previous.x, crossing.y - previous.y) <= tolerance) {
+      const splits = [...previous.splits, ...crossing.splits];
+      if (crossing.vertexId) {
+        merged[merged.length - 1] = { ...crossing, splits };
+      } else {
+        previous.splits = splits;
+      }
+      return;
+    }
+    merged.push(crossing);
+  });
+
+  return merged;
+}
@@ -0,0 +1,210 @@
+// Placing room labels inside their rooms
+//
+// The centroid of an L-shaped or ring-shaped room can fall outside it, so labels go
+// at the pole of inaccessibility instead: the point inside the room furthest from
+// its walls. At draw time the label box is checked against the walls and shrunk
+// or hidden when the room is too small for it at the current zoom.
+
+import { polygonCentroid } from './geometry';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/** Labels that would have to shrink below this fraction of their size are hidden */
+export const MIN_LABEL_SCALE = 0.6;
+
+// Grid cells searched for the pole, best candidates first
+interface Cell {
+  x: number;
+  y: number;
+  /** Half the cell size */
+  h: number;
+  /** Distance from the cell centre to the boundary, negative outside */
+  distance: number;
+  /** Upper bound for the distance of any point in the cell */
+  max: number;
+}
+
+/**
+ * Signed distance from a point to the boundary of a polygon with holes
+ * Positive inside the polygon (and outside every hole), negative elsewhere
+ */
+export function signedDistanceToPolygon(point: Point, polygon: Point[], holes: Point[][] = []): number {
+  let inside = false;
+  let minDistanceSq = Infinity;
+
+  [polygon, ...holes].forEach((ring) => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[i];
+      const b = ring[j];
+
+      if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+        inside = !inside;
+      }
+      minDistanceSq = Math.min(minDistanceSq, segmentDistanceSq(point, a, b));
+    }
+  });
+
+  return (inside ? 1 : -1) * Math.sqrt(minDistanceSq);
+}
+
+/**
+ * Find the point inside a polygon furthest from its boundary (pole of inaccessibility)
+ * Grid search refined until no cell can beat the best point by more than `precision`;
+ * the default is 1% of the polygon's larger side. Returns the point and its distance
+ * to the boundary.
+ */
+export function findPoleOfInaccessibility(
+  polygon: Point[],
+  holes: Point[][] = [],
+  precision?: number
+): { x: number; y: number; distance: number } {
+  const minX = Math.min(...polygon.map((p) => p.x));
+  const minY = Math.min(...polygon.map((p) => p.y));
+  const maxX = Math.max(...polygon.map((p) => p.x));
+  const maxY = Math.max(...polygon.map((p) => p.y));
+  const width = maxX - minX;
+  const height = maxY - minY;
+  const cellSize = Math.min(width, height);
+
+  if (polygon.length < 3 || cellSize === 0) {
+    return { x: minX + width / 2, y: minY + height / 2, distance: 0 };
+  }
+
+  const tolerance = precision ?? Math.max(width, height) / 100;
+  const createCell = (x: number, y: number, h: number): Cell => {
+    const distance = signedDistanceToPolygon({ x, y }, polygon, holes);
+    return { x, y, h, distance, max: distance + h * Math.SQRT2 };
+  };
+
+  const queue = new CellQueue();
+  for (let x = minX; x < maxX; x += cellSize) {
+    for (let y = minY; y < maxY; y += cellSize) {
+      queue.push(createCell(x + cellSize / 2, y + cellSize / 2, cellSize / 2));
+    }
+  }
+
+  // Start from the area centroid, which wins for convex rooms and ties
+  const centroid = polygonCentroid(polygon);
+  let best = createCell(centroid.x, centroid.y, 0);
+  const boxCentre = createCell(minX + width / 2, minY + height / 2, 0);
+  if (boxCentre.distance > best.distance) best = boxCentre;
+
+  let cell = queue.pop();
+  while (cell) {
+    if (cell.distance > best.distance) best = cell;
+
+    // Split the cell only if it could hold a clearly better point
+    if (cell.max - best.distance > tolerance) {
+      const h = cell.h / 2;
+      queue.push(createCell(cell.x - h, cell.y - h, h));
+      queue.push(createCell(cell.x + h, cell.y - h, h));
+      queue.push(createCell(cell.x - h, cell.y + h, h));
+      queue.push(createCell(cell.x + h, cell.y + h, h));
+    }
+    cell = queue.pop();
+  }
+
+  return { x: best.x, y: best.y, distance: best.distance };
+}
+
+/**
+ * Largest scale at which a box centred on a point stays clear of the boundary
+ * The box has the given half extents at scale 1. Returns 0 if the point is not
+ * inside the polygon.
+ */
+export function getLabelFitScale(
+  centre: Point,
+  halfWidth: number,
+  halfHeight: number,
+  polygon: Point[],
+  holes: Point[][] = []
+): number {
+  if (halfWidth <= 0 || halfHeight <= 0) return Infinity;
+  if (signedDistanceToPolygon(centre, polygon, holes) <= 0) return 0;
+
+  let scale = Infinity;
+  [polygon, ...holes].forEach((ring) => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      scale = Math.min(scale, boxDistanceToSegment(centre, halfWidth, halfHeight, ring[j], ring[i]));
+    }
+  });
+
+  return scale;
+}
+
+/**
+ * Smallest box scale at which the box touches the segment a-b
+ * This is the distance in the norm max(|dx| / halfWidth, |dy| / halfHeight). It is
+ * convex and piecewise linear along the segment, so the minimum lies at an end or
+ * where one of the terms is zero or the two terms are equal.
+ */
+function boxDistanceToSegment(centre: Point, halfWidth: number, halfHeight: number, a: Point, b: Point): number {
+  const px = (a.x - centre.x) / halfWidth;
+  const py = (a.y - centre.y) / halfHeight;
+  const ux = (b.x - a.x) / halfWidth;
+  const uy = (b.y - a.y) / halfHeight;
+  const norm = (t: number) => Math.max(Math.abs(px + t * ux), Math.abs(py + t * uy));
+
+  const candidates = [0, 1];
+  if (ux !== 0) candidates.push(-px / ux);
+  if (uy !== 0) candidates.push(-py / uy);
+  if (ux !== uy) candidates.push((py - px) / (ux - uy));
+  if (ux !== -uy) candidates.push(-(px + py) / (ux + uy));
+
+  return Math.min(...candidates.filter((t) => t >= 0 && t <= 1).map(norm));
+}
+
+function segmentDistanceSq(point: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq));
+  const x = a.x + t * dx - point.x;
+  const y = a.y + t * dy - point.y;
+  return x * x + y * y;
+}
+
+/**
+ * Binary max-heap of cells ordered by their upper bound
+ */
+class CellQueue {
+  private items: Cell[] = [];
+
+  push(cell: Cell): void {
+    const items = this.items;
+    items.push(cell);
+
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].max >= items[i].max) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): Cell | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length === 0 || !last) return top;
+
+    items[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let largest = i;
+      if (left < items.length && items[left].max > items[largest].max) largest = left;
+      if (right < items.length && items[right].max > items[largest].max) largest = right;
+      if (largest === i) break;
+      [items[largest], items[i]] = [items[i], items[largest]];
+      i = largest;
+    }
+
+    return top;
+  }
+}
@@ -0,0 +1,74 @@
+// Typed lengths and coordinates for placing the end of a wall
+//
+// While a wall is being drawn its end can be typed instead of clicked:
+//   3450       length in millimetres, towards the cursor
+//   3450<90    length and angle
+//   @1200,-300 offset from the start in millimetres
+//   @3450<90   same as 3450<90
+// Angles are in degrees counter-clockwise from the positive X axis as seen on
+// screen, so 90 points up; offsets likewise count Y upwards, as on a survey sheet.
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export type LengthEntry =
+  | { type: 'length'; length: number }
+  | { type: 'polar'; length: number; angle: number }
+  | { type: 'offset'; dx: number; dy: number };
+
+const NUMBER = String.raw`\s*([-+]?(?:\d+\.?\d*|\.\d+))\s*`;
+const LENGTH_PATTERN = new RegExp(`^${NUMBER}$`);
+const POLAR_PATTERN = new RegExp(`^@?${NUMBER}<${NUMBER}$`);
+const OFFSET_PATTERN = new RegExp(`^@${NUMBER},${NUMBER}$`);
+
+/**
+ * Parse typed input into a length, length and angle, or relative offset
+ * Returns null for input that isn't one of the forms or would not move the end.
+ */
+export function parseLengthEntry(text: string): LengthEntry | null {
+  const input = text.trim();
+
+  const length = LENGTH_PATTERN.exec(input);
+  if (length) {
+    const value = Number(length[1]);
+    return value !== 0 ? { type: 'length', length: value } : null;
+  }
+
+  const polar = POLAR_PATTERN.exec(input);
+  if (polar) {
+    const value = Number(polar[1]);
+    return value !== 0 ? { type: 'polar', length: value, angle: Number(polar[2]) } : null;
+  }
+
+  const offset = OFFSET_PATTERN.exec(input);
+  if (offset) {
+    const dx = Number(offset[1]);
+    const dy = Number(offset[2]);
+    return dx !== 0 || dy !== 0 ? { type: 'offset', dx, dy } : null;
+  }
+
+  return null;
+}
+
+/**
+ * World position of a typed entry from the start of the wall
+ * A bare length points towards `toward` (the cursor), or along the X axis when
+ * the cursor is on the start point.
+ */
+export function resolveLengthEntry(entry: LengthEntry, start: Point, toward: Point, pixelsPerMm: number): Point {
+  if (entry.type === 'offset') {
+    return { x: start.x + entry.dx * pixelsPerMm, y: start.y - entry.dy * pixelsPerMm };
+  }
+
+  const length = entry.length * pixelsPerMm;
+  if (entry.type === 'polar') {
+    const angle = (entry.angle * Math.PI) / 180;
+    return { x: start.x + Math.cos(angle) * length, y: start.y - Math.sin(angle) * length };
+  }
+
+  const distance = Math.hypot(toward.x - start.x, toward.y - start.y);
+  const dir = distance > 0 ? { x: (toward.x - start.x) / distance, y: (toward.y - start.y) / distance } : { x: 1, y: 0 };
+  return { x: start.x + dir.x * length, y: start.y + dir.y * length };
+}
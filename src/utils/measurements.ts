@@ -2,6 +2,7 @@
 
 import type { Vertex, MeasurementSettings } from '../types/spatial';
 import { distance } from './geometry';
+import { getArcLength } from './arcs';
 
 /**
  * Convert pixels to millimeters
@@ -47,13 +48,16 @@ export function formatMeasurement(
 }
 
 /**
- * Calculate and format the real-world length of an edge
+ * Calculate the real-world length of an edge
+ * Curved edges (with a bulge) are measured along the arc
  */
 export function getEdgeLength(
   startVertex: Vertex,
   endVertex: Vertex,
-  settings: MeasurementSettings
+  settings: MeasurementSettings,
+  bulge?: number
 ): number {
+  if (bulge) return pixelsToMm(getArcLength(startVertex, endVertex, bulge), settings.pixelsPerMm);
   return calculateRealDistance(startVertex, endVertex, settings.pixelsPerMm);
 }
 
@@ -63,9 +67,10 @@ export function getEdgeLength(
 export function formatEdgeLength(
   startVertex: Vertex,
   endVertex: Vertex,
-  settings: MeasurementSettings
+  settings: MeasurementSettings,
+  bulge?: number
 ): string {
-  const length = getEdgeLength(startVertex, endVertex, settings);
+  const length = getEdgeLength(startVertex, endVertex, settings, bulge);
   return formatMeasurement(length);
 }
 
@@ -0,0 +1,186 @@
+// Doors, windows and plain openings hosted on edges
+
+import type { Edge, Opening, OpeningType } from '../types/spatial';
+import type { SpatialGraph } from './spatialGraph';
+import { getWallOffsets, isSeparator } from './walls';
+import { isArcEdge } from './arcs';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Default clear widths in millimetres
+ */
+export const DEFAULT_OPENING_WIDTHS: Record<OpeningType, number> = {
+  door: 900,
+  window: 1200,
+  opening: 1000,
+};
+
+export const OPENING_TYPE_NAMES: Record<OpeningType, string> = {
+  door: 'Door',
+  window: 'Window',
+  opening: 'Opening',
+};
+
+/**
+ * Where an opening sits in world coordinates
+ */
+export interface OpeningPlacement {
+  /** Jamb on the start-vertex side of the host edge (on the centreline) */
+  start: Point;
+  /** Jamb on the end-vertex side of the host edge (on the centreline) */
+  end: Point;
+  center: Point;
+  /** Unit direction of the host edge */
+  dir: Point;
+  /** Unit left-hand normal of the host edge */
+  normal: Point;
+  /** Width actually drawn, in pixels (clamped to the edge length) */
+  width: number;
+  /** Wall face offsets of the host edge in pixels */
+  left: number;
+  right: number;
+}
+
+/**
+ * Compute where an opening is drawn on its host edge
+ * The opening is kept within the edge, so a wide opening on a short wall
+ * shrinks to the wall length rather than overhanging the vertices.
+ * Returns null if the host edge is missing, has zero length, is a separator or is curved.
+ */
+export function getOpeningPlacement(
+  graph: SpatialGraph,
+  opening: Opening,
+  pixelsPerMm: number
+): OpeningPlacement | null {
+  const edge = graph.getEdge(opening.edgeId);
+  const startVertex = edge && graph.getVertex(edge.startVertexId);
+  const endVertex = edge && graph.getVertex(edge.endVertexId);
+  if (!edge || !startVertex || !endVertex || isSeparator(edge) || isArcEdge(edge)) return null;
+
+  const length = Math.hypot(endVertex.x - startVertex.x, endVertex.y - startVertex.y);
+  if (length === 0) return null;
+
+  const dir = { x: (endVertex.x - startVertex.x) / length, y: (endVertex.y - startVertex.y) / length };
+  const width = Math.min(opening.width * pixelsPerMm, length);
+  const halfRatio = width / 2 / length;
+  const t = Math.min(1 - halfRatio, Math.max(halfRatio, opening.offset));
+
+  const center = { x: startVertex.x + dir.x * length * t, y: startVertex.y + dir.y * length * t };
+  const offsets = getWallOffsets(edge, pixelsPerMm);
+
+  return {
+    start: { x: center.x - (dir.x * width) / 2, y: center.y - (dir.y * width) / 2 },
+    end: { x: center.x + (dir.x * width) / 2, y: center.y + (dir.y * width) / 2 },
+    center,
+    dir,
+    normal: { x: dir.y, y: -dir.x },
+    width,
+    left: offsets.left,
+    right: offsets.right,
+  };
+}
+
+/**
+ * Get the normalized position (0..1) of the point on an edge closest to `point`
+ */
+export function getOffsetAlongEdge(graph: SpatialGraph, edgeId: string, point: Point): number {
+  const edge = graph.getEdge(edgeId);
+  const start = edge && graph.getVertex(edge.startVertexId);
+  const end = edge && graph.getVertex(edge.endVertexId);
+  if (!start || !end) return 0.5;
+
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return 0.5;
+
+  return Math.min(1, Math.max(0, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared));
+}
+
+/**
+ * Re-host an opening on an edge running the other way
+ * Offset, hinge and swing are mirrored so the opening stays put in the world.
+ */
+function reverseOpening(opening: Opening): Opening {
+  const reversed = { ...opening, offset: 1 - opening.offset };
+  if (opening.type !== 'door') return reversed;
+
+  return {
+    ...reversed,
+    hinge: opening.hinge === 'end' ? 'start' : 'end',
+    swing: opening.swing === 'right' ? 'left' : 'right',
+  };
+}
+
+/**
+ * Redistribute the openings of an edge that is split at `t` (0..1) into two edges
+ * Each opening moves to the piece that contains its centre; offsets are rescaled
+ * to the new piece and mirrored if that piece runs against the original direction.
+ */
+export function redistributeOpenings(
+  openings: Opening[],
+  original: Edge,
+  t: number,
+  edge1: Edge,
+  edge2: Edge
+): Opening[] {
+  const touchesStart = (edge: Edge) =>
+    edge.startVertexId === original.startVertexId || edge.endVertexId === original.startVertexId;
+  const [first, second] = touchesStart(edge1) ? [edge1, edge2] : [edge2, edge1];
+
+  return openings.map((opening) => {
+    if (opening.offset <= t) {
+      const moved = { ...opening, edgeId: first.id, offset: t > 0 ? opening.offset / t : 0 };
+      return first.startVertexId === original.startVertexId ? moved : reverseOpening(moved);
+    }
+
+    const moved = { ...opening, edgeId: second.id, offset: t < 1 ? (opening.offset - t) / (1 - t) : 1 };
+    return second.endVertexId === original.endVertexId ? moved : reverseOpening(moved);
+  });
+}
+
+/**
+ * Door symbol geometry: the hinge pivot and the swing arc from the open leaf tip
+ * (arc[0], so the leaf is drawn from pivot to arc[0]) to the closed position
+ */
+export function getDoorSwing(
+  placement: OpeningPlacement,
+  opening: Opening,
+  segments: number = 16
+): { pivot: Point; arc: Point[] } {
+  const hingeAtEnd = opening.hinge === 'end';
+  const side = opening.swing === 'right' ? -1 : 1;
+  const faceOffset = side > 0 ? placement.left : placement.right;
+
+  const hinge = hingeAtEnd ? placement.end : placement.start;
+  const pivot = {
+    x: hinge.x + placement.normal.x * side * faceOffset,
+    y: hinge.y + placement.normal.y * side * faceOffset,
+  };
+
+  // Closed leaf lies along the wall towards the other jamb; the open leaf is perpendicular
+  const closedAngle = Math.atan2(
+    placement.dir.y * (hingeAtEnd ? -1 : 1),
+    placement.dir.x * (hingeAtEnd ? -1 : 1)
+  );
+  const openAngle = Math.atan2(placement.normal.y * side, placement.normal.x * side);
+
+  let sweep = closedAngle - openAngle;
+  if (sweep > Math.PI) sweep -= Math.PI * 2;
+  if (sweep < -Math.PI) sweep += Math.PI * 2;
+
+  const arc: Point[] = [];
+  for (let i = 0; i <= segments; i++) {
+    const angle = openAngle + (sweep * i) / segments;
+    arc.push({
+      x: pivot.x + Math.cos(angle) * placement.width,
+      y: pivot.y + Math.sin(angle) * placement.width,
+    });
+  }
+
+  return { pivot, arc };
+}
@@ -0,0 +1,182 @@
+// Persistent project storage in IndexedDB
+//
+// Each project is one record holding the saved document, its name, timestamps and a
+// thumbnail. A small meta store remembers which project was open last, so unsaved
+// work can be offered for recovery after a reload or crash.
+
+import type { FloorplanDocument } from '../types/document';
+import { generateId } from './geometry';
+
+const DB_NAME = 'vibearchsketch';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const META_STORE = 'meta';
+const LAST_PROJECT_KEY = 'lastProjectId';
+
+export interface ProjectRecord {
+  id: string;
+  name: string;
+  /** Milliseconds since the epoch */
+  createdAt: number;
+  updatedAt: number;
+  document: FloorplanDocument;
+  /** PNG data URL */
+  thumbnail: string | null;
+}
+
+export type ProjectSummary = Omit<ProjectRecord, 'document'>;
+
+export const DEFAULT_PROJECT_NAME = 'Untitled plan';
+
+/**
+ * Name for a copy of a project that doesn't clash with existing names
+ */
+export function getCopyName(name: string, existingNames: Iterable<string>): string {
+  const taken = new Set(existingNames);
+  const base = `${name} (copy)`;
+  if (!taken.has(base)) return base;
+
+  let index = 2;
+  while (taken.has(`${name} (copy ${index})`)) index++;
+  return `${name} (copy ${index})`;
+}
+
+// ==================== IndexedDB plumbing ====================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Allow a retry after a failed open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+
+  return dbPromise;
+}
+
+/**
+ * Run a single request in its own transaction
+ */
+async function run<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// ==================== Projects ====================
+
+/**
+ * List all projects, most recently modified first
+ */
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const records = await run<ProjectRecord[]>(PROJECTS_STORE, 'readonly', (store) => store.getAll());
+
+  return records
+    .map(({ id, name, createdAt, updatedAt, thumbnail }) => ({ id, name, createdAt, updatedAt, thumbnail }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getProject(id: string): Promise<ProjectRecord | undefined> {
+  return run<ProjectRecord | undefined>(PROJECTS_STORE, 'readonly', (store) => store.get(id));
+}
+
+/**
+ * Create or update a project
+ * The creation time of an existing project is kept.
+ */
+export async function saveProject(
+  project: Omit<ProjectRecord, 'createdAt' | 'updatedAt'>,
+  now: number = Date.now()
+): Promise<ProjectRecord> {
+  const existing = await getProject(project.id);
+  const record: ProjectRecord = { ...project, createdAt: existing?.createdAt ?? now, updatedAt: now };
+
+  await run(PROJECTS_STORE, 'readwrite', (store) => store.put(record));
+  return record;
+}
+
+export async function renameProject(id: string, name: string): Promise<void> {
+  const existing = await getProject(id);
+  if (!existing) return;
+
+  await run(PROJECTS_STORE, 'readwrite', (store) => store.put({ ...existing, name, updatedAt: Date.now() }));
+}
+
+/**
+ * Copy a project under a new id and a non-clashing name
+ */
+export async function duplicateProject(id: string): Promise<ProjectRecord | undefined> {
+  const existing = await getProject(id);
+  if (!existing) return undefined;
+
+  const names = (await listProjects()).map((project) => project.name);
+  const now = Date.now();
+  const copy: ProjectRecord = {
+    ...existing,
+    id: generateId(),
+    name: getCopyName(existing.name, names),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await run(PROJECTS_STORE, 'readwrite', (store) => store.put(copy));
+  return copy;
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  await run(PROJECTS_STORE, 'readwrite', (store) => store.delete(id));
+
+  if ((await getLastProjectId()) === id) {
+    await setLastProjectId(null);
+  }
+}
+
+// ==================== Session ====================
+
+/**
+ * The project that was open when the editor was last used
+ */
+export async function getLastProjectId(): Promise<string | null> {
+  const id = await run<string | undefined>(META_STORE, 'readonly', (store) => store.get(LAST_PROJECT_KEY));
+  return id ?? null;
+}
+
+export async function setLastProjectId(id: string | null): Promise<void> {
+  if (id === null) {
+    await run(META_STORE, 'readwrite', (store) => store.delete(LAST_PROJECT_KEY));
+  } else {
+    await run(META_STORE, 'readwrite', (store) => store.put(id, LAST_PROJECT_KEY));
+  }
+}
@@ -1,4 +1,5 @@
-import type { Surface } from '../types/spatial';
+import type { DetectionSettings, Surface } from '../types/spatial';
+import type { SurfaceDetectionOptions } from './spatialGraph';
 
 /**
  * Generates a unique signature for a room based on its edges.
@@ -84,3 +85,14 @@ export function updateRoomIds(
 
   return resultSurfaces;
 }
+
+/**
+ * Convert the user's detection settings to the graph's options at the current scale
+ */
+export function getSurfaceDetectionOptions(settings: DetectionSettings, pixelsPerMm: number): SurfaceDetectionOptions {
+  return {
+    minArea: settings.minRoomArea * 1000000 * pixelsPerMm * pixelsPerMm,
+    ignoreFilaments: settings.ignoreFilaments,
+    includeSeparators: settings.includeVirtualSeparators,
+  };
+}
@@ -0,0 +1,88 @@
+// Outlines for the Rectangle and Polygon room tools
+//
+// A rectangle is given by two opposite corners, or by one corner and a typed size:
+//   4200x3000   width × height in millimetres ('x', '×', '*' or ',' between them)
+// The typed rectangle extends from the corner towards the cursor; a negative size
+// flips it. A regular polygon is given by its centre and one of its corners.
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export interface RectangleSize {
+  width: number;
+  height: number;
+}
+
+/** Fewest and most sides offered by the Polygon tool */
+export const MIN_POLYGON_SIDES = 3;
+export const MAX_POLYGON_SIDES = 24;
+export const DEFAULT_POLYGON_SIDES = 6;
+
+const NUMBER = String.raw`\s*([-+]?(?:\d+\.?\d*|\.\d+))\s*`;
+const SIZE_PATTERN = new RegExp(`^${NUMBER}[x×*,]${NUMBER}$`, 'i');
+
+/**
+ * Parse a typed rectangle size
+ * Returns null for input that isn't a size or would give a rectangle without area.
+ */
+export function parseRectangleSize(text: string): RectangleSize | null {
+  const match = SIZE_PATTERN.exec(text.trim());
+  if (!match) return null;
+
+  const width = Number(match[1]);
+  const height = Number(match[2]);
+  return width !== 0 && height !== 0 ? { width, height } : null;
+}
+
+/**
+ * Corner opposite `corner` for a typed size, on the side of the cursor
+ * When the cursor is level with the corner the rectangle extends right and up.
+ */
+export function resolveRectangleSize(size: RectangleSize, corner: Point, toward: Point, pixelsPerMm: number): Point {
+  const dirX = toward.x < corner.x ? -1 : 1;
+  const dirY = toward.y > corner.y ? 1 : -1;
+  return {
+    x: corner.x + dirX * size.width * pixelsPerMm,
+    y: corner.y + dirY * size.height * pixelsPerMm,
+  };
+}
+
+/**
+ * Snap the free corner of a rectangle so its width and height are multiples of the resolution
+ */
+export function snapRectangleCorner(cursor: Point, corner: Point, resolution: number): Point {
+  if (resolution <= 0) return cursor;
+  return {
+    x: corner.x + Math.round((cursor.x - corner.x) / resolution) * resolution,
+    y: corner.y + Math.round((cursor.y - corner.y) / resolution) * resolution,
+  };
+}
+
+/**
+ * The four corners of the axis-aligned rectangle with opposite corners a and b,
+ * starting at a
+ */
+export function getRectangleCorners(a: Point, b: Point): Point[] {
+  return [
+    { x: a.x, y: a.y },
+    { x: b.x, y: a.y },
+    { x: b.x, y: b.y },
+    { x: a.x, y: b.y },
+  ];
+}
+
+/**
+ * Corners of a regular polygon around `center`, starting at `corner`
+ */
+export function getRegularPolygonCorners(center: Point, corner: Point, sides: number): Point[] {
+  const radius = Math.hypot(corner.x - center.x, corner.y - center.y);
+  const start = Math.atan2(corner.y - center.y, corner.x - center.x);
+
+  return Array.from({ length: sides }, (_, i) => {
+    if (i === 0) return { x: corner.x, y: corner.y };
+    const angle = start + (2 * Math.PI * i) / sides;
+    return { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) };
+  });
+}
@@ -6,29 +6,100 @@
  * concerns from UI rendering and state management.
  */
 
-import type { Vertex, Edge, Surface } from '../types/spatial';
-import { generateId } from './geometry';
+import type { Vertex, Edge, Surface, Opening } from '../types/spatial';
+import { generateId, isPointInPolygon, polygonCentroid } from './geometry';
+import {
+  closestPointOnEdge,
+  getBulgeFrom,
+  getEdgeBounds,
+  getPathArea,
+  getTangentAngle,
+  tessellateEdge,
+  tessellatePath,
+  type PathPoint,
+} from './arcs';
+import { findPoleOfInaccessibility } from './labelPlacement';
 import { updateRoomIds } from './roomDetection';
+import { GridIndex, getSegmentBounds, segmentIntersectsBounds, type Bounds } from './spatialIndex';
+
+// Grid cell size used when the graph has no edges to measure
+const DEFAULT_INDEX_CELL_SIZE = 100;
+
+// Outer faces smaller than this (pixels²) are slivers; the room minimum doesn't apply to them
+const MIN_OUTLINE_AREA = 100;
+
+/**
+ * Wrap an angle into (-π, π], the range of Math.atan2
+ */
+const normalizeAngle = (angle: number): number => {
+  let wrapped = angle;
+  while (wrapped <= -Math.PI) wrapped += 2 * Math.PI;
+  while (wrapped > Math.PI) wrapped -= 2 * Math.PI;
+  return wrapped;
+};
+
+/**
+ * How faces are turned into surfaces; see getSurfaceDetectionOptions for the
+ * conversion from the user's detection settings
+ */
+export interface SurfaceDetectionOptions {
+  /** Faces smaller than this (pixels²) are not rooms */
+  minArea: number;
+  /** Trace faces without dead-end edges, so they don't become part of room boundaries */
+  ignoreFilaments: boolean;
+  /** Let separator edges close rooms; when off, rooms are bounded by walls only */
+  includeSeparators: boolean;
+}
+
+export const DEFAULT_SURFACE_DETECTION_OPTIONS: SurfaceDetectionOptions = {
+  minArea: 100,
+  ignoreFilaments: false,
+  includeSeparators: true,
+};
+
+interface GraphIndex {
+  vertices: GridIndex;
+  edges: GridIndex;
+}
+
+// Faces found by the traversal, before holes are cut out
+interface TracedFaces {
+  /** Clockwise faces: room outlines with their gross area */
+  rooms: Surface[];
+  /** Counter-clockwise faces: the outer boundary of each connected component */
+  outlines: Surface[];
+}
 
 /**
  * SpatialGraph manages the graph data structure
  * - Vertices (Nodes): Points
  * - Edges: Walls connecting points
  * - Cycles: Surfaces (closed paths)
+ * - Openings: Doors and windows hosted on edges
  */
 export class SpatialGraph {
   private vertices: Map<string, Vertex>;
   private edges: Map<string, Edge>;
   private surfaces: Map<string, Surface>;
+  private openings: Map<string, Opening>;
+  // Built on the first spatial query, then kept up to date by every change
+  private index: GraphIndex | null = null;
+  // Edge ids by vertex id, built on first use like the index
+  private incidence: Map<string, Set<string>> | null = null;
+  // Traversal result behind the current surfaces, so an edit only re-traces what it touches
+  private faces: TracedFaces | null = null;
+  private detectionOptions: SurfaceDetectionOptions = { ...DEFAULT_SURFACE_DETECTION_OPTIONS };
 
   constructor(
     vertices?: Map<string, Vertex>,
     edges?: Map<string, Edge>,
-    surfaces?: Map<string, Surface>
+    surfaces?: Map<string, Surface>,
+    openings?: Map<string, Opening>
   ) {
     this.vertices = vertices ? new Map(vertices) : new Map();
     this.edges = edges ? new Map(edges) : new Map();
     this.surfaces = surfaces ? new Map(surfaces) : new Map();
+    this.openings = openings ? new Map(openings) : new Map();
   }
 
   // ==================== Vertex Operations ====================
@@ -37,7 +108,15 @@ export class SpatialGraph {
    * Add a vertex to the graph
    */
   addVertex(vertex: Vertex): void {
+    const existing = this.vertices.get(vertex.id);
     this.vertices.set(vertex.id, vertex);
+
+    if (existing && (existing.x !== vertex.x || existing.y !== vertex.y)) {
+      // Edges of a replaced vertex move with it; rebuild on the next query
+      this.index = null;
+    } else {
+      this.index?.vertices.insert(vertex.id, getSegmentBounds(vertex, vertex));
+    }
   }
 
   /**
@@ -50,22 +129,51 @@ export class SpatialGraph {
     // Find and remove all edges connected to this vertex
     this.edges.forEach((edge, edgeId) => {
       if (edge.startVertexId === vertexId || edge.endVertexId === vertexId) {
-        this.edges.delete(edgeId);
+        this.deleteEdge(edgeId);
+        this.removeOpeningsForEdge(edgeId);
         removedEdgeIds.push(edgeId);
       }
     });
 
     // Remove the vertex
     this.vertices.delete(vertexId);
+    this.index?.vertices.remove(vertexId);
 
     // Update surfaces if any edges were removed
     if (removedEdgeIds.length > 0) {
       this.updateSurfacesAfterEdgeRemoval(removedEdgeIds);
+      this.faces = null;
     }
 
     return removedEdgeIds;
   }
 
+  /**
+   * Move vertices to new positions
+   * Re-detects the surfaces around them once so areas and centroids follow the new
+   * geometry; room IDs and names survive because edge signatures are unchanged
+   */
+  moveVertices(positions: Map<string, { x: number; y: number }>): void {
+    positions.forEach((position, vertexId) => {
+      const vertex = this.vertices.get(vertexId);
+      if (vertex) {
+        this.vertices.set(vertexId, { ...vertex, x: position.x, y: position.y });
+        this.index?.vertices.insert(vertexId, getSegmentBounds(position, position));
+      }
+    });
+
+    if (this.index) {
+      const incidence = this.getIncidence();
+      const edgeIds = new Set<string>();
+      positions.forEach((_, vertexId) => incidence.get(vertexId)?.forEach(edgeId => edgeIds.add(edgeId)));
+      edgeIds.forEach(edgeId => this.indexEdge(this.edges.get(edgeId)!));
+    }
+
+    if (this.surfaces.size > 0 || this.edges.size > 0) {
+      this.updateSurfacesAround(positions.keys());
+    }
+  }
+
   /**
    * Get a vertex by ID
    */
@@ -91,16 +199,7 @@ export class SpatialGraph {
    * Find vertices near a given position
    */
   findNearbyVertices(x: number, y: number, radius: number): Vertex[] {
-    const nearby: Vertex[] = [];
-    this.vertices.forEach(vertex => {
-      const dx = vertex.x - x;
-      const dy = vertex.y - y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-      if (distance <= radius) {
-        nearby.push(vertex);
-      }
-    });
-    return nearby;
+    return this.queryRadius(x, y, radius);
   }
 
   // ==================== Edge Operations ====================
@@ -110,10 +209,10 @@ export class SpatialGraph {
    * Automatically detects and updates surfaces
    */
   addEdge(edge: Edge): Surface[] {
-    this.edges.set(edge.id, edge);
+    this.putEdge(edge);
     
-    // Detect new surfaces after adding the edge using our internal algorithm
-    return this.detectAllSurfaces();
+    // Detect new surfaces in the component the edge joins
+    return this.updateSurfacesAround([edge.startVertexId, edge.endVertexId]);
   }
 
   /**
@@ -121,11 +220,11 @@ export class SpatialGraph {
    * Does NOT trigger surface detection
    */
   restoreEdge(edge: Edge): void {
-    this.edges.set(edge.id, edge);
+    this.putEdge(edge);
   }
 
   /**
-   * Remove an edge from the graph
+   * Remove an edge from the graph, along with any openings it hosts
    * Returns affected surfaces for undo purposes
    */
   removeEdge(edgeId: string): Map<string, Surface> {
@@ -135,19 +234,38 @@ export class SpatialGraph {
     this.surfaces.forEach((surface, surfaceId) => {
       if (surface.edgeIds.includes(edgeId)) {
         affectedSurfaces.set(surfaceId, surface);
-        // We don't need to delete here, detectAllSurfaces will replace the map
+        // We don't need to delete here, re-detection replaces them
       }
     });
 
     // Remove the edge
-    this.edges.delete(edgeId);
+    const edge = this.edges.get(edgeId);
+    this.deleteEdge(edgeId);
+    this.removeOpeningsForEdge(edgeId);
 
-    // Re-detect all surfaces to handle merges/changes
-    this.detectAllSurfaces();
+    // Re-detect the surfaces on either side to handle merges/changes
+    if (edge) {
+      this.updateSurfacesAround([edge.startVertexId, edge.endVertexId]);
+    }
 
     return affectedSurfaces;
   }
 
+  /**
+   * Update an edge's wall properties
+   * Topology is unchanged, so surfaces are not re-detected; a caller changing the
+   * bulge reshapes rooms and should re-detect them with updateSurfacesAround
+   */
+  updateEdge(edgeId: string, updates: Partial<Omit<Edge, 'id' | 'startVertexId' | 'endVertexId'>>): Edge | undefined {
+    const edge = this.edges.get(edgeId);
+    if (!edge) return undefined;
+
+    const updated = { ...edge, ...updates };
+    this.edges.set(edgeId, updated);
+    if (updated.bulge !== edge.bulge) this.indexEdge(updated);
+    return edge; // Return old edge for undo
+  }
+
   /**
    * Get an edge by ID
    */
@@ -212,6 +330,129 @@ export class SpatialGraph {
     return undefined;
   }
 
+  // ==================== Spatial Queries ====================
+
+  /**
+   * Find the vertices within a radius of a point, nearest first
+   */
+  queryRadius(x: number, y: number, radius: number): Vertex[] {
+    const point = { x, y };
+    return this.getIndex()
+      .vertices.search(getSegmentBounds(point, point, radius))
+      .map(id => this.vertices.get(id)!)
+      .map(vertex => ({ vertex, distance: Math.hypot(vertex.x - x, vertex.y - y) }))
+      .filter(({ distance }) => distance <= radius)
+      .sort((a, b) => a.distance - b.distance)
+      .map(({ vertex }) => vertex);
+  }
+
+  /**
+   * Find the vertices inside a rectangle and the edges that touch it
+   */
+  queryRect(bounds: Bounds): { vertices: Vertex[]; edges: Edge[] } {
+    const index = this.getIndex();
+
+    const vertices = index.vertices
+      .search(bounds)
+      .map(id => this.vertices.get(id)!);
+
+    const edges = index.edges
+      .search(bounds)
+      .map(id => this.edges.get(id)!)
+      .filter(edge => {
+        const points = this.getEdgePoints(edge.id);
+        return points.some((point, i) => i > 0 && segmentIntersectsBounds(points[i - 1], point, bounds));
+      });
+
+    return { vertices, edges };
+  }
+
+  /**
+   * Find the edge closest to a point, if any lies within maxDistance
+   * Also returns the closest point on the edge and its position t (0..1) along it.
+   */
+  nearestEdge(
+    x: number,
+    y: number,
+    maxDistance: number
+  ): { edge: Edge; distance: number; point: { x: number; y: number }; t: number } | null {
+    const point = { id: '', x, y };
+    let nearest: { edge: Edge; distance: number; point: { x: number; y: number }; t: number } | null = null;
+
+    this.getIndex()
+      .edges.search(getSegmentBounds(point, point, maxDistance))
+      .forEach(id => {
+        const edge = this.edges.get(id)!;
+        const start = this.vertices.get(edge.startVertexId)!;
+        const end = this.vertices.get(edge.endVertexId)!;
+
+        const closest = closestPointOnEdge(point, start, end, edge.bulge);
+        if (closest.distance <= maxDistance && (!nearest || closest.distance < nearest.distance)) {
+          nearest = { edge, ...closest };
+        }
+      });
+
+    return nearest;
+  }
+
+  // ==================== Opening Operations ====================
+
+  /**
+   * Add an opening to the graph
+   * Openings only change how their host edge is drawn, so surfaces are not re-detected
+   */
+  addOpening(opening: Opening): void {
+    this.openings.set(opening.id, opening);
+  }
+
+  /**
+   * Remove an opening from the graph
+   */
+  removeOpening(openingId: string): Opening | undefined {
+    const opening = this.openings.get(openingId);
+    this.openings.delete(openingId);
+    return opening;
+  }
+
+  /**
+   * Update an opening's properties
+   */
+  updateOpening(openingId: string, updates: Partial<Omit<Opening, 'id'>>): Opening | undefined {
+    const opening = this.openings.get(openingId);
+    if (!opening) return undefined;
+
+    this.openings.set(openingId, { ...opening, ...updates });
+    return opening; // Return old opening for undo
+  }
+
+  /**
+   * Get an opening by ID
+   */
+  getOpening(openingId: string): Opening | undefined {
+    return this.openings.get(openingId);
+  }
+
+  /**
+   * Get all openings
+   */
+  getOpenings(): Map<string, Opening> {
+    return new Map(this.openings);
+  }
+
+  /**
+   * Check if an opening exists
+   */
+  hasOpening(openingId: string): boolean {
+    return this.openings.has(openingId);
+  }
+
+  /**
+   * Get all openings hosted on an edge
+   */
+  getOpeningsForEdge(edgeId: string): Opening[] {
+    return Array.from(this.openings.values()).filter(opening => opening.edgeId === edgeId);
+  }
+
   // ==================== Surface Operations ====================
 
   /**
@@ -219,6 +460,7 @@ export class SpatialGraph {
    */
   addSurface(surface: Surface): void {
     this.surfaces.set(surface.id, surface);
+    this.faces = null;
   }
 
   /**
@@ -227,6 +469,7 @@ export class SpatialGraph {
   removeSurface(surfaceId: string): Surface | undefined {
     const surface = this.surfaces.get(surfaceId);
     this.surfaces.delete(surfaceId);
+    this.faces = null;
     return surface;
   }
 
@@ -675,22 +918,175 @@ export class SpatialGraph {
     return containingSurfaces;
   }
 
+  /**
+   * Get the ordered boundary vertices of a surface
+   * Walks the surface's edge loop; returns an empty array if the loop is broken
+   */
+  getSurfacePolygon(surfaceId: string): Vertex[] {
+    const surface = this.surfaces.get(surfaceId);
+    return surface ? this.getLoopPolygon(surface.edgeIds) : [];
+  }
+
+  /**
+   * Get the ordered boundary vertices of each hole in a surface
+   * In the same order as `surface.holes`; a hole whose loop is broken comes back empty
+   */
+  getSurfaceHoles(surfaceId: string): Vertex[][] {
+    const surface = this.surfaces.get(surfaceId);
+    return (surface?.holes ?? []).map(edgeIds => this.getLoopPolygon(edgeIds));
+  }
+
+  /**
+   * Get the outline of a surface with its curved walls split into straight pieces
+   */
+  getSurfaceBoundary(surfaceId: string): Array<{ x: number; y: number }> {
+    return tessellatePath(this.getSurfacePath(surfaceId));
+  }
+
+  /**
+   * Get the outlines of the holes in a surface, with curved walls split into straight pieces
+   */
+  getSurfaceHoleBoundaries(surfaceId: string): Array<Array<{ x: number; y: number }>> {
+    return this.getSurfaceHolePaths(surfaceId).map(path => tessellatePath(path));
+  }
+
+  /**
+   * Get the boundary vertices of a surface, each with the bulge of the edge to the next
+   */
+  getSurfacePath(surfaceId: string): PathPoint[] {
+    const surface = this.surfaces.get(surfaceId);
+    return surface ? this.getLoopPath(surface.edgeIds) : [];
+  }
+
+  /**
+   * Get the boundary vertices of each hole in a surface, each with the bulge of the edge to the next
+   */
+  getSurfaceHolePaths(surfaceId: string): PathPoint[][] {
+    const surface = this.surfaces.get(surfaceId);
+    return (surface?.holes ?? []).map(edgeIds => this.getLoopPath(edgeIds));
+  }
+
+  /**
+   * Get the points along an edge from its start to its end vertex
+   * Straight edges give their two vertices; arcs are split into short straight pieces.
+   */
+  getEdgePoints(edgeId: string): Array<{ x: number; y: number }> {
+    const edge = this.edges.get(edgeId);
+    const start = edge && this.vertices.get(edge.startVertexId);
+    const end = edge && this.vertices.get(edge.endVertexId);
+    if (!edge || !start || !end) return [];
+
+    return [{ x: start.x, y: start.y }, ...tessellateEdge(start, end, edge.bulge)];
+  }
+
+  /**
+   * Walk a closed loop of edges and pair each vertex with the bulge towards the next
+   */
+  private getLoopPath(edgeIds: string[]): PathPoint[] {
+    return this.toPath(this.getLoopPolygon(edgeIds), edgeIds);
+  }
+
+  /**
+   * Pair the vertices of a loop with the bulges of its edges; edge i runs from vertex i
+   */
+  private toPath(polygon: Vertex[], edgeIds: string[]): PathPoint[] {
+    return polygon.map((vertex, i) => {
+      const edge = this.edges.get(edgeIds[i]);
+      const bulge = edge ? getBulgeFrom(edge, vertex.id) : 0;
+      return bulge ? { x: vertex.x, y: vertex.y, bulge } : { x: vertex.x, y: vertex.y };
+    });
+  }
+
+  /**
+   * Walk a closed loop of edges and return its vertices in order
+   * Returns an empty array if the loop is broken
+   */
+  private getLoopPolygon(edgeIds: string[]): Vertex[] {
+    if (edgeIds.length === 0) return [];
+
+    const edges = edgeIds.map(edgeId => this.edges.get(edgeId));
+    if (edges.some(edge => !edge)) return [];
+
+    const first = edges[0]!;
+
+    // Either endpoint of the first edge may be the loop start, try both
+    for (const startId of [first.startVertexId, first.endVertexId]) {
+      const path: string[] = [];
+      let currentId = startId;
+      let valid = true;
+
+      for (const edge of edges) {
+        path.push(currentId);
+        if (edge!.startVertexId === currentId) {
+          currentId = edge!.endVertexId;
+        } else if (edge!.endVertexId === currentId) {
+          currentId = edge!.startVertexId;
+        } else {
+          valid = false;
+          break;
+        }
+      }
+
+      if (valid && currentId === startId) {
+        const polygon = path.map(vertexId => this.vertices.get(vertexId));
+        return polygon.every(vertex => vertex) ? (polygon as Vertex[]) : [];
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Resolve a mixed list of vertex, edge and surface IDs to the vertices they touch
+   */
+  getVertexIdsForElements(ids: Iterable<string>): Set<string> {
+    const vertexIds = new Set<string>();
+
+    for (const id of ids) {
+      if (this.vertices.has(id)) {
+        vertexIds.add(id);
+        continue;
+      }
+
+      const edge = this.edges.get(id);
+      if (edge) {
+        vertexIds.add(edge.startVertexId);
+        vertexIds.add(edge.endVertexId);
+        continue;
+      }
+
+      this.getSurfacePolygon(id).forEach(vertex => vertexIds.add(vertex.id));
+    }
+
+    return vertexIds;
+  }
+
   // ==================== Graph-Wide Operations ====================
 
   /**
    * Clear all data from the graph
    * Returns the previous state for undo
    */
-  clear(): { vertices: Map<string, Vertex>; edges: Map<string, Edge>; surfaces: Map<string, Surface> } {
+  clear(): {
+    vertices: Map<string, Vertex>;
+    edges: Map<string, Edge>;
+    surfaces: Map<string, Surface>;
+    openings: Map<string, Opening>;
+  } {
     const previousState = {
       vertices: new Map(this.vertices),
       edges: new Map(this.edges),
       surfaces: new Map(this.surfaces),
+      openings: new Map(this.openings),
     };
 
     this.vertices.clear();
     this.edges.clear();
     this.surfaces.clear();
+    this.openings.clear();
+    this.index = null;
+    this.incidence = null;
+    this.faces = null;
 
     return previousState;
   }
@@ -701,11 +1097,16 @@ export class SpatialGraph {
   restore(
     vertices: Map<string, Vertex>,
     edges: Map<string, Edge>,
-    surfaces: Map<string, Surface>
+    surfaces: Map<string, Surface>,
+    openings: Map<string, Opening> = this.openings
   ): void {
     this.vertices = new Map(vertices);
     this.edges = new Map(edges);
     this.surfaces = new Map(surfaces);
+    this.openings = new Map(openings);
+    this.index = null;
+    this.incidence = null;
+    this.faces = null;
   }
 
   /**
@@ -723,11 +1124,23 @@ export class SpatialGraph {
    * Create a deep copy of this graph
    */
   clone(): SpatialGraph {
-    return new SpatialGraph(
+    const copy = new SpatialGraph(
       new Map(this.vertices),
       new Map(this.edges),
-      new Map(this.surfaces)
+      new Map(this.surfaces),
+      new Map(this.openings)
     );
+    if (this.index) {
+      copy.index = { vertices: this.index.vertices.clone(), edges: this.index.edges.clone() };
+    }
+    if (this.incidence) {
+      copy.incidence = new Map(Array.from(this.incidence, ([vertexId, edgeIds]) => [vertexId, new Set(edgeIds)]));
+    }
+    if (this.faces) {
+      copy.faces = { rooms: [...this.faces.rooms], outlines: [...this.faces.outlines] };
+    }
+    copy.detectionOptions = { ...this.detectionOptions };
+    return copy;
   }
 
   /**
@@ -737,11 +1150,13 @@ export class SpatialGraph {
     vertices: Vertex[];
     edges: Edge[];
     surfaces: Surface[];
+    openings: Opening[];
   } {
     return {
       vertices: Array.from(this.vertices.values()),
       edges: Array.from(this.edges.values()),
       surfaces: Array.from(this.surfaces.values()),
+      openings: Array.from(this.openings.values()),
     };
   }
 
@@ -752,11 +1167,13 @@ export class SpatialGraph {
     vertices: Vertex[];
     edges: Edge[];
     surfaces: Surface[];
+    openings?: Opening[];
   }): SpatialGraph {
     const vertices = new Map(data.vertices.map(p => [p.id, p]));
     const edges = new Map(data.edges.map(w => [w.id, w]));
     const surfaces = new Map(data.surfaces.map(r => [r.id, r]));
-    return new SpatialGraph(vertices, edges, surfaces);
+    const openings = new Map((data.openings ?? []).map(o => [o.id, o]));
+    return new SpatialGraph(vertices, edges, surfaces, openings);
   }
 
   // ==================== Advanced Graph Operations ====================
@@ -807,16 +1224,84 @@ export class SpatialGraph {
     return isolated;
   }
 
+  /**
+   * Re-detect the surfaces of the connected components containing the given vertices
+   * A face never spans two components, so surfaces elsewhere are kept as they are
+   * and the result matches detectAllSurfaces, as long as those were up to date.
+   * Returns all surfaces, like detectAllSurfaces.
+   */
+  updateSurfacesAround(vertexIds: Iterable<string>): Surface[] {
+    // Surfaces that were loaded or edited directly have no traversal behind them
+    if (!this.faces) return this.detectAllSurfaces();
+
+    const affectedEdgeIds = this.collectComponentEdges(vertexIds);
+
+    // Faces outside the affected components; ones that lost an edge go too
+    const isKept = (face: Surface) =>
+      face.edgeIds.every(edgeId => this.edges.has(edgeId) && !affectedEdgeIds.has(edgeId));
+    const traced = this.runPlanarFaceTraversal(affectedEdgeIds);
+
+    return this.publishSurfaces({
+      rooms: [...this.faces.rooms.filter(isKept), ...traced.rooms],
+      outlines: [...this.faces.outlines.filter(isKept), ...traced.outlines],
+    });
+  }
+
+  /**
+   * Ids of all edges in the connected components containing the given vertices
+   */
+  private collectComponentEdges(vertexIds: Iterable<string>): Set<string> {
+    const incidence = this.getIncidence();
+    const edgeIds = new Set<string>();
+    const visited = new Set<string>();
+    const stack = Array.from(vertexIds);
+
+    while (stack.length > 0) {
+      const vertexId = stack.pop()!;
+      if (visited.has(vertexId)) continue;
+      visited.add(vertexId);
+
+      incidence.get(vertexId)?.forEach(edgeId => {
+        if (edgeIds.has(edgeId)) return;
+        edgeIds.add(edgeId);
+
+        const edge = this.edges.get(edgeId)!;
+        stack.push(edge.startVertexId === vertexId ? edge.endVertexId : edge.startVertexId);
+      });
+    }
+
+    return edgeIds;
+  }
+
+  getDetectionOptions(): SurfaceDetectionOptions {
+    return { ...this.detectionOptions };
+  }
+
+  /**
+   * Change how surfaces are detected and re-detect all of them
+   */
+  setDetectionOptions(options: Partial<SurfaceDetectionOptions>): Surface[] {
+    this.detectionOptions = { ...this.detectionOptions, ...options };
+    return this.detectAllSurfaces();
+  }
+
   /**
    * Detect all surfaces (rooms) in the graph
    * Replaces existing surfaces with newly detected ones
    */
   detectAllSurfaces(): Surface[] {
-    const detectedSurfaces = this.runPlanarFaceTraversal();
-    
+    return this.publishSurfaces(this.runPlanarFaceTraversal());
+  }
+
+  /**
+   * Cut holes into the traced rooms and replace the surfaces with them
+   */
+  private publishSurfaces(faces: TracedFaces): Surface[] {
+    this.faces = faces;
+
     // Use the new room detection logic to preserve IDs and properties
-    const updatedSurfaces = updateRoomIds(detectedSurfaces, this.surfaces);
-    
+    const updatedSurfaces = updateRoomIds(this.applyHoles(faces), this.surfaces);
+
     // Update the internal map
     this.surfaces = new Map();
     updatedSurfaces.forEach(surface => {
@@ -826,36 +1311,113 @@ export class SpatialGraph {
     return updatedSurfaces;
   }
 
+  /**
+   * Turn every component outline lying inside a room into a hole of that room
+   * An island nested in several rooms belongs to the smallest one. The room's
+   * area and centroid exclude its holes and its label is placed clear of them.
+   */
+  private applyHoles(faces: TracedFaces): Surface[] {
+    const holesByRoom = new Map<Surface, Surface[]>();
+    const polygons = new Map<Surface, Array<{ x: number; y: number }>>();
+    const getPolygon = (room: Surface) => {
+      let polygon = polygons.get(room);
+      if (!polygon) {
+        polygon = tessellatePath(this.getLoopPath(room.edgeIds));
+        polygons.set(room, polygon);
+      }
+      return polygon;
+    };
+
+    faces.outlines.forEach(outline => {
+      const point = this.getLoopPolygon(outline.edgeIds)[0];
+      if (!point) return;
+
+      // Rooms of the island's own component share edges with its outline
+      const outlineEdgeIds = new Set(outline.edgeIds);
+      let host: Surface | null = null;
+      for (const room of faces.rooms) {
+        if (room.area <= outline.area || (host && room.area >= host.area)) continue;
+        if (room.edgeIds.some(edgeId => outlineEdgeIds.has(edgeId))) continue;
+        if (isPointInPolygon(point, getPolygon(room))) host = room;
+      }
+
+      if (host) {
+        holesByRoom.set(host, [...(holesByRoom.get(host) ?? []), outline]);
+      }
+    });
+
+    return faces.rooms.map(room => {
+      const holes = holesByRoom.get(room);
+      if (!holes) return room;
+
+      const area = holes.reduce((sum, hole) => sum - hole.area, room.area);
+      const moment = holes.reduce(
+        (sum, hole) => ({ x: sum.x - hole.area * hole.centroid.x, y: sum.y - hole.area * hole.centroid.y }),
+        { x: room.area * room.centroid.x, y: room.area * room.centroid.y }
+      );
+
+      const label = findPoleOfInaccessibility(
+        getPolygon(room),
+        holes.map(hole => tessellatePath(this.getLoopPath(hole.edgeIds)))
+      );
+
+      return {
+        ...room,
+        area,
+        centroid: area > 0 ? { x: moment.x / area, y: moment.y / area } : room.centroid,
+        labelPosition: { x: label.x, y: label.y },
+        holes: holes.map(hole => hole.edgeIds),
+      };
+    });
+  }
+
   /**
    * Internal algorithm to detect closed rooms (surfaces)
    * Uses the planar face traversal algorithm (Right-Hand Rule)
    */
-  private runPlanarFaceTraversal(): Surface[] {
+  private runPlanarFaceTraversal(edgeIds?: Set<string>): TracedFaces {
     const surfaces: Surface[] = [];
-    const visitedEdges = new Set<string>(); // Stores "u->v" keys
+    const outlines: Surface[] = [];
+    const visitedEdges = new Set<string>(); // Stores "edgeId:fromVertexId" keys
+    const toPath = (polygon: Vertex[], loopEdgeIds: string[]) => this.toPath(polygon, loopEdgeIds);
+
+    const { minArea, ignoreFilaments, includeSeparators } = this.detectionOptions;
+
+    // Only the given edges are traced, still in graph order so the result is the
+    // same as a full traversal restricted to them
+    let edges = edgeIds
+      ? Array.from(this.edges.values()).filter(edge => edgeIds.has(edge.id))
+      : Array.from(this.edges.values());
+    if (!includeSeparators) {
+      edges = edges.filter(edge => edge.kind !== 'separator');
+    }
+    if (ignoreFilaments) {
+      const filaments = this.findFilamentEdges(edges);
+      edges = edges.filter(edge => !filaments.has(edge.id));
+    }
 
     // 1. Build adjacency list with angles
+    // Arcs leave a vertex along their tangent, so they are sorted by that rather than
+    // by the direction to the neighbour; two edges may join the same pair of vertices
     // Map<vertexId, Array<{ neighborId: string, angle: number, edgeId: string }>>
     const adjacency = new Map<string, Array<{ neighborId: string; angle: number; edgeId: string }>>();
 
-    // Initialize adjacency for all vertices
-    this.vertices.forEach((v) => {
-      adjacency.set(v.id, []);
-    });
-
     // Populate adjacency
-    this.edges.forEach((edge) => {
+    edges.forEach((edge) => {
       const v1 = this.vertices.get(edge.startVertexId);
       const v2 = this.vertices.get(edge.endVertexId);
 
       if (v1 && v2) {
+        if (!adjacency.has(v1.id)) adjacency.set(v1.id, []);
+        if (!adjacency.has(v2.id)) adjacency.set(v2.id, []);
+
         // Edge v1 -> v2
-        const angle1 = Math.atan2(v2.y - v1.y, v2.x - v1.x);
-        adjacency.get(v1.id)?.push({ neighborId: v2.id, angle: angle1, edgeId: edge.id });
+        const angle1 = normalizeAngle(getTangentAngle(v1, v2, edge.bulge));
+        adjacency.get(v1.id)!.push({ neighborId: v2.id, angle: angle1, edgeId: edge.id });
 
         // Edge v2 -> v1
-        const angle2 = Math.atan2(v1.y - v2.y, v1.x - v2.x);
-        adjacency.get(v2.id)?.push({ neighborId: v1.id, angle: angle2, edgeId: edge.id });
+        const angle2 = normalizeAngle(getTangentAngle(v2, v1, -(edge.bulge ?? 0)));
+        adjacency.get(v2.id)!.push({ neighborId: v1.id, angle: angle2, edgeId: edge.id });
       }
     });
 
@@ -865,21 +1427,21 @@ export class SpatialGraph {
     });
 
     // 2. Traverse graph to find faces
-    this.edges.forEach((edge) => {
+    edges.forEach((edge) => {
       // Try traversing from both directions
       traverse(edge.startVertexId, edge.endVertexId, edge.id, this.vertices);
       traverse(edge.endVertexId, edge.startVertexId, edge.id, this.vertices);
     });
 
     function traverse(startId: string, nextId: string, firstEdgeId: string, vertices: Map<string, Vertex>) {
-      const key = `${startId}->${nextId}`;
+      const key = `${firstEdgeId}:${startId}`;
       if (visitedEdges.has(key)) return;
 
       const path: string[] = [startId]; // Vertex IDs
       const edgeIds: string[] = [firstEdgeId];
       
       let currId = nextId;
-      let prevId = startId;
+      let prevEdgeId = firstEdgeId;
 
       visitedEdges.add(key);
 
@@ -889,7 +1451,7 @@ export class SpatialGraph {
         const neighbors = adjacency.get(currId);
         if (!neighbors || neighbors.length === 0) return; // Dead end
 
-        const incomingIndex = neighbors.findIndex(n => n.neighborId === prevId);
+        const incomingIndex = neighbors.findIndex(n => n.edgeId === prevEdgeId);
         if (incomingIndex === -1) return; // Should not happen
 
         // Select the next edge in the sorted list (wrapping around)
@@ -907,7 +1469,7 @@ export class SpatialGraph {
         const nextNeighbor = neighbors[nextIndex];
         
         // Mark as visited
-        const nextKey = `${currId}->${nextNeighbor.neighborId}`;
+        const nextKey = `${nextNeighbor.edgeId}:${currId}`;
         if (visitedEdges.has(nextKey)) {
           // We ran into a visited edge but haven't closed the loop to startId.
           // This implies a figure-8 or merging into another loop.
@@ -918,22 +1480,15 @@ export class SpatialGraph {
 
         edgeIds.push(nextNeighbor.edgeId);
         
-        prevId = currId;
+        prevEdgeId = nextNeighbor.edgeId;
         currId = nextNeighbor.neighborId;
       }
 
       // Loop closed
       // Calculate area to determine if it's a valid room (and not the outer face)
-      // Use Shoelace formula
-      let area = 0;
-      for (let i = 0; i < path.length; i++) {
-        const v1 = vertices.get(path[i]);
-        const v2 = vertices.get(path[(i + 1) % path.length]);
-        if (v1 && v2) {
-          area += (v1.x * v2.y) - (v2.x * v1.y);
-        }
-      }
-      area = area / 2;
+      // Use Shoelace formula, plus the circular segments of any arcs
+      const loop = toPath(path.map(vertexId => vertices.get(vertexId)!), edgeIds);
+      const area = getPathArea(loop);
 
       // In screen coords (Y-down):
       // CW winding (standard room) -> Positive Area?
@@ -948,31 +1503,61 @@ export class SpatialGraph {
       // If we picked the "rightmost" turn (index - 1), we should be tracing CW faces (interiors).
       // The outer face would be traced CCW and have negative area.
       
-      if (area > 100) { // Minimum area threshold
-        // Calculate centroid
-        let cx = 0;
-        let cy = 0;
-        for (let i = 0; i < path.length; i++) {
-          const v = vertices.get(path[i]);
-          if (v) {
-            cx += v.x;
-            cy += v.y;
-          }
+      // Faces below the minimum area threshold either way are slivers. Outlines keep
+      // the fixed threshold so a raised room minimum doesn't drop holes
+      if (Math.abs(area) > (area > 0 ? minArea : MIN_OUTLINE_AREA)) {
+        const polygon = tessellatePath(loop);
+        const centroid = polygonCentroid(polygon);
+
+        // The outer face of a component is traced the other way round
+        if (area < 0) {
+          outlines.push({ id: generateId(), edgeIds, area: -area, name: '', centroid });
+          return;
         }
-        cx /= path.length;
-        cy /= path.length;
 
+        const label = findPoleOfInaccessibility(polygon);
         surfaces.push({
           id: generateId(),
           edgeIds: edgeIds,
           area: area,
           name: `Room ${surfaces.length + 1}`,
-          centroid: { x: cx, y: cy }
+          centroid,
+          labelPosition: { x: label.x, y: label.y },
         });
       }
     }
 
-    return surfaces;
+    return { rooms: surfaces, outlines };
+  }
+
+  /**
+   * Ids of the dead-end edges among the given ones
+   * Repeatedly strips edges with a free end, so whole dangling chains are found.
+   */
+  private findFilamentEdges(edges: Edge[]): Set<string> {
+    const incident = new Map<string, Edge[]>();
+    edges.forEach(edge => {
+      [edge.startVertexId, edge.endVertexId].forEach(vertexId => {
+        incident.set(vertexId, [...(incident.get(vertexId) ?? []), edge]);
+      });
+    });
+
+    const filaments = new Set<string>();
+    const degree = (vertexId: string) =>
+      (incident.get(vertexId) ?? []).filter(edge => !filaments.has(edge.id)).length;
+    const stack = Array.from(incident.keys()).filter(vertexId => degree(vertexId) === 1);
+
+    while (stack.length > 0) {
+      const vertexId = stack.pop()!;
+      const edge = incident.get(vertexId)!.find(e => !filaments.has(e.id));
+      if (!edge) continue;
+
+      filaments.add(edge.id);
+      const otherId = edge.startVertexId === vertexId ? edge.endVertexId : edge.startVertexId;
+      if (degree(otherId) === 1) stack.push(otherId);
+    }
+
+    return filaments;
   }
 
   /**
@@ -1001,11 +1586,128 @@ export class SpatialGraph {
       });
     });
 
+    // Check that all openings sit on an existing edge
+    this.openings.forEach((opening, openingId) => {
+      if (!this.edges.has(opening.edgeId)) {
+        issues.push(`Opening ${openingId} references missing edge ${opening.edgeId}`);
+      }
+    });
+
     return issues;
   }
 
   // ==================== Private Helper Methods ====================
 
+  /**
+   * Add or replace an edge, keeping the incidence map and spatial index in step
+   */
+  private putEdge(edge: Edge): void {
+    const previous = this.edges.get(edge.id);
+    if (previous) this.unlinkEdge(previous);
+
+    this.edges.set(edge.id, edge);
+    this.linkEdge(edge);
+    this.indexEdge(edge);
+  }
+
+  /**
+   * Remove an edge, keeping the incidence map and spatial index in step
+   * Surfaces and openings are left to the caller.
+   */
+  private deleteEdge(edgeId: string): void {
+    const edge = this.edges.get(edgeId);
+    if (!edge) return;
+
+    this.edges.delete(edgeId);
+    this.unlinkEdge(edge);
+    this.index?.edges.remove(edgeId);
+  }
+
+  private getIncidence(): Map<string, Set<string>> {
+    if (!this.incidence) {
+      this.incidence = new Map();
+      this.edges.forEach(edge => this.linkEdge(edge));
+    }
+
+    return this.incidence;
+  }
+
+  private linkEdge(edge: Edge): void {
+    if (!this.incidence) return;
+
+    [edge.startVertexId, edge.endVertexId].forEach(vertexId => {
+      let edgeIds = this.incidence!.get(vertexId);
+      if (!edgeIds) {
+        edgeIds = new Set();
+        this.incidence!.set(vertexId, edgeIds);
+      }
+      edgeIds.add(edge.id);
+    });
+  }
+
+  private unlinkEdge(edge: Edge): void {
+    if (!this.incidence) return;
+
+    [edge.startVertexId, edge.endVertexId].forEach(vertexId => {
+      const edgeIds = this.incidence!.get(vertexId);
+      edgeIds?.delete(edge.id);
+      if (edgeIds?.size === 0) this.incidence!.delete(vertexId);
+    });
+  }
+
+  /**
+   * The spatial index, built from the current geometry on first use
+   * Cells are sized to the average edge so a typical query touches only a few.
+   */
+  private getIndex(): GraphIndex {
+    if (!this.index) {
+      let total = 0;
+      this.edges.forEach(edge => {
+        const start = this.vertices.get(edge.startVertexId);
+        const end = this.vertices.get(edge.endVertexId);
+        if (start && end) total += Math.max(Math.abs(end.x - start.x), Math.abs(end.y - start.y));
+      });
+      const cellSize = total > 0 ? total / this.edges.size : DEFAULT_INDEX_CELL_SIZE;
+
+      this.index = { vertices: new GridIndex(cellSize), edges: new GridIndex(cellSize) };
+      this.vertices.forEach(vertex => this.index!.vertices.insert(vertex.id, getSegmentBounds(vertex, vertex)));
+      this.edges.forEach(edge => {
+        const start = this.vertices.get(edge.startVertexId);
+        const end = this.vertices.get(edge.endVertexId);
+        if (start && end) this.index!.edges.insert(edge.id, getEdgeBounds(start, end, edge.bulge));
+      });
+    }
+
+    return this.index;
+  }
+
+  /**
+   * Add or move an edge in the spatial index, if it has been built
+   * An edge added before its vertices can't be located yet; rebuild on the next query.
+   */
+  private indexEdge(edge: Edge): void {
+    if (!this.index) return;
+
+    const start = this.vertices.get(edge.startVertexId);
+    const end = this.vertices.get(edge.endVertexId);
+    if (start && end) {
+      this.index.edges.insert(edge.id, getEdgeBounds(start, end, edge.bulge));
+    } else {
+      this.index = null;
+    }
+  }
+
+  /**
+   * Remove the openings hosted on an edge
+   */
+  private removeOpeningsForEdge(edgeId: string): void {
+    this.openings.forEach((opening, openingId) => {
+      if (opening.edgeId === edgeId) {
+        this.openings.delete(openingId);
+      }
+    });
+  }
+
   /**
    * Update surfaces after edges are removed
    */
@@ -0,0 +1,171 @@
+// Uniform grid index for fast spatial queries
+//
+// Items are stored by their axis-aligned bounds in every grid cell they overlap, so
+// a query only looks at the items in the cells it covers instead of the whole plan.
+// SpatialGraph keeps one index for vertices and one for edges.
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Items covering more cells than this are kept in a list checked by every query
+const MAX_CELLS_PER_ITEM = 256;
+
+export class GridIndex {
+  private cellSize: number;
+  private cells: Map<string, Set<string>>;
+  private bounds: Map<string, Bounds>;
+  private oversized: Set<string>;
+
+  constructor(cellSize: number) {
+    this.cellSize = cellSize > 0 && Number.isFinite(cellSize) ? cellSize : 1;
+    this.cells = new Map();
+    this.bounds = new Map();
+    this.oversized = new Set();
+  }
+
+  get size(): number {
+    return this.bounds.size;
+  }
+
+  /**
+   * Add an item, or move it if it is already indexed
+   */
+  insert(id: string, bounds: Bounds): void {
+    this.remove(id);
+    this.bounds.set(id, bounds);
+
+    if (this.countCells(bounds) > MAX_CELLS_PER_ITEM) {
+      this.oversized.add(id);
+      return;
+    }
+
+    this.forEachCell(bounds, (key) => {
+      let cell = this.cells.get(key);
+      if (!cell) {
+        cell = new Set();
+        this.cells.set(key, cell);
+      }
+      cell.add(id);
+    });
+  }
+
+  remove(id: string): void {
+    const bounds = this.bounds.get(id);
+    if (!bounds) return;
+
+    this.bounds.delete(id);
+    if (this.oversized.delete(id)) return;
+
+    this.forEachCell(bounds, (key) => {
+      const cell = this.cells.get(key);
+      if (!cell) return;
+      cell.delete(id);
+      if (cell.size === 0) this.cells.delete(key);
+    });
+  }
+
+  /**
+   * Ids of all items whose bounds overlap the given bounds
+   */
+  search(bounds: Bounds): string[] {
+    const found = new Set<string>();
+    const collect = (id: string) => {
+      if (!found.has(id) && boundsOverlap(this.bounds.get(id)!, bounds)) found.add(id);
+    };
+
+    // A query larger than the populated grid is cheaper as a plain scan
+    if (this.countCells(bounds) > this.cells.size) {
+      this.bounds.forEach((_, id) => collect(id));
+    } else {
+      this.forEachCell(bounds, (key) => this.cells.get(key)?.forEach(collect));
+      this.oversized.forEach(collect);
+    }
+
+    return Array.from(found);
+  }
+
+  clone(): GridIndex {
+    const copy = new GridIndex(this.cellSize);
+    this.cells.forEach((cell, key) => copy.cells.set(key, new Set(cell)));
+    copy.bounds = new Map(this.bounds);
+    copy.oversized = new Set(this.oversized);
+    return copy;
+  }
+
+  private countCells(bounds: Bounds): number {
+    const columns = Math.floor(bounds.maxX / this.cellSize) - Math.floor(bounds.minX / this.cellSize) + 1;
+    const rows = Math.floor(bounds.maxY / this.cellSize) - Math.floor(bounds.minY / this.cellSize) + 1;
+    return columns * rows;
+  }
+
+  private forEachCell(bounds: Bounds, callback: (key: string) => void): void {
+    const minI = Math.floor(bounds.minX / this.cellSize);
+    const maxI = Math.floor(bounds.maxX / this.cellSize);
+    const minJ = Math.floor(bounds.minY / this.cellSize);
+    const maxJ = Math.floor(bounds.maxY / this.cellSize);
+
+    for (let i = minI; i <= maxI; i++) {
+      for (let j = minJ; j <= maxJ; j++) {
+        callback(`${i}:${j}`);
+      }
+    }
+  }
+}
+
+export function boundsOverlap(a: Bounds, b: Bounds): boolean {
+  return a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+}
+
+/**
+ * Bounds of a segment, grown by a margin on every side
+ */
+export function getSegmentBounds(
+  a: { x: number; y: number },
+  b: { x: number; y: number },
+  margin: number = 0
+): Bounds {
+  return {
+    minX: Math.min(a.x, b.x) - margin,
+    minY: Math.min(a.y, b.y) - margin,
+    maxX: Math.max(a.x, b.x) + margin,
+    maxY: Math.max(a.y, b.y) + margin,
+  };
+}
+
+/**
+ * Check if a segment touches a rectangle (Liang-Barsky clipping)
+ */
+export function segmentIntersectsBounds(
+  a: { x: number; y: number },
+  b: { x: number; y: number },
+  bounds: Bounds
+): boolean {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  let t0 = 0;
+  let t1 = 1;
+
+  const clip = (p: number, q: number): boolean => {
+    if (p === 0) return q >= 0;
+    const r = q / p;
+    if (p < 0) {
+      if (r > t1) return false;
+      if (r > t0) t0 = r;
+    } else {
+      if (r < t0) return false;
+      if (r < t1) t1 = r;
+    }
+    return true;
+  };
+
+  return (
+    clip(-dx, a.x - bounds.minX) &&
+    clip(dx, bounds.maxX - a.x) &&
+    clip(-dy, a.y - bounds.minY) &&
+    clip(dy, bounds.maxY - a.y)
+  );
+}
@@ -0,0 +1,107 @@
+// Raster underlay placement and two-point calibration
+
+import type { Underlay } from '../types/spatial';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export const DEFAULT_UNDERLAY_OPACITY = 0.5;
+
+/**
+ * Place a new image centred in a world-space view, fitted to most of it
+ */
+export function createUnderlay(
+  src: string,
+  width: number,
+  height: number,
+  view: { x: number; y: number; width: number; height: number }
+): Underlay {
+  const scale = Math.min((view.width * 0.8) / width, (view.height * 0.8) / height);
+
+  return {
+    src,
+    width,
+    height,
+    x: view.x + view.width / 2,
+    y: view.y + view.height / 2,
+    rotation: 0,
+    scale: Number.isFinite(scale) && scale > 0 ? scale : 1,
+    opacity: DEFAULT_UNDERLAY_OPACITY,
+    locked: false,
+  };
+}
+
+/**
+ * Corners of the underlay in world coordinates, clockwise from the image's top-left
+ */
+export function getUnderlayCorners(underlay: Underlay): Point[] {
+  const angle = (underlay.rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const halfWidth = (underlay.width * underlay.scale) / 2;
+  const halfHeight = (underlay.height * underlay.scale) / 2;
+
+  return [
+    [-halfWidth, -halfHeight],
+    [halfWidth, -halfHeight],
+    [halfWidth, halfHeight],
+    [-halfWidth, halfHeight],
+  ].map(([x, y]) => ({ x: underlay.x + x * cos - y * sin, y: underlay.y + x * sin + y * cos }));
+}
+
+/**
+ * Check whether a world point lies on the underlay image
+ */
+export function isPointOnUnderlay(underlay: Underlay, point: Point): boolean {
+  const angle = (-underlay.rotation * Math.PI) / 180;
+  const dx = point.x - underlay.x;
+  const dy = point.y - underlay.y;
+  // Into the image's unrotated frame
+  const x = dx * Math.cos(angle) - dy * Math.sin(angle);
+  const y = dx * Math.sin(angle) + dy * Math.cos(angle);
+
+  return (
+    Math.abs(x) <= (underlay.width * underlay.scale) / 2 && Math.abs(y) <= (underlay.height * underlay.scale) / 2
+  );
+}
+
+/**
+ * Rescale the underlay so two points on it are `realMm` apart
+ * The first point stays where it is on screen.
+ */
+export function calibrateUnderlay(
+  underlay: Underlay,
+  first: Point,
+  second: Point,
+  realMm: number,
+  pixelsPerMm: number
+): Underlay {
+  const measured = Math.hypot(second.x - first.x, second.y - first.y);
+  if (measured === 0 || realMm <= 0) return underlay;
+
+  const factor = (realMm * pixelsPerMm) / measured;
+  return {
+    ...underlay,
+    x: first.x + (underlay.x - first.x) * factor,
+    y: first.y + (underlay.y - first.y) * factor,
+    scale: underlay.scale * factor,
+  };
+}
+
+/**
+ * The drawing scale at which two points are `realMm` apart
+ */
+export function calibratePixelsPerMm(first: Point, second: Point, realMm: number): number | null {
+  const measured = Math.hypot(second.x - first.x, second.y - first.y);
+  return measured > 0 && realMm > 0 ? measured / realMm : null;
+}
+
+/**
+ * Convert between world pixels and millimetres (`factor` is 1/pixelsPerMm to save,
+ * pixelsPerMm to load)
+ */
+export function scaleUnderlay(underlay: Underlay, factor: number): Underlay {
+  return { ...underlay, x: underlay.x * factor, y: underlay.y * factor, scale: underlay.scale * factor };
+}
@@ -0,0 +1,128 @@
+// Viewport (camera) math for converting between screen and world coordinates
+//
+// The camera maps world coordinates to screen coordinates as:
+//   screen = world * scale + (x, y)
+
+import type { Camera } from '../types/spatial';
+
+export const MIN_ZOOM = 0.05;
+export const MAX_ZOOM = 20;
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * The identity camera: world and screen coordinates coincide
+ */
+export const DEFAULT_CAMERA: Camera = { x: 0, y: 0, scale: 1 };
+
+/**
+ * Clamp a zoom level to the supported range
+ */
+export function clampZoom(scale: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, scale));
+}
+
+/**
+ * Convert a screen point to world coordinates
+ */
+export function screenToWorld(camera: Camera, point: { x: number; y: number }): { x: number; y: number } {
+  return {
+    x: (point.x - camera.x) / camera.scale,
+    y: (point.y - camera.y) / camera.scale,
+  };
+}
+
+/**
+ * Convert a world point to screen coordinates
+ */
+export function worldToScreen(camera: Camera, point: { x: number; y: number }): { x: number; y: number } {
+  return {
+    x: point.x * camera.scale + camera.x,
+    y: point.y * camera.scale + camera.y,
+  };
+}
+
+/**
+ * Convert a length in screen pixels to world units at the current zoom
+ */
+export function screenToWorldLength(camera: Camera, length: number): number {
+  return length / camera.scale;
+}
+
+/**
+ * Zoom by a factor while keeping the world point under `screenPoint` fixed
+ */
+export function zoomAt(camera: Camera, screenPoint: { x: number; y: number }, factor: number): Camera {
+  const scale = clampZoom(camera.scale * factor);
+  const anchor = screenToWorld(camera, screenPoint);
+
+  return {
+    x: screenPoint.x - anchor.x * scale,
+    y: screenPoint.y - anchor.y * scale,
+    scale,
+  };
+}
+
+/**
+ * Translate the camera by a screen-space offset
+ */
+export function panBy(camera: Camera, dx: number, dy: number): Camera {
+  return { ...camera, x: camera.x + dx, y: camera.y + dy };
+}
+
+/**
+ * Compute the bounding box of a set of points
+ * Returns null for an empty set
+ */
+export function getBounds(points: Iterable<{ x: number; y: number }>): Bounds | null {
+  let bounds: Bounds | null = null;
+
+  for (const point of points) {
+    if (!bounds) {
+      bounds = { minX: point.x, minY: point.y, maxX: point.x, maxY: point.y };
+      continue;
+    }
+    bounds.minX = Math.min(bounds.minX, point.x);
+    bounds.minY = Math.min(bounds.minY, point.y);
+    bounds.maxX = Math.max(bounds.maxX, point.x);
+    bounds.maxY = Math.max(bounds.maxY, point.y);
+  }
+
+  return bounds;
+}
+
+/**
+ * Compute a camera that centres the bounds in the view with screen-space padding
+ * Degenerate bounds (a single point or a straight line) keep the current zoom
+ * along the collapsed axis.
+ */
+export function fitBounds(
+  bounds: Bounds,
+  viewSize: { width: number; height: number },
+  padding: number = 40,
+  fallbackScale: number = 1
+): Camera {
+  const width = bounds.maxX - bounds.minX;
+  const height = bounds.maxY - bounds.minY;
+  const availableWidth = Math.max(1, viewSize.width - padding * 2);
+  const availableHeight = Math.max(1, viewSize.height - padding * 2);
+
+  const scaleX = width > 0 ? availableWidth / width : Infinity;
+  const scaleY = height > 0 ? availableHeight / height : Infinity;
+  const fitted = Math.min(scaleX, scaleY);
+  const scale = clampZoom(Number.isFinite(fitted) ? fitted : fallbackScale);
+
+  const centerX = (bounds.minX + bounds.maxX) / 2;
+  const centerY = (bounds.minY + bounds.maxY) / 2;
+
+  return {
+    x: viewSize.width / 2 - centerX * scale,
+    y: viewSize.height / 2 - centerY * scale,
+    scale,
+  };
+}
@@ -0,0 +1,306 @@
+// Wall types, thickness handling and wall outline geometry
+
+import type { Edge, Vertex, WallType, WallTypeId } from '../types/spatial';
+import type { SpatialGraph } from './spatialGraph';
+import { intersectLines, signedPolygonArea } from './geometry';
+import { getBulgeFrom, getPathArea, getTangentAngle, tessellateEdge, type PathPoint } from './arcs';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Wall type catalogue with default thicknesses in millimetres
+ */
+export const WALL_TYPES: Record<WallTypeId, WallType> = {
+  exterior: { id: 'exterior', name: 'Exterior', thickness: 300, color: 0x2c3e50 },
+  interior: { id: 'interior', name: 'Interior', thickness: 150, color: 0x4a5d70 },
+  partition: { id: 'partition', name: 'Partition', thickness: 100, color: 0x7f8c9a },
+};
+
+export const DEFAULT_WALL_TYPE: WallTypeId = 'interior';
+
+/**
+ * How far a mitred corner may extend from its vertex, in multiples of the wall thickness,
+ * before it is cut back to a bevel (prevents spikes at very sharp angles)
+ */
+const MITRE_LIMIT = 4;
+
+/**
+ * Check if an edge is a virtual room separator rather than a wall
+ */
+export function isSeparator(edge: Edge): boolean {
+  return edge.kind === 'separator';
+}
+
+/**
+ * Get the wall type of an edge
+ */
+export function getWallType(edge: Edge): WallType {
+  return WALL_TYPES[edge.wallType ?? DEFAULT_WALL_TYPE];
+}
+
+/**
+ * Get the thickness of an edge in millimetres
+ */
+export function getWallThickness(edge: Edge): number {
+  return edge.thickness ?? getWallType(edge).thickness;
+}
+
+/**
+ * Get how far the wall faces sit from the centreline, in pixels,
+ * on the left and right side looking from start to end vertex
+ */
+export function getWallOffsets(edge: Edge, pixelsPerMm: number): { left: number; right: number } {
+  if (isSeparator(edge)) return { left: 0, right: 0 };
+  const thickness = getWallThickness(edge) * pixelsPerMm;
+
+  switch (edge.alignment ?? 'center') {
+    case 'left':
+      return { left: thickness, right: 0 };
+    case 'right':
+      return { left: 0, right: thickness };
+    default:
+      return { left: thickness / 2, right: thickness / 2 };
+  }
+}
+
+/**
+ * Left-hand normal of a direction in screen coordinates (Y down)
+ */
+function leftNormal(dir: Point): Point {
+  return { x: dir.y, y: -dir.x };
+}
+
+/**
+ * An edge seen from one of its vertices
+ */
+interface Spoke {
+  edgeId: string;
+  /** Unit direction pointing away from the vertex */
+  dir: Point;
+  angle: number;
+  /** Face offsets relative to the outgoing direction */
+  left: number;
+  right: number;
+  leftCorner?: Point;
+  rightCorner?: Point;
+}
+
+/**
+ * Resolve the corner where the right face of spoke `a` meets the left face of spoke `b`
+ * (the next spoke in angular order around the vertex)
+ */
+function resolveWedge(vertex: Point, a: Spoke, b: Spoke): void {
+  const na = leftNormal(a.dir);
+  const nb = leftNormal(b.dir);
+  const pa = { x: vertex.x - na.x * a.right, y: vertex.y - na.y * a.right };
+  const pb = { x: vertex.x + nb.x * b.left, y: vertex.y + nb.y * b.left };
+
+  const corner = intersectLines(pa, a.dir, pb, b.dir);
+  const limit = MITRE_LIMIT * Math.max(a.left + a.right, b.left + b.right, 1);
+
+  if (corner && Math.hypot(corner.x - vertex.x, corner.y - vertex.y) <= limit) {
+    a.rightCorner = corner;
+    b.leftCorner = corner;
+  } else {
+    // Parallel faces or an over-long mitre: fall back to square ends
+    a.rightCorner = pa;
+    b.leftCorner = pb;
+  }
+}
+
+/**
+ * Compute wall outlines as mitred polygons
+ * Corners are resolved per vertex by intersecting the faces of angularly adjacent walls,
+ * which gives clean L, T and X junctions. At junctions of three or more walls each outline
+ * also includes the vertex itself, so the outlines tile the junction without gaps.
+ * Curved walls meet their neighbours along their tangents, and their faces are arcs
+ * given by the bulge on the point where each face starts. Separators have no body
+ * and are left out.
+ */
+export function computeWallPolygons(graph: SpatialGraph, pixelsPerMm: number): Map<string, PathPoint[]> {
+  const spokesByVertex = new Map<string, Spoke[]>();
+  const edgeSpokes = new Map<string, { start: Spoke; end: Spoke }>();
+
+  graph.getEdges().forEach((edge) => {
+    if (isSeparator(edge)) return;
+    const start = graph.getVertex(edge.startVertexId);
+    const end = graph.getVertex(edge.endVertexId);
+    if (!start || !end) return;
+
+    const length = Math.hypot(end.x - start.x, end.y - start.y);
+    if (length === 0) return;
+
+    const offsets = getWallOffsets(edge, pixelsPerMm);
+    const startAngle = getTangentAngle(start, end, edge.bulge);
+    const endAngle = getTangentAngle(end, start, -(edge.bulge ?? 0));
+
+    const startSpoke: Spoke = {
+      edgeId: edge.id,
+      dir: { x: Math.cos(startAngle), y: Math.sin(startAngle) },
+      angle: Math.atan2(Math.sin(startAngle), Math.cos(startAngle)),
+      left: offsets.left,
+      right: offsets.right,
+    };
+    // Seen from the end vertex the direction flips, and so do the sides
+    const endSpoke: Spoke = {
+      edgeId: edge.id,
+      dir: { x: Math.cos(endAngle), y: Math.sin(endAngle) },
+      angle: Math.atan2(Math.sin(endAngle), Math.cos(endAngle)),
+      left: offsets.right,
+      right: offsets.left,
+    };
+
+    if (!spokesByVertex.has(start.id)) spokesByVertex.set(start.id, []);
+    if (!spokesByVertex.has(end.id)) spokesByVertex.set(end.id, []);
+    spokesByVertex.get(start.id)!.push(startSpoke);
+    spokesByVertex.get(end.id)!.push(endSpoke);
+    edgeSpokes.set(edge.id, { start: startSpoke, end: endSpoke });
+  });
+
+  spokesByVertex.forEach((spokes, vertexId) => {
+    const vertex = graph.getVertex(vertexId)!;
+    spokes.sort((a, b) => a.angle - b.angle);
+
+    if (spokes.length === 1) {
+      // Free end: square cap
+      const [spoke] = spokes;
+      const n = leftNormal(spoke.dir);
+      spoke.leftCorner = { x: vertex.x + n.x * spoke.left, y: vertex.y + n.y * spoke.left };
+      spoke.rightCorner = { x: vertex.x - n.x * spoke.right, y: vertex.y - n.y * spoke.right };
+      return;
+    }
+
+    for (let i = 0; i < spokes.length; i++) {
+      resolveWedge(vertex, spokes[i], spokes[(i + 1) % spokes.length]);
+    }
+  });
+
+  const polygons = new Map<string, PathPoint[]>();
+
+  edgeSpokes.forEach(({ start, end }, edgeId) => {
+    const edge = graph.getEdge(edgeId)!;
+    const startVertex = graph.getVertex(edge.startVertexId)!;
+    const endVertex = graph.getVertex(edge.endVertexId)!;
+
+    const polygon: PathPoint[] = [];
+    const push = (point: PathPoint) => {
+      // Corners that coincide with the start of a curved face are merged into it
+      const previous = polygon[polygon.length - 1];
+      if (previous && Math.hypot(point.x - previous.x, point.y - previous.y) < 1e-9) polygon.pop();
+      polygon.push(point);
+    };
+
+    push(start.leftCorner!);
+    if (edge.bulge) {
+      // Faces of an arc are concentric arcs with the same sweep, and so the same bulge
+      push({ ...faceStart(startVertex, start, 'left'), bulge: edge.bulge });
+      push(faceStart(endVertex, end, 'right'));
+    }
+    push(end.rightCorner!);
+    if (spokesByVertex.get(endVertex.id)!.length >= 3) push({ x: endVertex.x, y: endVertex.y });
+    push(end.leftCorner!);
+    if (edge.bulge) {
+      push({ ...faceStart(endVertex, end, 'left'), bulge: -edge.bulge });
+      push(faceStart(startVertex, start, 'right'));
+    }
+    push(start.rightCorner!);
+    if (spokesByVertex.get(startVertex.id)!.length >= 3) push({ x: startVertex.x, y: startVertex.y });
+
+    const first = polygon[0];
+    const last = polygon[polygon.length - 1];
+    if (polygon.length > 1 && Math.hypot(first.x - last.x, first.y - last.y) < 1e-9) polygon.pop();
+
+    polygons.set(edgeId, polygon);
+  });
+
+  return polygons;
+}
+
+/**
+ * Where a face of a wall leaves a vertex, on the left or right of the spoke
+ */
+function faceStart(vertex: Point, spoke: Spoke, side: 'left' | 'right'): Point {
+  const n = leftNormal(spoke.dir);
+  const offset = side === 'left' ? spoke.left : -spoke.right;
+  return { x: vertex.x + n.x * offset, y: vertex.y + n.y * offset };
+}
+
+/**
+ * Calculate the net (inner-face) area of a surface in pixels²
+ * Each boundary wall is offset into the room by the thickness on the room's side
+ * and consecutive faces are intersected to form the inner outline. Holes are grown
+ * by their wall thickness the same way and subtracted.
+ */
+export function calculateNetArea(graph: SpatialGraph, surfaceId: string, pixelsPerMm: number): number {
+  const surface = graph.getSurface(surfaceId);
+  const polygon = graph.getSurfacePolygon(surfaceId);
+  if (!surface || polygon.length < 2) return surface?.area ?? 0;
+
+  // Positive area means clockwise on screen, with the interior to the right of each edge.
+  // Two arcs can close a room on their own, so the winding comes from the curved outline
+  const interiorOnRight = getPathArea(graph.getSurfacePath(surfaceId)) > 0;
+  const inner = offsetLoop(graph, polygon, surface.edgeIds, pixelsPerMm, interiorOnRight);
+
+  // The room lies outside its holes, so their walls are offset the other way
+  const holePaths = graph.getSurfaceHolePaths(surfaceId);
+  const holeArea = graph.getSurfaceHoles(surfaceId).reduce((sum, hole, i) => {
+    if (hole.length < 2) return sum;
+    const outer = offsetLoop(graph, hole, surface.holes![i], pixelsPerMm, getPathArea(holePaths[i]) < 0);
+    return sum + Math.abs(signedPolygonArea(outer));
+  }, 0);
+
+  return Math.max(0, Math.abs(signedPolygonArea(inner)) - holeArea);
+}
+
+/**
+ * Offset each edge of a closed loop by its wall thickness towards one side and
+ * intersect consecutive faces; `edgeIds[i]` runs from `polygon[i]` to the next vertex
+ * Curved edges are offset piece by piece along their tessellation.
+ */
+function offsetLoop(
+  graph: SpatialGraph,
+  polygon: Vertex[],
+  edgeIds: string[],
+  pixelsPerMm: number,
+  towardsRight: boolean
+): Point[] {
+  const pieces: Array<{ from: Point; to: Point; edge: Edge | undefined; forward: boolean }> = [];
+  polygon.forEach((from, i) => {
+    const to = polygon[(i + 1) % polygon.length];
+    const edge = graph.getEdge(edgeIds[i]);
+    const forward = edge?.startVertexId === from.id;
+    const points = [from, ...tessellateEdge(from, to, edge ? getBulgeFrom(edge, from.id) : 0)];
+    for (let j = 1; j < points.length; j++) {
+      pieces.push({ from: points[j - 1], to: points[j], edge, forward });
+    }
+  });
+
+  const faces: Array<{ point: Point; dir: Point } | null> = pieces.map(({ from, to, edge, forward }) => {
+    const length = Math.hypot(to.x - from.x, to.y - from.y);
+    if (!edge || length === 0) return null;
+
+    const dir = { x: (to.x - from.x) / length, y: (to.y - from.y) / length };
+    const offsets = getWallOffsets(edge, pixelsPerMm);
+    const left = forward ? offsets.left : offsets.right;
+    const right = forward ? offsets.right : offsets.left;
+
+    const n = leftNormal(dir);
+    const inward = towardsRight ? { x: -n.x * right, y: -n.y * right } : { x: n.x * left, y: n.y * left };
+
+    return { point: { x: from.x + inward.x, y: from.y + inward.y }, dir };
+  });
+
+  const offset: Point[] = [];
+  for (let i = 0; i < pieces.length; i++) {
+    const previous = faces[(i - 1 + faces.length) % faces.length];
+    const current = faces[i];
+    const corner = previous && current ? intersectLines(previous.point, previous.dir, current.point, current.dir) : null;
+
+    offset.push(corner ?? current?.point ?? previous?.point ?? pieces[i].from);
+  }
+
+  return offset;
+}
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import {
+  closestPointOnEdge,
+  getArc,
+  getArcHeight,
+  getArcLength,
+  getBulgeFromHeight,
+  getBulgeThroughPoint,
+  getEdgeBounds,
+  getPathArea,
+  getSubArcBulge,
+  getTangentAngle,
+  intersectSegmentWithArc,
+  pointAlongEdge,
+  tessellateEdge,
+} from '../../src/utils/arcs';
+
+describe('Arcs', () => {
+  const start = { x: 0, y: 0 };
+  const end = { x: 200, y: 0 };
+
+  describe('getArc', () => {
+    it('bulges to the left of start → end for a positive bulge', () => {
+      // A half circle over a 200 long chord; left of +x is -y with Y down
+      const arc = getArc(start, end, 1)!;
+      expect(arc.radius).toBeCloseTo(100);
+      expect(arc.center.x).toBeCloseTo(100);
+      expect(arc.center.y).toBeCloseTo(0);
+      expect(arc.sweep).toBeCloseTo(Math.PI);
+
+      const middle = pointAlongEdge(start, end, 1, 0.5);
+      expect(middle.x).toBeCloseTo(100);
+      expect(middle.y).toBeCloseTo(-100);
+      expect(pointAlongEdge(start, end, -1, 0.5).y).toBeCloseTo(100);
+    });
+
+    it('treats a missing or zero bulge as a straight edge', () => {
+      expect(getArc(start, end)).toBeNull();
+      expect(getArc(start, end, 0)).toBeNull();
+      expect(getArc(start, start, 1)).toBeNull();
+      expect(pointAlongEdge(start, end, undefined, 0.25)).toEqual({ x: 50, y: 0 });
+    });
+  });
+
+  describe('lengths and areas', () => {
+    it('measures arcs along the curve', () => {
+      expect(getArcLength(start, end)).toBe(200);
+      expect(getArcLength(start, end, 1)).toBeCloseTo(100 * Math.PI);
+      expect(getArcLength(start, end, -1)).toBeCloseTo(100 * Math.PI);
+    });
+
+    it('adds circular segments to the area of a path', () => {
+      // Half disc: the chord back from the end, then a half circle above it
+      const halfDisc = getPathArea([{ ...end }, { ...start, bulge: 1 }]);
+      expect(Math.abs(halfDisc)).toBeCloseTo((Math.PI * 100 * 100) / 2);
+
+      // A square with one side bowed out grows by the segment, bowed in it shrinks
+      const square = [
+        { x: 0, y: 0 },
+        { x: 200, y: 0 },
+        { x: 200, y: 200 },
+        { x: 0, y: 200 },
+      ];
+      const segment = (Math.PI * 100 * 100) / 2;
+      expect(getPathArea(square)).toBe(40000);
+      expect(getPathArea([{ ...square[0], bulge: 1 }, ...square.slice(1)])).toBeCloseTo(40000 + segment);
+      expect(getPathArea([{ ...square[0], bulge: -1 }, ...square.slice(1)])).toBeCloseTo(40000 - segment);
+    });
+
+    it('tessellates arcs into short pieces ending exactly at the end point', () => {
+      const points = tessellateEdge(start, end, 1);
+      expect(points.length).toBe(36);
+      expect(points[points.length - 1]).toEqual(end);
+      points.forEach((point) => expect(Math.hypot(point.x - 100, point.y)).toBeCloseTo(100));
+      expect(tessellateEdge(start, end)).toEqual([end]);
+    });
+  });
+
+  describe('tangents', () => {
+    it('leaves an arc at an angle to its chord', () => {
+      expect(getTangentAngle(start, end)).toBe(0);
+      // A half circle to the left (up on screen) leaves straight up
+      expect(getTangentAngle(start, end, 1)).toBeCloseTo(-Math.PI / 2);
+      // Walked backwards the bulge flips, and it leaves the end point straight up too
+      const back = getTangentAngle(end, start, -1);
+      expect(Math.cos(back)).toBeCloseTo(0);
+      expect(Math.sin(back)).toBeCloseTo(-1);
+    });
+  });
+
+  describe('defining arcs', () => {
+    it('finds the bulge through a third point', () => {
+      expect(getBulgeThroughPoint(start, end, { x: 100, y: -100 })).toBeCloseTo(1);
+      expect(getBulgeThroughPoint(start, end, { x: 100, y: 100 })).toBeCloseTo(-1);
+      expect(getBulgeThroughPoint(start, end, { x: 50, y: 0 })).toBe(0);
+
+      const bulge = getBulgeThroughPoint(start, end, { x: 100, y: -40 });
+      expect(pointAlongEdge(start, end, bulge, 0.5).y).toBeCloseTo(-40);
+    });
+
+    it('converts between bulge and arc height', () => {
+      expect(getBulgeFromHeight(start, end, 100)).toBe(1);
+      expect(getArcHeight(start, end, 0.5)).toBe(50);
+      expect(getBulgeFromHeight(start, start, 100)).toBe(0);
+    });
+
+    it('splits an arc into pieces that follow it', () => {
+      const first = getSubArcBulge(1, 0, 0.5)!;
+      const middle = pointAlongEdge(start, end, 1, 0.5);
+      expect(getArcLength(start, middle, first)).toBeCloseTo(50 * Math.PI);
+      expect(pointAlongEdge(start, middle, first, 0.5).x).toBeCloseTo(pointAlongEdge(start, end, 1, 0.25).x);
+      expect(getSubArcBulge(undefined, 0, 0.5)).toBeUndefined();
+    });
+  });
+
+  describe('queries', () => {
+    it('finds the closest point on an arc and its position along it', () => {
+      const hit = closestPointOnEdge({ x: 100, y: -150 }, start, end, 1);
+      expect(hit.distance).toBeCloseTo(50);
+      expect(hit.t).toBeCloseTo(0.5);
+
+      // Beyond the ends of the arc the nearest end point wins
+      const beyond = closestPointOnEdge({ x: -10, y: 50 }, start, end, 1);
+      expect(beyond.t).toBe(0);
+      expect(beyond.point).toEqual(start);
+    });
+
+    it('intersects segments with arcs', () => {
+      const hits = intersectSegmentWithArc({ x: 100, y: 50 }, { x: 100, y: -200 }, start, end, 1);
+      expect(hits).toHaveLength(1);
+      expect(hits[0].y).toBeCloseTo(-100);
+      expect(hits[0].u).toBeCloseTo(0.5);
+      expect(hits[0].t).toBeCloseTo(150 / 250);
+
+      // The other half of the circle is not part of the arc
+      expect(intersectSegmentWithArc({ x: 100, y: 50 }, { x: 100, y: 200 }, start, end, 1)).toEqual([]);
+    });
+
+    it('bounds the bulge of an arc', () => {
+      const bounds = getEdgeBounds(start, end, 1);
+      expect(bounds.minY).toBeLessThanOrEqual(-100);
+      expect(bounds.maxY).toBeGreaterThanOrEqual(0);
+      expect(getEdgeBounds(start, end, undefined, 5)).toEqual({ minX: -5, minY: -5, maxX: 205, maxY: 5 });
+    });
+  });
+});
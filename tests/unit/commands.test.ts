@@ -1,7 +1,9 @@
 import { describe, test, expect, beforeEach } from 'vitest';
-import { CommandManager, AddVertexCommand, AddEdgeCommand, DrawEdgeCommand, RemoveEdgeCommand, SplitEdgeCommand, CommandState } from '../../src/utils/commands';
+import { CommandManager, AddVertexCommand, AddEdgeCommand, DrawEdgeCommand, DrawPolygonCommand, RemoveEdgeCommand, SplitEdgeCommand, DeleteElementsCommand, MoveVerticesCommand, ReplaceDocumentCommand, SetDrawingScaleCommand, SetEdgeKindCommand, UpdateEdgesCommand, CommandState } from '../../src/utils/commands';
+import { createRectangle, createTwoAdjacentRooms } from '../helpers/mockData';
 import { SpatialGraph } from '../../src/utils/spatialGraph';
 import { Vertex, Edge } from '../../src/types/spatial';
+import { DEFAULT_DETECTION_SETTINGS, DEFAULT_DRAWING_SETTINGS, DEFAULT_MEASUREMENT_SETTINGS } from '../../src/utils/document';
 
 describe('Command Pattern', () => {
   let commandManager: CommandManager;
@@ -131,6 +133,94 @@ describe('Command Pattern', () => {
       expect(state.graph.getVertex('v2')).toBeUndefined(); // Should be removed
       expect(state.graph.getEdge('e1')).toBeUndefined();
     });
+
+    describe('crossing existing edges', () => {
+      const createSquare = () => {
+        const { vertices, edges } = createRectangle(0, 0, 100, 100);
+        vertices.forEach(v => graph.addVertex(v));
+        edges.forEach(e => graph.addEdge(e));
+      };
+
+      const drawAcross = (start: Vertex, end: Vertex) =>
+        new DrawEdgeCommand(start, end, { id: 'e1', startVertexId: start.id, endVertexId: end.id }, false, false);
+
+      test('splits both walls at a crossing and detects the new rooms', () => {
+        createSquare();
+        const state = commandManager.execute(drawAcross({ id: 'a', x: -50, y: 50 }, { id: 'b', x: 150, y: 50 }), initialState);
+
+        // 4 square corners, 2 ends and 2 crossings; 3 pieces of the new edge and 2 halves each for w2 and w4
+        expect(state.graph.getCounts()).toMatchObject({ vertices: 8, edges: 9, surfaces: 2 });
+        expect(state.graph.hasEdge('w2')).toBe(false);
+        expect(state.graph.hasEdge('w4')).toBe(false);
+        expect(state.graph.getEdge('e1')).toMatchObject({ startVertexId: 'a' });
+        expect(state.graph.validate()).toEqual([]);
+        expect(Array.from(state.graph.getSurfaces().values()).map(s => s.area)).toEqual([5000, 5000]);
+      });
+
+      test('splits a curved wall into pieces that follow its arc', () => {
+        createSquare();
+        // Bow the right wall out into a half circle reaching x = 150
+        graph.updateEdge('w2', { bulge: 1 });
+        graph.detectAllSurfaces();
+
+        const state = commandManager.execute(drawAcross({ id: 'a', x: 50, y: 50 }, { id: 'b', x: 200, y: 50 }), initialState);
+        const pieces = Array.from(state.graph.getEdges().values()).filter(e => e.bulge);
+        expect(pieces).toHaveLength(2);
+        pieces.forEach(piece => expect(piece.bulge).toBeCloseTo(Math.tan(Math.PI / 8)));
+
+        const split = state.graph.getVertex(pieces[0].endVertexId === 'p3' ? pieces[0].startVertexId : pieces[0].endVertexId)!;
+        expect(split.x).toBeCloseTo(150);
+        expect(split.y).toBeCloseTo(50);
+
+        const total = Array.from(state.graph.getSurfaces().values()).reduce((sum, s) => sum + s.area, 0);
+        expect(total).toBeCloseTo(10000 + (Math.PI * 50 * 50) / 2);
+      });
+
+      test('undo restores the original walls and redo reuses the same ids', () => {
+        createSquare();
+        const command = drawAcross({ id: 'a', x: -50, y: 50 }, { id: 'b', x: 150, y: 50 });
+
+        let state = commandManager.execute(command, initialState);
+        const ids = [...state.graph.getVertices().keys(), ...state.graph.getEdges().keys()].sort();
+
+        state = commandManager.undo(state)!;
+        expect(state.graph.getCounts()).toEqual({ vertices: 4, edges: 4, surfaces: 1 });
+        expect(state.graph.getEdge('w2')).toEqual({ id: 'w2', startVertexId: 'p2', endVertexId: 'p3' });
+
+        state = commandManager.redo(state)!;
+        expect([...state.graph.getVertices().keys(), ...state.graph.getEdges().keys()].sort()).toEqual(ids);
+      });
+
+      test('splits the wall an endpoint rests on (T-junction)', () => {
+        createSquare();
+        const state = commandManager.execute(drawAcross({ id: 'a', x: 50, y: 0 }, { id: 'b', x: 50, y: 100 }), initialState);
+
+        expect(state.graph.hasEdge('w1')).toBe(false);
+        expect(state.graph.hasEdge('w3')).toBe(false);
+        expect(state.graph.getConnectedEdges('a')).toHaveLength(3);
+        expect(state.graph.getSurfaces().size).toBe(2);
+      });
+
+      test('merges a collinear overlap into the existing wall', () => {
+        createSquare();
+        const state = commandManager.execute(drawAcross({ id: 'a', x: 50, y: 0 }, { id: 'b', x: 150, y: 0 }), initialState);
+
+        // w1 is split at a; the new edge only adds the stretch beyond p2
+        expect(state.graph.getCounts()).toMatchObject({ vertices: 6, edges: 6 });
+        expect(state.graph.findEdgeBetweenVertices('a', 'p2')).toBeDefined();
+        expect(state.graph.getEdge('e1')).toMatchObject({ startVertexId: 'p2', endVertexId: 'b' });
+      });
+
+      test('keeps openings on the piece that contains them', () => {
+        createSquare();
+        graph.addOpening({ id: 'o1', edgeId: 'w2', offset: 0.25, width: 600, type: 'window' });
+        const state = commandManager.execute(drawAcross({ id: 'a', x: -50, y: 50 }, { id: 'b', x: 150, y: 50 }), initialState);
+
+        const opening = state.graph.getOpening('o1')!;
+        expect(state.graph.getEdge(opening.edgeId)).toMatchObject({ startVertexId: 'p2' });
+        expect(opening.offset).toBeCloseTo(0.5);
+      });
+    });
   });
 
   describe('RemoveEdgeCommand', () => {
@@ -219,6 +309,326 @@ describe('Command Pattern', () => {
       expect(state.graph.getEdge('e2')).toBeUndefined();
       expect(state.graph.getEdge('e3')).toBeUndefined();
     });
+
+    test('redistributes hosted openings and restores them on undo', () => {
+      graph.addVertex({ id: 'v1', x: 0, y: 0 });
+      graph.addVertex({ id: 'v2', x: 100, y: 0 });
+      graph.addEdge({ id: 'e1', startVertexId: 'v1', endVertexId: 'v2' });
+      graph.addOpening({ id: 'o1', edgeId: 'e1', offset: 0.2, width: 600, type: 'door', hinge: 'start', swing: 'left' });
+      graph.addOpening({ id: 'o2', edgeId: 'e1', offset: 0.7, width: 600, type: 'window' });
+
+      const splitVertex: Vertex = { id: 'v3', x: 40, y: 0 };
+      const edge1: Edge = { id: 'e2', startVertexId: 'v1', endVertexId: 'v3' };
+      // Second piece runs backwards, so its opening offset is mirrored
+      const edge2: Edge = { id: 'e3', startVertexId: 'v2', endVertexId: 'v3' };
+
+      let state = commandManager.execute(new SplitEdgeCommand('e1', splitVertex, edge1, edge2), initialState);
+
+      expect(state.graph.getOpening('o1')).toMatchObject({ edgeId: 'e2', hinge: 'start', swing: 'left' });
+      expect(state.graph.getOpening('o1')!.offset).toBeCloseTo(0.5);
+      expect(state.graph.getOpening('o2')).toMatchObject({ edgeId: 'e3' });
+      expect(state.graph.getOpening('o2')!.offset).toBeCloseTo(0.5);
+
+      state = commandManager.undo(state);
+      expect(state.graph.getOpening('o1')).toMatchObject({ edgeId: 'e1', offset: 0.2 });
+      expect(state.graph.getOpening('o2')).toMatchObject({ edgeId: 'e1', offset: 0.7 });
+    });
+  });
+
+  describe('DeleteElementsCommand', () => {
+    beforeEach(() => {
+      const { vertices, edges } = createTwoAdjacentRooms();
+      vertices.forEach(v => graph.addVertex(v));
+      edges.forEach(e => graph.addEdge(e));
+    });
+
+    test('deleting a shared wall merges the rooms', () => {
+      const state = commandManager.execute(new DeleteElementsCommand(['w2']), initialState);
+
+      expect(state.graph.getEdge('w2')).toBeUndefined();
+      expect(state.graph.getSurfaces().size).toBe(1);
+      // Endpoints still carry other walls
+      expect(state.graph.getVertex('B')).toBeDefined();
+      expect(state.graph.getVertex('E')).toBeDefined();
+    });
+
+    test('deleting a vertex removes its edges and orphaned neighbours', () => {
+      // C has two walls, each leading to a vertex with other walls
+      const state = commandManager.execute(new DeleteElementsCommand(['C']), initialState);
+
+      expect(state.graph.getVertex('C')).toBeUndefined();
+      expect(state.graph.getEdge('w5')).toBeUndefined();
+      expect(state.graph.getEdge('w6')).toBeUndefined();
+      expect(state.graph.getSurfaces().size).toBe(1);
+      expect(state.graph.findIsolatedVertices()).toHaveLength(0);
+    });
+
+    test('deleting a room removes only its unshared walls and orphaned vertices', () => {
+      const rightRoom = Array.from(graph.getSurfaces().values()).find(s => s.edgeIds.includes('w5'))!;
+      const state = commandManager.execute(new DeleteElementsCommand([rightRoom.id]), initialState);
+
+      expect(state.graph.getEdge('w2')).toBeDefined();
+      expect(state.graph.getEdge('w5')).toBeUndefined();
+      expect(state.graph.getVertex('C')).toBeUndefined();
+      expect(state.graph.getVertex('F')).toBeUndefined();
+      expect(state.graph.getSurfaces().size).toBe(1);
+    });
+
+    test('drops deleted ids from the selection', () => {
+      const state = commandManager.execute(new DeleteElementsCommand(['w2']), {
+        ...initialState,
+        selectedIds: new Set(['w2', 'w1']),
+      });
+
+      expect(Array.from(state.selectedIds)).toEqual(['w1']);
+    });
+
+    test('deletes openings on their own and with their host wall', () => {
+      graph.addOpening({ id: 'o1', edgeId: 'w1', offset: 0.5, width: 900, type: 'door' });
+      graph.addOpening({ id: 'o2', edgeId: 'w5', offset: 0.5, width: 1200, type: 'window' });
+
+      let state = commandManager.execute(new DeleteElementsCommand(['o1']), initialState);
+      expect(state.graph.hasOpening('o1')).toBe(false);
+      expect(state.graph.getEdge('w1')).toBeDefined();
+
+      state = commandManager.execute(new DeleteElementsCommand(['w5']), state);
+      expect(state.graph.hasOpening('o2')).toBe(false);
+
+      state = commandManager.undo(commandManager.undo(state));
+      expect(state.graph.getOpenings().size).toBe(2);
+    });
+
+    test('undo restores everything in one step', () => {
+      let state = commandManager.execute(new DeleteElementsCommand(['C', 'w3']), initialState);
+      state = commandManager.undo(state);
+
+      expect(state.graph.getCounts()).toEqual(graph.getCounts());
+      expect(state.graph.getEdge('w3')).toBeDefined();
+      expect(state.graph.getVertex('C')).toBeDefined();
+    });
+  });
+
+  describe('SetEdgeKindCommand', () => {
+    beforeEach(() => {
+      const { vertices, edges } = createTwoAdjacentRooms();
+      vertices.forEach(v => graph.addVertex(v));
+      edges.forEach(e => graph.addEdge({ ...e, wallType: 'exterior' }));
+      graph.addOpening({ id: 'door', edgeId: 'w2', offset: 0.5, width: 900, type: 'door' });
+    });
+
+    test('a separator drops its wall properties and openings but still bounds rooms', () => {
+      const state = commandManager.execute(new SetEdgeKindCommand(['w2'], 'separator'), {
+        ...initialState,
+        selectedIds: new Set(['w2', 'door']),
+      });
+
+      expect(state.graph.getEdge('w2')).toEqual({ id: 'w2', startVertexId: 'B', endVertexId: 'E', kind: 'separator' });
+      expect(state.graph.hasOpening('door')).toBe(false);
+      expect(Array.from(state.selectedIds)).toEqual(['w2']);
+      expect(state.graph.getSurfaces().size).toBe(2);
+    });
+
+    test('undo restores the wall and its openings', () => {
+      let state = commandManager.execute(new SetEdgeKindCommand(['w2'], 'separator'), initialState);
+      state = commandManager.execute(new SetEdgeKindCommand(['w2'], 'wall'), state);
+      expect(state.graph.getEdge('w2')!.kind).toBeUndefined();
+
+      state = commandManager.undo(state);
+      state = commandManager.undo(state);
+      expect(state.graph.getEdge('w2')!.wallType).toBe('exterior');
+      expect(state.graph.hasOpening('door')).toBe(true);
+    });
+  });
+
+  describe('UpdateEdgesCommand', () => {
+    test('bending a wall re-detects the rooms around it, and undo straightens it again', () => {
+      const { vertices, edges } = createRectangle(0, 0, 100, 100);
+      vertices.forEach(v => graph.addVertex(v));
+      edges.forEach(e => graph.addEdge(e));
+      const area = (state: CommandState) => Array.from(state.graph.getSurfaces().values())[0].area;
+
+      let state = commandManager.execute(new UpdateEdgesCommand(['w2'], { bulge: 1 }), initialState);
+      expect(area(state)).toBeCloseTo(10000 + (Math.PI * 50 * 50) / 2);
+
+      state = commandManager.undo(state)!;
+      expect(state.graph.getEdge('w2')!.bulge).toBeUndefined();
+      expect(area(state)).toBe(10000);
+    });
+
+    test('bending a wall drops its openings, and undo brings them back', () => {
+      const { vertices, edges } = createRectangle(0, 0, 100, 100);
+      vertices.forEach(v => graph.addVertex(v));
+      edges.forEach(e => graph.addEdge(e));
+      graph.addOpening({ id: 'door', edgeId: 'w2', offset: 0.5, width: 900, type: 'door' });
+      graph.addOpening({ id: 'window', edgeId: 'w3', offset: 0.5, width: 1200, type: 'window' });
+
+      let state = commandManager.execute(new UpdateEdgesCommand(['w2'], { thickness: 200 }), initialState);
+      expect(state.graph.hasOpening('door')).toBe(true);
+
+      state = commandManager.execute(new UpdateEdgesCommand(['w2'], { bulge: 0.5 }), {
+        ...state,
+        selectedIds: new Set(['w2', 'door']),
+      });
+      expect(state.graph.hasOpening('door')).toBe(false);
+      expect(state.graph.hasOpening('window')).toBe(true);
+      expect(Array.from(state.selectedIds)).toEqual(['w2']);
+
+      state = commandManager.undo(state);
+      expect(state.graph.getEdge('w2')!.bulge).toBeUndefined();
+      expect(state.graph.getOpeningsForEdge('w2').map(opening => opening.id)).toEqual(['door']);
+    });
+  });
+
+  describe('ReplaceDocumentCommand', () => {
+    test('replaces the graph and undo brings the previous plan back', () => {
+      graph.addVertex({ id: 'old', x: 0, y: 0 });
+      const opened = new SpatialGraph();
+      const { vertices, edges } = createTwoAdjacentRooms();
+      vertices.forEach(v => opened.addVertex(v));
+      edges.forEach(e => opened.addEdge(e));
+
+      let state = commandManager.execute(new ReplaceDocumentCommand(opened, 'plan.json'), {
+        ...initialState,
+        selectedIds: new Set(['old']),
+      });
+      expect(state.graph.getCounts()).toEqual(opened.getCounts());
+      expect(state.graph.hasVertex('old')).toBe(false);
+      expect(state.selectedIds.size).toBe(0);
+
+      state = commandManager.undo(state);
+      expect(state.graph.hasVertex('old')).toBe(true);
+      expect(state.graph.getEdges().size).toBe(0);
+      expect(Array.from(state.selectedIds)).toEqual(['old']);
+    });
+
+    test('brings the document settings along and undo puts the previous ones back', () => {
+      const settings = {
+        measurement: DEFAULT_MEASUREMENT_SETTINGS,
+        drawingSettings: DEFAULT_DRAWING_SETTINGS,
+        detectionSettings: DEFAULT_DETECTION_SETTINGS,
+        underlay: null,
+      };
+      const underlay = { src: 'data:', x: 0, y: 0, width: 10, height: 10, scale: 1, rotation: 0, opacity: 0.5, locked: false };
+      const opened = {
+        drawingSettings: { ...DEFAULT_DRAWING_SETTINGS, angleSnap: 45 },
+        detectionSettings: { ...DEFAULT_DETECTION_SETTINGS, ignoreFilaments: true },
+        underlay,
+      };
+
+      let state = commandManager.execute(new ReplaceDocumentCommand(new SpatialGraph(), 'plan.json', opened), {
+        ...initialState,
+        settings,
+      });
+      expect(state.settings).toEqual({ ...settings, ...opened });
+
+      state = commandManager.undo(state);
+      expect(state.settings).toBe(settings);
+    });
+  });
+
+  describe('SetDrawingScaleCommand', () => {
+    test('changes the scale and undo puts the previous one back', () => {
+      const settings = {
+        measurement: DEFAULT_MEASUREMENT_SETTINGS,
+        drawingSettings: DEFAULT_DRAWING_SETTINGS,
+        detectionSettings: DEFAULT_DETECTION_SETTINGS,
+        underlay: null,
+      };
+
+      let state = commandManager.execute(new SetDrawingScaleCommand(0.25), { ...initialState, settings });
+      expect(state.settings!.measurement).toEqual({ ...DEFAULT_MEASUREMENT_SETTINGS, pixelsPerMm: 0.25 });
+
+      state = commandManager.undo(state);
+      expect(state.settings!.measurement.pixelsPerMm).toBe(DEFAULT_MEASUREMENT_SETTINGS.pixelsPerMm);
+    });
+  });
+
+  describe('MoveVerticesCommand', () => {
+    beforeEach(() => {
+      const { vertices, edges } = createTwoAdjacentRooms();
+      vertices.forEach(v => graph.addVertex(v));
+      edges.forEach(e => graph.addEdge(e));
+    });
+
+    test('moving the shared wall updates both room areas and keeps names', () => {
+      const before = Array.from(graph.getSurfaces().values());
+      graph.updateSurface(before[0].id, { name: 'Kitchen' });
+
+      const from = new Map([['B', { x: 100, y: 0 }], ['E', { x: 100, y: 100 }]]);
+      const to = new Map([['B', { x: 150, y: 0 }], ['E', { x: 150, y: 100 }]]);
+      const state = commandManager.execute(new MoveVerticesCommand(from, to), initialState);
+
+      const after = Array.from(state.graph.getSurfaces().values());
+      const areas = after.map(s => s.area).sort((a, b) => a - b);
+      expect(areas).toEqual([5000, 15000]);
+      expect(after.map(s => s.id).sort()).toEqual(before.map(s => s.id).sort());
+      expect(after.find(s => s.id === before[0].id)?.name).toBe('Kitchen');
+    });
+
+    test('undo restores the original positions in one step', () => {
+      const from = new Map([['B', { x: 100, y: 0 }]]);
+      const to = new Map([['B', { x: 120, y: -20 }]]);
+
+      let state = commandManager.execute(new MoveVerticesCommand(from, to), initialState);
+      expect(state.graph.getVertex('B')).toMatchObject({ x: 120, y: -20 });
+
+      state = commandManager.undo(state);
+      expect(state.graph.getVertex('B')).toMatchObject({ x: 100, y: 0 });
+      expect(Array.from(state.graph.getSurfaces().values()).map(s => s.area)).toEqual([10000, 10000]);
+    });
+  });
+
+  describe('DrawPolygonCommand', () => {
+    const rectangle = (x0: number, y0: number, x1: number, y1: number) => [
+      { x: x0, y: y0 },
+      { x: x1, y: y0 },
+      { x: x1, y: y1 },
+      { x: x0, y: y1 },
+    ];
+
+    test('draws a closed room in one step', () => {
+      let state = commandManager.execute(new DrawPolygonCommand(rectangle(0, 0, 100, 100), { wallType: 'exterior' }), initialState);
+      expect(state.graph.getVertices().size).toBe(4);
+      expect(state.graph.getEdges().size).toBe(4);
+      expect(Array.from(state.graph.getEdges().values()).every(edge => edge.wallType === 'exterior')).toBe(true);
+      expect(Array.from(state.graph.getSurfaces().values()).map(s => s.area)).toEqual([10000]);
+
+      state = commandManager.undo(state);
+      expect(state.graph.getVertices().size).toBe(0);
+      expect(state.graph.getEdges().size).toBe(0);
+    });
+
+    test('shares the wall and corners of an adjacent room', () => {
+      let state = commandManager.execute(new DrawPolygonCommand(rectangle(0, 0, 100, 100), {}), initialState);
+      state = commandManager.execute(new DrawPolygonCommand(rectangle(100, 0, 200, 100), {}), state);
+
+      expect(state.graph.getVertices().size).toBe(6);
+      expect(state.graph.getEdges().size).toBe(7);
+      expect(state.graph.getSurfaces().size).toBe(2);
+    });
+
+    test('splits walls its corners and sides land on', () => {
+      // A room on the right of a long wall, with its corners part-way along it
+      let state = commandManager.execute(new DrawPolygonCommand(rectangle(0, 0, 100, 300), {}), initialState);
+      state = commandManager.execute(new DrawPolygonCommand(rectangle(100, 100, 200, 200), {}), state);
+
+      // The long wall is cut in three and the new room's left side runs along its middle piece
+      expect(state.graph.getVertices().size).toBe(8);
+      expect(state.graph.getEdges().size).toBe(9);
+      expect(Array.from(state.graph.getSurfaces().values()).map(s => s.area).sort((a, b) => a - b)).toEqual([10000, 30000]);
+
+      state = commandManager.undo(state);
+      expect(state.graph.getEdges().size).toBe(4);
+    });
+
+    test('redoes with the same ids', () => {
+      let state = commandManager.execute(new DrawPolygonCommand(rectangle(0, 0, 100, 100), {}), initialState);
+      const ids = Array.from(state.graph.getEdges().keys()).sort();
+
+      state = commandManager.undo(state);
+      state = commandManager.redo(state);
+      expect(Array.from(state.graph.getEdges().keys()).sort()).toEqual(ids);
+    });
   });
 
   describe('CommandManager', () => {
@@ -254,5 +664,77 @@ describe('Command Pattern', () => {
       state = commandManager.redo(state);
       expect(state.graph.getVertex('v1')).toBeDefined();
     });
+
+    test('squashes a chain of walls into one undo step', () => {
+      const a: Vertex = { id: 'a', x: 0, y: 0 };
+      const b: Vertex = { id: 'b', x: 100, y: 0 };
+      const c: Vertex = { id: 'c', x: 100, y: 100 };
+      const before = commandManager.execute(new AddVertexCommand({ id: 'x', x: 500, y: 500 }), initialState);
+
+      const start = commandManager.getCurrentIndex() + 1;
+      let state = commandManager.execute(new DrawEdgeCommand(a, b, { id: 'ab', startVertexId: 'a', endVertexId: 'b' }, false, false), before);
+      state = commandManager.execute(new DrawEdgeCommand(b, c, { id: 'bc', startVertexId: 'b', endVertexId: 'c' }, true, false), state);
+      state = commandManager.execute(new DrawEdgeCommand(c, a, { id: 'ca', startVertexId: 'c', endVertexId: 'a' }, true, true), state);
+      expect(state.graph.getSurfaces().size).toBe(1);
+
+      commandManager.squash(start, 'Draw 3 edges');
+      expect(commandManager.getCurrentIndex()).toBe(start);
+
+      state = commandManager.undo(state);
+      expect(state.graph.getEdges().size).toBe(0);
+      expect(state.graph.getSurfaces().size).toBe(0);
+      expect(state.graph.getVertex('x')).toBeDefined();
+
+      state = commandManager.redo(state);
+      expect(state.graph.getEdges().size).toBe(3);
+      expect(state.graph.getSurfaces().size).toBe(1);
+    });
+
+    test('drops undone segments when squashing', () => {
+      const a: Vertex = { id: 'a', x: 0, y: 0 };
+      const b: Vertex = { id: 'b', x: 100, y: 0 };
+      const c: Vertex = { id: 'c', x: 100, y: 100 };
+      const d: Vertex = { id: 'd', x: 0, y: 100 };
+
+      let state = commandManager.execute(new DrawEdgeCommand(a, b, { id: 'ab', startVertexId: 'a', endVertexId: 'b' }, false, false), initialState);
+      state = commandManager.execute(new DrawEdgeCommand(b, c, { id: 'bc', startVertexId: 'b', endVertexId: 'c' }, true, false), state);
+      state = commandManager.execute(new DrawEdgeCommand(c, d, { id: 'cd', startVertexId: 'c', endVertexId: 'd' }, true, false), state);
+      state = commandManager.undo(state);
+
+      commandManager.squash(0, 'Draw 2 edges');
+      expect(commandManager.canRedo()).toBe(false);
+
+      state = commandManager.undo(state);
+      expect(state.graph.getEdges().size).toBe(0);
+      expect(commandManager.canUndo()).toBe(false);
+    });
+
+    test('keeps chain positions stable once the history is full', () => {
+      let state = initialState;
+      for (let i = 0; i < 60; i++) {
+        state = commandManager.execute(new AddVertexCommand({ id: `x${i}`, x: 500 + i, y: 500 }), state);
+      }
+
+      const a: Vertex = { id: 'a', x: 0, y: 0 };
+      const b: Vertex = { id: 'b', x: 100, y: 0 };
+      const c: Vertex = { id: 'c', x: 100, y: 100 };
+      const start = commandManager.getCurrentIndex() + 1;
+      state = commandManager.execute(new DrawEdgeCommand(a, b, { id: 'ab', startVertexId: 'a', endVertexId: 'b' }, false, false), state);
+      expect(commandManager.getCurrentIndex() - start + 1).toBe(1);
+      state = commandManager.execute(new DrawEdgeCommand(b, c, { id: 'bc', startVertexId: 'b', endVertexId: 'c' }, true, false), state);
+      expect(commandManager.getCurrentIndex() - start + 1).toBe(2);
+
+      commandManager.squash(start, 'Draw 2 edges');
+      state = commandManager.undo(state);
+      expect(state.graph.getEdges().size).toBe(0);
+      expect(state.graph.getVertex('x59')).toBeDefined();
+    });
+
+    test('leaves a single command as it is', () => {
+      const state = commandManager.execute(new AddVertexCommand({ id: 'v1', x: 0, y: 0 }), initialState);
+      commandManager.squash(0, 'Nothing to merge');
+      expect(commandManager.getCurrentIndex()).toBe(0);
+      expect(commandManager.undo(state).graph.getVertex('v1')).toBeUndefined();
+    });
   });
 });
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { debounce } from '../../src/utils/debounce';
+
+describe('debounce', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('calls once with the last arguments after the wait', () => {
+    const fn = vi.fn();
+    const debounced = debounce(fn, 100);
+
+    debounced(1);
+    vi.advanceTimersByTime(60);
+    debounced(2);
+    vi.advanceTimersByTime(60);
+    expect(fn).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(40);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(fn).toHaveBeenCalledWith(2);
+  });
+
+  it('flushes a pending call immediately', () => {
+    const fn = vi.fn();
+    const debounced = debounce(fn, 100);
+
+    debounced('a');
+    expect(debounced.pending()).toBe(true);
+    debounced.flush();
+    expect(fn).toHaveBeenCalledWith('a');
+    expect(debounced.pending()).toBe(false);
+
+    vi.advanceTimersByTime(200);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('does nothing on flush without a pending call', () => {
+    const fn = vi.fn();
+    debounce(fn, 100).flush();
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('drops a cancelled call', () => {
+    const fn = vi.fn();
+    const debounced = debounce(fn, 100);
+
+    debounced();
+    debounced.cancel();
+    vi.advanceTimersByTime(200);
+    expect(fn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import { SpatialGraph } from '../../src/utils/spatialGraph';
+import {
+  CURRENT_DOCUMENT_VERSION,
+  DEFAULT_DETECTION_SETTINGS,
+  DEFAULT_DRAWING_SETTINGS,
+  DEFAULT_MEASUREMENT_SETTINGS,
+  deserializeDetectionSettings,
+  deserializeDocument,
+  deserializeDrawingSettings,
+  deserializeUnderlay,
+  migrateDocument,
+  serializeDocument,
+  validateDocument,
+} from '../../src/utils/document';
+import { createRectangle } from '../helpers/mockData';
+
+const settings = {
+  measurement: { pixelsPerMm: 0.1, showMeasurements: false },
+  drawingSettings: { ...DEFAULT_DRAWING_SETTINGS, wallType: 'exterior' as const },
+};
+
+const createGraph = () => {
+  const graph = new SpatialGraph();
+  const { vertices, edges } = createRectangle(0, 0, 100, 50);
+  vertices.forEach(v => graph.addVertex(v));
+  edges.forEach(e => graph.addEdge(e));
+  return graph;
+};
+
+describe('Document format', () => {
+  describe('serializeDocument', () => {
+    it('writes the envelope with coordinates in millimetres', () => {
+      const document = serializeDocument(createGraph(), settings, new Date('2024-01-02T03:04:05Z'));
+
+      expect(document.version).toBe(CURRENT_DOCUMENT_VERSION);
+      expect(document.timestamp).toBe('2024-01-02T03:04:05.000Z');
+      expect(document.measurement).toEqual(settings.measurement);
+      expect(document.drawingSettings.wallType).toBe('exterior');
+      expect(document.data.vertices.find(v => v.id === 'p3')).toMatchObject({ x: 1000, y: 500 });
+      expect(document.data.surfaces[0].area).toBeCloseTo(500000);
+      expect(document.metadata).toEqual({ totalArea: 0.5, roomCount: 1, wallCount: 4, openingCount: 0 });
+      expect(validateDocument(document)).toEqual([]);
+    });
+
+    it('round-trips through deserializeDocument', () => {
+      const graph = createGraph();
+      const restored = deserializeDocument(serializeDocument(graph, settings));
+
+      expect(restored.getVertex('p3')!.x).toBeCloseTo(100);
+      expect(restored.getSurfaces().values().next().value!.area).toBeCloseTo(5000);
+      expect(restored.getEdges()).toEqual(graph.getEdges());
+    });
+
+    it('saves the underlay in millimetres', () => {
+      const underlay = {
+        src: 'data:image/png;base64,AAAA',
+        width: 800,
+        height: 600,
+        x: 40,
+        y: 30,
+        rotation: 90,
+        scale: 0.5,
+        opacity: 0.4,
+        locked: true,
+      };
+      const document = serializeDocument(createGraph(), { ...settings, underlay });
+
+      expect(document.underlay).toEqual({ ...underlay, x: 400, y: 300, scale: 5 });
+      expect(validateDocument(document)).toEqual([]);
+      expect(deserializeUnderlay(document, 0.2)).toEqual({ ...underlay, x: 80, y: 60, scale: 1 });
+      expect(deserializeUnderlay(serializeDocument(createGraph(), settings))).toBeNull();
+    });
+
+    it('fills in drawing settings that older documents lack', () => {
+      const document = serializeDocument(createGraph(), settings);
+      expect(deserializeDrawingSettings(document)).toEqual(settings.drawingSettings);
+
+      delete document.drawingSettings.angleSnap;
+      delete document.drawingSettings.polygonSides;
+      expect(validateDocument(document)).toEqual([]);
+      expect(deserializeDrawingSettings(document)).toEqual(settings.drawingSettings);
+      expect(deserializeDrawingSettings(document).angleSnap).toBe(15);
+    });
+
+    it('saves the room detection settings', () => {
+      const detectionSettings = { minRoomArea: 0.5, includeVirtualSeparators: false, ignoreFilaments: true };
+      const document = serializeDocument(createGraph(), { ...settings, detectionSettings });
+
+      expect(document.detectionSettings).toEqual(detectionSettings);
+      expect(validateDocument(document)).toEqual([]);
+      expect(deserializeDetectionSettings(document)).toEqual(detectionSettings);
+
+      // Documents written before the settings existed get the defaults
+      delete document.detectionSettings;
+      expect(validateDocument(document)).toEqual([]);
+      expect(deserializeDetectionSettings(document)).toEqual(DEFAULT_DETECTION_SETTINGS);
+
+      document.detectionSettings = { ...detectionSettings, minRoomArea: -1 };
+      expect(validateDocument(document)).toEqual([
+        { path: 'detectionSettings.minRoomArea', message: 'expected a number of at least 0' },
+      ]);
+    });
+  });
+
+  describe('validateDocument', () => {
+    it('reports every problem with its path', () => {
+      const document = JSON.parse(JSON.stringify(serializeDocument(createGraph(), settings)));
+      document.measurement.pixelsPerMm = 0;
+      document.drawingSettings.wallType = 'brick';
+      document.data.edges[1].startVertexId = 7;
+      document.data.vertices[2].id = 'p1';
+      delete document.metadata;
+
+      expect(validateDocument(document)).toEqual([
+        { path: 'metadata', message: 'expected an object' },
+        { path: 'measurement.pixelsPerMm', message: 'expected a positive number' },
+        { path: 'drawingSettings.wallType', message: 'expected one of "exterior", "interior", "partition"' },
+        { path: 'data.vertices[2].id', message: 'duplicate id "p1"' },
+        { path: 'data.edges[1].startVertexId', message: 'expected a string' },
+      ]);
+    });
+
+    it('accepts only whole polygon side counts the Polygon tool offers', () => {
+      const document = JSON.parse(JSON.stringify(serializeDocument(createGraph(), settings)));
+
+      document.drawingSettings.polygonSides = 4.5;
+      expect(validateDocument(document)).toEqual([{ path: 'drawingSettings.polygonSides', message: 'expected an integer' }]);
+
+      document.drawingSettings.polygonSides = 1000;
+      expect(validateDocument(document)).toEqual([
+        { path: 'drawingSettings.polygonSides', message: 'expected a number between 3 and 24' },
+      ]);
+
+      document.drawingSettings.polygonSides = 24;
+      expect(validateDocument(document)).toEqual([]);
+    });
+
+    it('rejects non-objects', () => {
+      expect(validateDocument(null)).toEqual([{ path: '', message: 'expected an object' }]);
+    });
+  });
+
+  describe('migrateDocument', () => {
+    it('upgrades the unversioned pixel format', () => {
+      const legacy = createGraph().toJSON();
+      const result = migrateDocument(legacy);
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.fromVersion).toBe(0);
+      expect(validateDocument(result.document)).toEqual([]);
+
+      const document = result.document as ReturnType<typeof serializeDocument>;
+      expect(document.measurement).toEqual(DEFAULT_MEASUREMENT_SETTINGS);
+      expect(document.data.vertices.find(v => v.id === 'p3')).toMatchObject({ x: 1000, y: 500 });
+      expect(document.data.surfaces[0].area).toBeCloseTo(500000);
+      expect(document.metadata.roomCount).toBe(1);
+    });
+
+    it('leaves current documents untouched', () => {
+      const document = serializeDocument(createGraph(), settings);
+      const result = migrateDocument(document);
+
+      expect(result).toEqual({ success: true, document, fromVersion: CURRENT_DOCUMENT_VERSION });
+    });
+
+    it('refuses documents from a newer version', () => {
+      const result = migrateDocument({ version: CURRENT_DOCUMENT_VERSION + 1 });
+
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.errors[0].path).toBe('version');
+    });
+  });
+});
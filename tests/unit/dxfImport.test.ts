@@ -0,0 +1,211 @@
+import { describe, it, expect } from 'vitest';
+import { buildGraphFromDXF, nodeSegments, parseDXF } from '../../src/utils/dxfImport';
+import { generateDXF } from '../../src/utils/export';
+import { SpatialGraph } from '../../src/utils/spatialGraph';
+import { createRectangle } from '../helpers/mockData';
+
+const PIXELS_PER_MM = 0.1;
+
+/** Assemble a DXF file from entities given as [code, value] pairs */
+const dxf = (entities: (string | number)[][], units?: number) =>
+  [
+    ...(units === undefined ? [] : [0, 'SECTION', 2, 'HEADER', 9, '$INSUNITS', 70, units, 0, 'ENDSEC']),
+    0, 'SECTION', 2, 'ENTITIES',
+    ...entities.flat(),
+    0, 'ENDSEC', 0, 'EOF',
+  ].join('\n');
+
+const line = (layer: string, x1: number, y1: number, x2: number, y2: number) =>
+  [0, 'LINE', 8, layer, 10, x1, 20, y1, 11, x2, 21, y2];
+
+const square = (layer: string, x: number, y: number, size: number, gap: number = 0) => [
+  line(layer, x, y, x + size, y),
+  line(layer, x + size + gap, y, x + size, y + size),
+  line(layer, x + size, y + size + gap, x, y + size),
+  line(layer, x - gap, y + size, x, y),
+];
+
+const parse = (text: string) => {
+  const result = parseDXF(text);
+  if (!result.success) throw new Error(result.errors.join('\n'));
+  return result.drawing;
+};
+
+const roomAreasM2 = (graph: SpatialGraph) =>
+  Array.from(graph.getSurfaces().values())
+    .map((surface) => surface.area / (PIXELS_PER_MM * PIXELS_PER_MM) / 1000000)
+    .sort((a, b) => a - b);
+
+describe('parseDXF', () => {
+  it('reads units, layers and lines', () => {
+    const drawing = parse(dxf([...square('WALLS', 0, 0, 1000), line('FURNITURE', 0, 0, 10, 10)], 4));
+
+    expect(drawing.units).toBe(4);
+    expect(drawing.layers).toEqual([
+      { name: 'FURNITURE', entityCount: 1 },
+      { name: 'WALLS', entityCount: 4 },
+    ]);
+    expect(drawing.polylines[0].points).toEqual([{ x: 0, y: 0 }, { x: 1000, y: 0 }]);
+  });
+
+  it('reads closed LWPOLYLINEs and expands bulges into arcs', () => {
+    const drawing = parse(dxf([
+      [0, 'LWPOLYLINE', 8, 'A', 90, 2, 70, 1, 10, 0, 20, 0, 42, 1, 10, 2, 20, 0],
+    ]));
+    const { points, closed } = drawing.polylines[0];
+
+    expect(closed).toBe(true);
+    // A bulge of 1 is a counter-clockwise half circle
+    expect(points.some((p) => Math.abs(p.x - 1) < 1e-9 && Math.abs(p.y + 1) < 1e-9)).toBe(true);
+    expect(points[0]).toEqual({ x: 0, y: 0 });
+    expect(points[points.length - 1]).toEqual({ x: 2, y: 0 });
+  });
+
+  it('reads POLYLINE vertices up to SEQEND', () => {
+    const drawing = parse(dxf([
+      [0, 'POLYLINE', 8, 'A', 66, 1, 70, 0],
+      [0, 'VERTEX', 8, 'A', 10, 0, 20, 0],
+      [0, 'VERTEX', 8, 'A', 10, 5, 20, 0],
+      [0, 'VERTEX', 8, 'A', 10, 5, 20, 5],
+      [0, 'SEQEND', 8, 'A'],
+      line('A', 0, 0, 1, 1),
+    ]));
+
+    expect(drawing.polylines).toHaveLength(2);
+    expect(drawing.polylines[0].points).toEqual([{ x: 0, y: 0 }, { x: 5, y: 0 }, { x: 5, y: 5 }]);
+  });
+
+  it('tessellates arcs counter-clockwise from the start angle', () => {
+    const drawing = parse(dxf([[0, 'ARC', 8, 'A', 10, 0, 20, 0, 40, 10, 50, 0, 51, 90]]));
+    const { points } = drawing.polylines[0];
+
+    expect(points[0].x).toBeCloseTo(10);
+    expect(points[0].y).toBeCloseTo(0);
+    expect(points[points.length - 1].x).toBeCloseTo(0);
+    expect(points[points.length - 1].y).toBeCloseTo(10);
+    expect(points.length).toBeGreaterThan(2);
+  });
+
+  it('counts unsupported entities as skipped', () => {
+    const drawing = parse(dxf([[0, 'CIRCLE', 8, 'A', 10, 0, 20, 0, 40, 5], [0, 'TEXT', 8, 'A', 1, 'Hi']]));
+
+    expect(drawing.polylines).toHaveLength(0);
+    expect(drawing.skipped).toEqual({ CIRCLE: 1, TEXT: 1 });
+  });
+
+  it('rejects files that are not DXF', () => {
+    expect(parseDXF('hello world').success).toBe(false);
+    expect(parseDXF('0\nSECTION\n2\nHEADER\n0\nENDSEC\n0\nEOF').success).toBe(false);
+  });
+});
+
+describe('nodeSegments', () => {
+  it('splits crossing segments at the intersection', () => {
+    const { points, edges } = nodeSegments(
+      [
+        [{ x: 0, y: 5 }, { x: 10, y: 5 }],
+        [{ x: 5, y: 0 }, { x: 5, y: 10 }],
+      ],
+      0.1
+    );
+
+    expect(points).toHaveLength(5);
+    expect(edges).toHaveLength(4);
+  });
+
+  it('joins crossing segments even without a tolerance', () => {
+    const { points, edges } = nodeSegments(
+      [
+        [{ x: 121.6, y: 144.7 }, { x: 30.8, y: 12 }],
+        [{ x: 18.2, y: 109.6 }, { x: 88.3, y: 64.4 }],
+      ],
+      0
+    );
+
+    expect(points).toHaveLength(5);
+    expect(edges).toHaveLength(4);
+  });
+
+  it('splits a segment where another ends on it (T-junction)', () => {
+    const { edges } = nodeSegments(
+      [
+        [{ x: 0, y: 0 }, { x: 10, y: 0 }],
+        [{ x: 5, y: 0.05 }, { x: 5, y: 10 }],
+      ],
+      0.1
+    );
+
+    expect(edges).toHaveLength(3);
+  });
+
+  it('merges collinear overlaps into shared pieces', () => {
+    const { points, edges } = nodeSegments(
+      [
+        [{ x: 0, y: 0 }, { x: 10, y: 0 }],
+        [{ x: 5, y: 0 }, { x: 15, y: 0 }],
+      ],
+      0.1
+    );
+
+    expect(points).toHaveLength(4);
+    expect(edges).toHaveLength(3);
+  });
+});
+
+describe('buildGraphFromDXF', () => {
+  it('merges endpoints within the tolerance so rooms close', () => {
+    const drawing = parse(dxf(square('WALLS', 0, 0, 1000, 0.5), 4));
+    const graph = buildGraphFromDXF(drawing, { pixelsPerMm: PIXELS_PER_MM, tolerance: 1 });
+
+    expect(graph.getVertices().size).toBe(4);
+    expect(graph.getEdges().size).toBe(4);
+    expect(roomAreasM2(graph)).toHaveLength(1);
+    expect(roomAreasM2(graph)[0]).toBeCloseTo(1, 2);
+  });
+
+  it('splits crossing walls so each room is found', () => {
+    const drawing = parse(dxf([...square('WALLS', 0, 0, 2000), line('WALLS', 1000, -500, 1000, 2500)], 4));
+    const graph = buildGraphFromDXF(drawing, { pixelsPerMm: PIXELS_PER_MM });
+
+    expect(roomAreasM2(graph)).toEqual([expect.closeTo(2, 2), expect.closeTo(2, 2)]);
+  });
+
+  it('imports only the chosen layers', () => {
+    const drawing = parse(dxf([...square('WALLS', 0, 0, 1000), line('FURNITURE', 200, 200, 800, 800)], 4));
+    const graph = buildGraphFromDXF(drawing, { layers: ['WALLS'], pixelsPerMm: PIXELS_PER_MM });
+
+    expect(graph.getEdges().size).toBe(4);
+  });
+
+  it('converts drawing units to millimetres and flips Y', () => {
+    // 100 cm wide, 50 cm tall, drawn above the origin
+    const drawing = parse(dxf([line('A', 0, 0, 100, 0), line('A', 100, 0, 100, 50)], 5));
+    const graph = buildGraphFromDXF(drawing, { pixelsPerMm: PIXELS_PER_MM });
+    const positions = Array.from(graph.getVertices().values())
+      .map((v) => [v.x, v.y])
+      .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+    // The top-left corner moves to the origin; the origin of the drawing is bottom-left
+    expect(positions).toEqual([[0, 50], [100, 0], [100, 50]]);
+  });
+
+  it('lets the unit scale be overridden', () => {
+    const drawing = parse(dxf([line('A', 0, 0, 1, 0)]));
+    const graph = buildGraphFromDXF(drawing, { unitScale: 1000, pixelsPerMm: PIXELS_PER_MM });
+    const xs = Array.from(graph.getVertices().values()).map((v) => v.x).sort((a, b) => a - b);
+
+    expect(xs).toEqual([0, 100]);
+  });
+
+  it('reads back the centrelines of an exported plan', () => {
+    const original = new SpatialGraph();
+    const { vertices, edges } = createRectangle(0, 0, 300, 200);
+    vertices.forEach(v => original.addVertex(v));
+    edges.forEach(e => original.addEdge(e));
+
+    const drawing = parse(generateDXF(original, { pixelsPerMm: PIXELS_PER_MM, wallOutlines: false }));
+    const graph = buildGraphFromDXF(drawing, { layers: ['WALLS'], pixelsPerMm: PIXELS_PER_MM });
+
+    expect(roomAreasM2(graph)).toEqual([expect.closeTo(6, 2)]);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { SpatialGraph } from '../../src/utils/spatialGraph';
-import { generateJSON, generateCSV } from '../../src/utils/export';
+import { generateJSON, generateCSV, generateDXF, generateSVG } from '../../src/utils/export';
 import { createRectangle } from '../helpers/mockData';
 
 describe('Export Utils', () => {
@@ -12,16 +12,67 @@ describe('Export Utils', () => {
     return graph;
   };
 
+  // A 100 × 100 room with a 20 × 20 column in the middle
+  const createGraphWithColumn = () => {
+    const graph = createMockGraph();
+    const { vertices, edges } = createRectangle(40, 40, 20, 20, 'c');
+    vertices.forEach(v => graph.addVertex(v));
+    edges.forEach(e => graph.addEdge(e));
+    return graph;
+  };
+
+  // The 100 × 100 room with its right wall bowed out into a half circle
+  const createGraphWithArc = () => {
+    const graph = createMockGraph();
+    graph.updateEdge('w2', { bulge: 1 });
+    graph.detectAllSurfaces();
+    return graph;
+  };
+
   it('should generate valid JSON', () => {
     const graph = createMockGraph();
     const json = generateJSON(graph);
     const data = JSON.parse(json);
 
-    expect(data).toHaveProperty('vertices');
-    expect(data).toHaveProperty('edges');
-    expect(data).toHaveProperty('surfaces');
-    expect(data.vertices.length).toBeGreaterThan(0);
-    expect(data.edges.length).toBeGreaterThan(0);
+    expect(data.version).toBe(1);
+    expect(data).toHaveProperty('timestamp');
+    expect(data.metadata).toMatchObject({ roomCount: 1, wallCount: 4 });
+    expect(data.data).toHaveProperty('vertices');
+    expect(data.data).toHaveProperty('edges');
+    expect(data.data).toHaveProperty('surfaces');
+    expect(data.data.vertices.length).toBeGreaterThan(0);
+    expect(data.data.edges.length).toBeGreaterThan(0);
+  });
+
+  // Two rooms side by side, split by a separator instead of a wall
+  const createGraphWithSeparator = () => {
+    const graph = new SpatialGraph();
+    [[0, 0], [100, 0], [200, 0], [200, 100], [100, 100], [0, 100]].forEach(([x, y], i) => graph.addVertex({ id: `v${i}`, x, y }));
+    [0, 1, 2, 3, 4, 5].forEach(i => graph.addEdge({ id: `w${i}`, startVertexId: `v${i}`, endVertexId: `v${(i + 1) % 6}` }));
+    graph.addEdge({ id: 'sep', startVertexId: 'v1', endVertexId: 'v4', kind: 'separator' });
+    return graph;
+  };
+
+  it('leaves separators out of the wall count', () => {
+    const data = JSON.parse(generateJSON(createGraphWithSeparator()));
+
+    expect(data.metadata).toMatchObject({ roomCount: 2, wallCount: 6 });
+    expect(data.data.edges).toHaveLength(7);
+  });
+
+  it('leaves separators out of the walls CSV', () => {
+    const { walls, rooms } = generateCSV(createGraphWithSeparator(), 0.1);
+
+    expect(walls.split('\n')).toHaveLength(1 + 6);
+    expect(walls).not.toContain('sep');
+    expect(rooms.split('\n')).toHaveLength(1 + 2);
+  });
+
+  it('measures curved walls along the arc in the walls CSV', () => {
+    const { walls } = generateCSV(createGraphWithArc(), 0.1);
+    const row = walls.split('\n').find((line) => line.startsWith('w2,'))!;
+
+    expect(row.split(',')[5]).toBe((500 * Math.PI).toFixed(2));
   });
 
   it('should generate valid CSV for walls and rooms', () => {
@@ -52,4 +103,223 @@ describe('Export Utils', () => {
     // Area = 1m * 1m = 1m^2
     expect(parseFloat(roomData[2])).toBeCloseTo(1.0, 2);
   });
+
+  describe('generateSVG', () => {
+    const parse = (svg: string) => new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement;
+
+    it('writes each part of the drawing to its own layer', () => {
+      const root = parse(generateSVG(createMockGraph()));
+
+      expect(root.tagName).toBe('svg');
+      ['rooms', 'walls', 'openings', 'room-labels', 'dimensions', 'scale-bar'].forEach((id) => {
+        expect(root.querySelector(`g#${id}`)).not.toBeNull();
+      });
+      expect(root.querySelectorAll('#walls path')).toHaveLength(4);
+      expect(root.querySelectorAll('#rooms path')).toHaveLength(1);
+    });
+
+    it('uses a millimetre viewBox sized to print at the chosen scale', () => {
+      const graph = createMockGraph();
+      const atHundred = parse(generateSVG(graph, { pixelsPerMm: 0.1, scale: 100 }));
+      const atFifty = parse(generateSVG(graph, { pixelsPerMm: 0.1, scale: 50 }));
+
+      // Interior walls are 150 mm thick, so the 1000 mm square extends 75 mm past its vertices
+      const [x, y, width] = atHundred.getAttribute('viewBox')!.split(' ').map(Number);
+      expect(x).toBeCloseTo(-75 - 1000);
+      expect(y).toBeCloseTo(-75 - 1000);
+      expect(width).toBeCloseTo(1150 + 2000);
+      expect(atHundred.getAttribute('width')).toBe(`${width / 100}mm`);
+
+      const fiftyWidth = Number(atFifty.getAttribute('viewBox')!.split(' ')[2]);
+      expect(atFifty.getAttribute('width')).toBe(`${fiftyWidth / 50}mm`);
+    });
+
+    it('is independent of the pixel scale', () => {
+      const coarse = new SpatialGraph();
+      const { vertices, edges } = createRectangle(0, 0, 200, 200);
+      vertices.forEach(v => coarse.addVertex(v));
+      edges.forEach(e => coarse.addEdge(e));
+
+      expect(generateSVG(coarse, { pixelsPerMm: 0.2 })).toBe(generateSVG(createMockGraph(), { pixelsPerMm: 0.1 }));
+    });
+
+    it('labels rooms and edges in real units', () => {
+      const root = parse(generateSVG(createMockGraph()));
+
+      expect(root.querySelector('#room-labels')!.textContent).toContain('1.00 m²');
+      const dimensions = Array.from(root.querySelectorAll('#dimensions text')).map((text) => text.textContent);
+      expect(dimensions).toEqual(['1000 mm', '1000 mm', '1000 mm', '1000 mm']);
+    });
+
+    it('omits optional layers and room fills', () => {
+      const root = parse(
+        generateSVG(createMockGraph(), { fillRooms: false, showRoomLabels: false, showDimensions: false, showScaleBar: false })
+      );
+
+      expect(root.querySelector('#rooms')!.getAttribute('fill')).toBe('none');
+      expect(root.querySelector('#room-labels')).toBeNull();
+      expect(root.querySelector('#dimensions')).toBeNull();
+      expect(root.querySelector('#scale-bar')).toBeNull();
+    });
+
+    it('draws separators as dashed lines on their own layer', () => {
+      const svg = generateSVG(createGraphWithSeparator(), { pixelsPerMm: 0.1, scale: 100 });
+      const walls = svg.slice(svg.indexOf('<g id="walls"'), svg.indexOf('<g id="separators"'));
+      const separators = svg.slice(svg.indexOf('<g id="separators"'), svg.indexOf('<g id="openings"'));
+
+      expect(walls).not.toContain('id="sep"');
+      expect(separators).toContain('stroke-dasharray="200 100"');
+      expect(separators).toContain('<path id="sep" d="M1000 0 L1000 1000"/>');
+    });
+
+    it('writes curved walls and room boundaries as arcs', () => {
+      const root = parse(generateSVG(createGraphWithArc(), { pixelsPerMm: 0.1 }));
+      const room = root.querySelector('#rooms path')!.getAttribute('d')!;
+      const wall = root.querySelector('#walls path#w2')!.getAttribute('d')!;
+
+      expect(room).toMatch(/A500 500 0 0 1 1000 (1000|0)/);
+      expect(wall.match(/A/g)).toHaveLength(2);
+    });
+
+    it('cuts holes out of rooms with an even-odd fill', () => {
+      const root = parse(generateSVG(createGraphWithColumn()));
+      const paths = Array.from(root.querySelectorAll('#rooms path')).map((path) => path.getAttribute('d')!);
+
+      expect(root.querySelector('#rooms')!.getAttribute('fill-rule')).toBe('evenodd');
+      expect(paths).toHaveLength(2);
+      expect(paths.map((d) => d.split('M').length - 1).sort()).toEqual([1, 2]);
+    });
+
+    it('escapes room names', () => {
+      const graph = createMockGraph();
+      const surface = Array.from(graph.getSurfaces().values())[0];
+      surface.name = 'Bed & <Bath>';
+
+      expect(parse(generateSVG(graph)).querySelector('#room-labels')!.textContent).toContain('Bed & <Bath>');
+    });
+  });
+
+  describe('generateDXF', () => {
+    /** Split a DXF file into entities, each a list of [code, value] pairs */
+    const readEntities = (dxf: string) => {
+      const lines = dxf.trimEnd().split('\n');
+      const pairs: [number, string][] = [];
+      for (let i = 0; i < lines.length; i += 2) pairs.push([Number(lines[i]), lines[i + 1]]);
+
+      const start = pairs.findIndex(([code, value], i) => code === 2 && value === 'ENTITIES' && pairs[i - 1][1] === 'SECTION');
+      const entities: [number, string][][] = [];
+      for (const pair of pairs.slice(start + 1)) {
+        if (pair[0] === 0 && pair[1] === 'ENDSEC') break;
+        if (pair[0] === 0) entities.push([]);
+        entities[entities.length - 1].push(pair);
+      }
+      return entities;
+    };
+    const value = (entity: [number, string][], code: number) => entity.find(([c]) => c === code)?.[1];
+    const values = (entity: [number, string][], code: number) => entity.filter(([c]) => c === code).map(([, v]) => Number(v));
+
+    it('declares millimetre units in the header', () => {
+      const dxf = generateDXF(createMockGraph());
+
+      expect(dxf).toMatch(/\$ACADVER\n1\nAC1015/);
+      expect(dxf).toMatch(/\$INSUNITS\n70\n4\n/);
+      expect(dxf.trimEnd().endsWith('0\nEOF')).toBe(true);
+    });
+
+    it('has the sections, tables and owners of an AutoCAD 2000 drawing', () => {
+      const lines = generateDXF(createMockGraph()).trimEnd().split('\n');
+      const pairs: [number, string][] = [];
+      for (let i = 0; i < lines.length; i += 2) pairs.push([Number(lines[i]), lines[i + 1]]);
+      const namesAfter = (type: string) =>
+        pairs.flatMap(([code, value], i) => (code === 0 && value === type ? [pairs[i + 1][1]] : []));
+
+      expect(namesAfter('SECTION')).toEqual(['HEADER', 'CLASSES', 'TABLES', 'BLOCKS', 'ENTITIES', 'OBJECTS']);
+      expect(namesAfter('TABLE')).toEqual(['VPORT', 'LTYPE', 'LAYER', 'STYLE', 'VIEW', 'UCS', 'APPID', 'DIMSTYLE', 'BLOCK_RECORD']);
+      expect(namesAfter('BLOCK')).toHaveLength(2);
+      expect(pairs.filter(([code]) => code === 2).map(([, name]) => name)).toEqual(
+        expect.arrayContaining(['*Model_Space', '*Paper_Space', 'ByBlock', 'ByLayer', 'Standard', 'ACAD'])
+      );
+      expect(pairs).toContainEqual([3, 'ACAD_GROUP']);
+
+      // Handles are unique, and every owner and dictionary entry points at one
+      const handles = pairs
+        .filter(([code], i) => (code === 5 || code === 105) && pairs[i - 1][1] !== '$HANDSEED')
+        .map(([, handle]) => handle);
+      expect(new Set(handles).size).toBe(handles.length);
+      pairs
+        .filter(([code, value]) => (code === 330 || code === 340 || code === 350) && value !== '0')
+        .forEach(([, owner]) => expect(handles).toContain(owner));
+
+      const seed = pairs[pairs.findIndex(([, value]) => value === '$HANDSEED') + 1][1];
+      expect(Math.max(...handles.map((handle) => parseInt(handle, 16)))).toBeLessThan(parseInt(seed, 16));
+    });
+
+    it('writes wall outlines and closed room boundaries on their layers', () => {
+      const entities = readEntities(generateDXF(createMockGraph(), { pixelsPerMm: 0.1 }));
+      const walls = entities.filter((e) => value(e, 8) === 'WALLS');
+      const rooms = entities.filter((e) => value(e, 8) === 'ROOMS' && value(e, 0) === 'LWPOLYLINE');
+
+      expect(walls).toHaveLength(4);
+      walls.forEach((wall) => {
+        expect(value(wall, 0)).toBe('LWPOLYLINE');
+        expect(value(wall, 70)).toBe('1');
+      });
+
+      expect(rooms).toHaveLength(1);
+      expect(value(rooms[0], 70)).toBe('1');
+      // 100 px at 0.1 px/mm is 1000 mm; Y is flipped to point up
+      expect(values(rooms[0], 10).sort((a, b) => a - b)).toEqual([0, 0, 1000, 1000]);
+      expect(values(rooms[0], 20).sort((a, b) => a - b)).toEqual([-1000, -1000, 0, 0]);
+    });
+
+    it('writes each hole as its own closed room boundary', () => {
+      const entities = readEntities(generateDXF(createGraphWithColumn(), { pixelsPerMm: 0.1 }));
+      const rooms = entities.filter((e) => value(e, 8) === 'ROOMS' && value(e, 0) === 'LWPOLYLINE');
+
+      // Room outline, its hole, and the column's own boundary
+      expect(rooms).toHaveLength(3);
+      rooms.forEach((room) => expect(value(room, 70)).toBe('1'));
+      expect(rooms.filter((room) => values(room, 10).includes(400))).toHaveLength(2);
+    });
+
+    it('writes centrelines as LINE entities when outlines are off', () => {
+      const entities = readEntities(generateDXF(createMockGraph(), { wallOutlines: false }));
+      const walls = entities.filter((e) => value(e, 8) === 'WALLS');
+
+      expect(walls).toHaveLength(4);
+      walls.forEach((wall) => expect(value(wall, 0)).toBe('LINE'));
+    });
+
+    it('keeps curves as polyline bulges and ARC centrelines', () => {
+      const outlines = readEntities(generateDXF(createGraphWithArc()));
+      const room = outlines.find((e) => value(e, 8) === 'ROOMS' && value(e, 0) === 'LWPOLYLINE')!;
+      // Y is flipped, so the bulge changes sign
+      expect(values(room, 42)).toEqual([-1]);
+
+      const centrelines = readEntities(generateDXF(createGraphWithArc(), { wallOutlines: false }));
+      const arc = centrelines.find((e) => value(e, 0) === 'ARC')!;
+      expect(value(arc, 8)).toBe('WALLS');
+      expect([values(arc, 10)[0], values(arc, 20)[0], values(arc, 40)[0]]).toEqual([1000, -500, 500]);
+      // Counter-clockwise from the bottom to the top, through the right-hand side
+      expect([values(arc, 50)[0], values(arc, 51)[0]]).toEqual([270, 90]);
+    });
+
+    it('writes separators as dashed lines on their own layer', () => {
+      const dxf = generateDXF(createGraphWithSeparator());
+      const separators = readEntities(dxf).filter((e) => value(e, 8) === 'SEPARATORS');
+
+      expect(separators).toHaveLength(1);
+      expect(value(separators[0], 0)).toBe('LINE');
+      expect(dxf).toContain('SEPARATORS\n70\n0\n62\n8\n6\nDASHED');
+    });
+
+    it('labels rooms with their name and area', () => {
+      const texts = readEntities(generateDXF(createMockGraph()))
+        .filter((e) => value(e, 0) === 'TEXT')
+        .map((e) => value(e, 1));
+
+      expect(texts).toHaveLength(2);
+      expect(texts[1]).toBe('1.00 m\\U+00B2');
+    });
+  });
 });
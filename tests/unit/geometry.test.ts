@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { getSnappedPoint } from '../../src/utils/geometry';
+import { getSnappedPoint, getSnappedPointWithInfo, lineSegmentIntersection, lineSegmentsIntersect } from '../../src/utils/geometry';
 import type { Vertex } from '../../src/types/spatial';
 
 describe('getSnappedPoint', () => {
@@ -71,3 +71,76 @@ describe('getSnappedPoint', () => {
     expect(getSnappedPoint(cursor, resolution, vertices, 2)).toEqual({ x: 106, y: 106 });
   });
 });
+
+describe('getSnappedPointWithInfo', () => {
+  const start: Vertex = { id: 'start', x: 0, y: 0 };
+
+  it('locks to the nearest axis in orthogonal mode and snaps the length along it', () => {
+    const snapped = getSnappedPointWithInfo({ x: 104, y: 30 }, 10, [], 1, start, { orthogonal: true });
+    expect(snapped).toMatchObject({ x: 100, y: 0, kind: 'angle', lockedAngle: 0 });
+
+    const up = getSnappedPointWithInfo({ x: 30, y: -104 }, 10, [], 1, start, { orthogonal: true });
+    expect(up.x).toBeCloseTo(0);
+    expect(up.y).toBeCloseTo(-100);
+    expect(up.lockedAngle).toBeCloseTo(-Math.PI / 2);
+  });
+
+  it('snaps to angle increments only near them', () => {
+    // 3° off the 45° diagonal at length 100 is about 5 units from it, within the radius of 10
+    const angle = (48 * Math.PI) / 180;
+    const near = getSnappedPointWithInfo({ x: 100 * Math.cos(angle), y: 100 * Math.sin(angle) }, 0, [], 1, start, { angleIncrement: 45 });
+    expect(near.kind).toBe('angle');
+    expect(near.lockedAngle).toBeCloseTo(Math.PI / 4);
+    expect(near.x).toBeCloseTo(near.y);
+
+    // Half way between increments the angle stays free and only the length snaps
+    const between = getSnappedPointWithInfo({ x: 100, y: 41 }, 10, [], 1, start, { angleIncrement: 45 });
+    expect(between.kind).toBe('length');
+    expect(between.lockedAngle).toBeUndefined();
+  });
+
+  it('tracks angles relative to the previous segment', () => {
+    // Previous wall at 10°; 90° from it is 100°, which no increment of the axes reaches
+    const reference = (10 * Math.PI) / 180;
+    const target = reference + Math.PI / 2;
+    const cursor = { x: 200 * Math.cos(target) + 3, y: 200 * Math.sin(target) };
+
+    const snapped = getSnappedPointWithInfo(cursor, 0, [], 1, start, { angleIncrement: 45, referenceAngle: reference });
+    expect(snapped.lockedAngle).toBeCloseTo(target);
+  });
+
+  it('gives vertices priority over the angle lock', () => {
+    const vertex: Vertex = { id: 'v', x: 103, y: 8 };
+    const snapped = getSnappedPointWithInfo({ x: 104, y: 5 }, 10, [vertex], 1, start, { orthogonal: true });
+    expect(snapped).toEqual({ x: 103, y: 8, kind: 'vertex' });
+  });
+
+  it('matches getSnappedPoint without options', () => {
+    const cursor = { x: 12, y: 12 };
+    const { x, y } = getSnappedPointWithInfo(cursor, 10, [], 1, start);
+    expect(getSnappedPoint(cursor, 10, [], 1, start)).toEqual({ x, y });
+  });
+});
+
+describe('lineSegmentIntersection', () => {
+  it('returns the crossing point and its position along both segments', () => {
+    const hit = lineSegmentIntersection({ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 1, y: -1 }, { x: 1, y: 3 });
+
+    expect(hit).toEqual({ x: 1, y: 0, t: 0.25, u: 0.25 });
+  });
+
+  it('returns null for parallel or non-meeting segments', () => {
+    expect(lineSegmentIntersection({ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 0, y: 1 }, { x: 4, y: 1 })).toBeNull();
+    expect(lineSegmentIntersection({ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 5, y: -1 }, { x: 5, y: 1 })).toBeNull();
+  });
+
+  it('includes touching endpoints, unlike lineSegmentsIntersect', () => {
+    const a: Vertex = { id: 'a', x: 0, y: 0 };
+    const b: Vertex = { id: 'b', x: 4, y: 0 };
+    const c: Vertex = { id: 'c', x: 4, y: 0 };
+    const d: Vertex = { id: 'd', x: 4, y: 4 };
+
+    expect(lineSegmentIntersection(a, b, c, d)).toMatchObject({ t: 1, u: 0 });
+    expect(lineSegmentsIntersect(a, b, c, d)).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { SpatialGraph } from '../../src/utils/spatialGraph';
+import {
+  hitTest,
+  hitTestSurface,
+  findElementsInRect,
+  rectFromPoints,
+} from '../../src/utils/hitTesting';
+import { isPointInPolygon } from '../../src/utils/geometry';
+import { createLShapedRoom, createRectangle, createTwoAdjacentRooms } from '../helpers/mockData';
+
+const buildGraph = ({ vertices, edges }: ReturnType<typeof createRectangle>) => {
+  const graph = new SpatialGraph();
+  vertices.forEach(v => graph.addVertex(v));
+  edges.forEach(e => graph.addEdge(e));
+  return graph;
+};
+
+describe('Hit Testing', () => {
+  it('prefers vertices over edges', () => {
+    const graph = buildGraph(createRectangle(0, 0, 100, 100));
+
+    expect(hitTest(graph, { x: 3, y: 2 })).toEqual({ type: 'vertex', id: 'p1' });
+  });
+
+  it('hits edges near their centreline', () => {
+    const graph = buildGraph(createRectangle(0, 0, 100, 100));
+
+    expect(hitTest(graph, { x: 50, y: 4 })).toEqual({ type: 'edge', id: 'w1' });
+  });
+
+  it('hits surfaces by point-in-polygon', () => {
+    const graph = buildGraph(createRectangle(0, 0, 100, 100));
+    const [surface] = Array.from(graph.getSurfaces().values());
+
+    expect(hitTest(graph, { x: 50, y: 50 })).toEqual({ type: 'surface', id: surface.id });
+    expect(hitTest(graph, { x: 150, y: 50 })).toBeNull();
+  });
+
+  it('does not hit the notch of an L-shaped room', () => {
+    const graph = buildGraph(createLShapedRoom());
+
+    expect(hitTestSurface(graph, { x: 150, y: 150 })).not.toBeNull();
+    expect(hitTestSurface(graph, { x: 50, y: 150 })).toBeNull();
+  });
+
+  it('picks the room on the correct side of a shared wall', () => {
+    const graph = buildGraph(createTwoAdjacentRooms());
+    const left = hitTestSurface(graph, { x: 50, y: 50 });
+    const right = hitTestSurface(graph, { x: 150, y: 50 });
+
+    expect(left).not.toBeNull();
+    expect(right).not.toBeNull();
+    expect(left).not.toBe(right);
+  });
+
+  it('does not hit a room inside its holes', () => {
+    const graph = buildGraph(createRectangle(0, 0, 300, 300));
+    const island = createRectangle(10, 10, 280, 280, 'i');
+    island.vertices.forEach(v => graph.addVertex(v));
+    island.edges.forEach(e => graph.addEdge(e));
+    const ring = Array.from(graph.getSurfaces().values()).find(s => s.edgeIds.includes('w1'))!;
+    const inner = Array.from(graph.getSurfaces().values()).find(s => s.edgeIds.includes('iw1'))!;
+
+    // The ring around the island has the smaller area, but the island wins inside it
+    expect(ring.area).toBeLessThan(inner.area);
+    expect(hitTestSurface(graph, { x: 150, y: 150 })).toBe(inner.id);
+    expect(hitTestSurface(graph, { x: 5, y: 150 })).toBe(ring.id);
+  });
+
+  it('selects only fully enclosed elements in a marquee', () => {
+    const graph = buildGraph(createTwoAdjacentRooms());
+    const rect = rectFromPoints({ x: 110, y: 110 }, { x: -10, y: -10 });
+    const ids = findElementsInRect(graph, rect);
+
+    expect(ids).toEqual(expect.arrayContaining(['A', 'B', 'D', 'E', 'w1', 'w2', 'w3', 'w4']));
+    expect(ids).not.toContain('C');
+    expect(ids).not.toContain('w5');
+    expect(ids.filter(id => graph.hasSurface(id))).toHaveLength(1);
+  });
+});
+
+describe('isPointInPolygon', () => {
+  const square = [
+    { x: 0, y: 0 },
+    { x: 10, y: 0 },
+    { x: 10, y: 10 },
+    { x: 0, y: 10 },
+  ];
+
+  it('detects inside and outside points', () => {
+    expect(isPointInPolygon({ x: 5, y: 5 }, square)).toBe(true);
+    expect(isPointInPolygon({ x: 15, y: 5 }, square)).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { SpatialGraph } from '../../src/utils/spatialGraph';
+import { generateJSON } from '../../src/utils/export';
+import { parseFloorplanJSON } from '../../src/utils/import';
+import { createTwoAdjacentRooms } from '../helpers/mockData';
+
+const createGraph = () => {
+  const graph = new SpatialGraph();
+  const { vertices, edges } = createTwoAdjacentRooms();
+  vertices.forEach(v => graph.addVertex(v));
+  edges.forEach(e => graph.addEdge(e));
+  return graph;
+};
+
+describe('Import', () => {
+  it('round-trips the JSON export', () => {
+    const graph = createGraph();
+    graph.addOpening({ id: 'o1', edgeId: 'w1', offset: 0.5, width: 900, type: 'door' });
+
+    const result = parseFloorplanJSON(generateJSON(graph));
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.issues).toEqual([]);
+    expect(result.fromVersion).toBe(1);
+    expect(result.graph.getEdges()).toEqual(graph.getEdges());
+    expect(result.graph.getOpenings()).toEqual(graph.getOpenings());
+    result.graph.getVertices().forEach((vertex, id) => {
+      expect(vertex.x).toBeCloseTo(graph.getVertex(id)!.x);
+      expect(vertex.y).toBeCloseTo(graph.getVertex(id)!.y);
+    });
+    expect(result.graph.getSurfaces().size).toBe(2);
+  });
+
+  it('rebuilds geometry at the requested scale', () => {
+    const result = parseFloorplanJSON(generateJSON(createGraph()), 0.2);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.graph.getVertex('C')!.x).toBeCloseTo(400);
+  });
+
+  it('rejects invalid JSON', () => {
+    const result = parseFloorplanJSON('{ not json');
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.errors[0]).toMatch(/^Invalid JSON/);
+  });
+
+  it('upgrades the unversioned format and reports errors with their location', () => {
+    const result = parseFloorplanJSON(JSON.stringify({
+      vertices: [{ id: 'a', x: 0, y: 0 }, { id: 'b', x: 'ten', y: 0 }],
+      edges: [{ id: 'e', startVertexId: 'a' }],
+    }));
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.errors).toEqual([
+      'data.vertices[1].x: expected a finite number',
+      'data.edges[0].endVertexId: expected a string',
+    ]);
+  });
+
+  it('loads plans with integrity issues and reports them', () => {
+    const result = parseFloorplanJSON(JSON.stringify({
+      vertices: [{ id: 'a', x: 0, y: 0 }],
+      edges: [{ id: 'e', startVertexId: 'a', endVertexId: 'missing' }],
+      surfaces: [],
+    }));
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.fromVersion).toBe(0);
+    expect(result.issues).toEqual(['Edge e references missing end vertex missing']);
+  });
+
+  it('detects rooms when the file has no surfaces', () => {
+    const data = createGraph().toJSON();
+    const result = parseFloorplanJSON(JSON.stringify({ vertices: data.vertices, edges: data.edges }));
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.graph.getSurfaces().size).toBe(2);
+  });
+});
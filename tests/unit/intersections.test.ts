@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { SpatialGraph } from '../../src/utils/spatialGraph';
+import { findSegmentCrossings } from '../../src/utils/intersections';
+import { createRectangle } from '../helpers/mockData';
+import type { Vertex } from '../../src/types/spatial';
+
+const createSquare = () => {
+  const graph = new SpatialGraph();
+  const { vertices, edges } = createRectangle(0, 0, 100, 100);
+  vertices.forEach(v => graph.addVertex(v));
+  edges.forEach(e => graph.addEdge(e));
+  return graph;
+};
+
+const vertex = (id: string, x: number, y: number): Vertex => ({ id, x, y });
+
+describe('findSegmentCrossings', () => {
+  it('finds proper crossings in order along the segment', () => {
+    const crossings = findSegmentCrossings(createSquare(), vertex('a', -50, 50), vertex('b', 150, 50));
+
+    expect(crossings).toHaveLength(2);
+    expect(crossings[0]).toMatchObject({ x: 0, y: 50, vertexId: null, splits: [{ edgeId: 'w4', u: 0.5 }] });
+    expect(crossings[0].t).toBeCloseTo(0.25);
+    expect(crossings[1]).toMatchObject({ x: 100, y: 50, splits: [{ edgeId: 'w2', u: 0.5 }] });
+  });
+
+  it('reports endpoints resting on an edge as T-junctions', () => {
+    const crossings = findSegmentCrossings(createSquare(), vertex('a', 50, 0), vertex('b', 50, 100));
+
+    expect(crossings).toEqual([
+      { t: 0, x: 50, y: 0, vertexId: null, splits: [{ edgeId: 'w1', u: 0.5 }] },
+      { t: 1, x: 50, y: 100, vertexId: null, splits: [{ edgeId: 'w3', u: 0.5 }] },
+    ]);
+  });
+
+  it('passes through existing vertices without splitting their edges', () => {
+    const crossings = findSegmentCrossings(createSquare(), vertex('a', -50, -50), vertex('b', 150, 150));
+
+    expect(crossings.map(c => c.vertexId)).toEqual(['p1', 'p3']);
+    expect(crossings.every(c => c.splits.length === 0)).toBe(true);
+  });
+
+  it('splits both segments at each other\'s endpoints on a collinear overlap', () => {
+    const crossings = findSegmentCrossings(createSquare(), vertex('a', 50, 0), vertex('b', 150, 0));
+
+    expect(crossings.map(({ t, vertexId, splits }) => ({ t, vertexId, splits }))).toEqual([
+      { t: 0, vertexId: null, splits: [{ edgeId: 'w1', u: 0.5 }] },
+      { t: 0.5, vertexId: 'p2', splits: [] },
+    ]);
+  });
+
+  it('ignores edges the segment only meets at its own endpoints', () => {
+    expect(findSegmentCrossings(createSquare(), vertex('p1', 0, 0), vertex('b', -100, -100))).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findPoleOfInaccessibility,
+  getLabelFitScale,
+  signedDistanceToPolygon,
+} from '../../src/utils/labelPlacement';
+import { isPointInPolygon, polygonCentroid } from '../../src/utils/geometry';
+
+const square = (x: number, y: number, size: number) => [
+  { x, y },
+  { x: x + size, y },
+  { x: x + size, y: y + size },
+  { x, y: y + size },
+];
+
+// 300 × 300 with a 100 × 200 notch cut into the top edge
+const uShape = [
+  { x: 0, y: 0 },
+  { x: 100, y: 0 },
+  { x: 100, y: 200 },
+  { x: 200, y: 200 },
+  { x: 200, y: 0 },
+  { x: 300, y: 0 },
+  { x: 300, y: 300 },
+  { x: 0, y: 300 },
+];
+
+describe('polygonCentroid', () => {
+  it('weights by area rather than by vertex', () => {
+    const lShape = [
+      { x: 0, y: 0 },
+      { x: 100, y: 0 },
+      { x: 200, y: 0 },
+      { x: 200, y: 100 },
+      { x: 200, y: 200 },
+      { x: 100, y: 200 },
+      { x: 100, y: 100 },
+      { x: 0, y: 100 },
+    ];
+    const centroid = polygonCentroid(lShape);
+
+    expect(centroid.x).toBeCloseTo(350 / 3);
+    expect(centroid.y).toBeCloseTo(250 / 3);
+  });
+
+  it('does not depend on winding', () => {
+    expect(polygonCentroid([...uShape].reverse())).toEqual(polygonCentroid(uShape));
+  });
+});
+
+describe('findPoleOfInaccessibility', () => {
+  it('finds the centre of a rectangle', () => {
+    const pole = findPoleOfInaccessibility([{ x: 0, y: 0 }, { x: 200, y: 0 }, { x: 200, y: 100 }, { x: 0, y: 100 }]);
+
+    expect(pole).toEqual({ x: 100, y: 50, distance: 50 });
+  });
+
+  it('stays inside a room whose centroid lies outside it', () => {
+    const centroid = polygonCentroid(uShape);
+    const pole = findPoleOfInaccessibility(uShape);
+
+    expect(isPointInPolygon(centroid, uShape)).toBe(false);
+    expect(isPointInPolygon(pole, uShape)).toBe(true);
+    expect(pole.distance).toBeGreaterThan(49);
+  });
+
+  it('keeps clear of holes', () => {
+    const pole = findPoleOfInaccessibility(square(0, 0, 300), [square(100, 100, 100)]);
+
+    expect(signedDistanceToPolygon(pole, square(0, 0, 300), [square(100, 100, 100)])).toBeCloseTo(pole.distance);
+    expect(pole.distance).toBeGreaterThan(49);
+    expect(isPointInPolygon(pole, square(100, 100, 100))).toBe(false);
+  });
+});
+
+describe('getLabelFitScale', () => {
+  it('is the scale at which the box touches the nearest wall', () => {
+    expect(getLabelFitScale({ x: 50, y: 50 }, 25, 10, square(0, 0, 100))).toBeCloseTo(2);
+    expect(getLabelFitScale({ x: 50, y: 50 }, 100, 10, square(0, 0, 100))).toBeCloseTo(0.5);
+  });
+
+  it('accounts for diagonal walls and holes', () => {
+    const triangle = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 0, y: 100 }];
+    // The box corner (30 + 10s, 30 + 10s) reaches the hypotenuse x + y = 100 at s = 2
+    expect(getLabelFitScale({ x: 30, y: 30 }, 10, 10, triangle)).toBeCloseTo(2);
+    expect(getLabelFitScale({ x: 50, y: 20 }, 10, 10, square(0, 0, 100), [square(40, 40, 20)])).toBeCloseTo(2);
+  });
+
+  it('is zero outside the room', () => {
+    expect(getLabelFitScale({ x: 150, y: 50 }, 10, 10, uShape)).toBe(0);
+    expect(getLabelFitScale({ x: 50, y: 50 }, 10, 10, square(0, 0, 100), [square(40, 40, 20)])).toBe(0);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { parseLengthEntry, resolveLengthEntry } from '../../src/utils/lengthEntry';
+
+describe('Length entry', () => {
+  describe('parseLengthEntry', () => {
+    it('reads lengths, lengths with angles and relative offsets', () => {
+      expect(parseLengthEntry('3450')).toEqual({ type: 'length', length: 3450 });
+      expect(parseLengthEntry(' 12.5 ')).toEqual({ type: 'length', length: 12.5 });
+      expect(parseLengthEntry('3450<90')).toEqual({ type: 'polar', length: 3450, angle: 90 });
+      expect(parseLengthEntry('@3450 < -45')).toEqual({ type: 'polar', length: 3450, angle: -45 });
+      expect(parseLengthEntry('@1200,-300')).toEqual({ type: 'offset', dx: 1200, dy: -300 });
+    });
+
+    it('rejects incomplete input and entries that would not move the end', () => {
+      ['', '@', '3450<', '@1200,', '12,5', 'abc', '1e3', '0', '0<90', '@0,0'].forEach((text) =>
+        expect(parseLengthEntry(text)).toBeNull()
+      );
+    });
+  });
+
+  describe('resolveLengthEntry', () => {
+    const start = { x: 100, y: 100 };
+    const pixelsPerMm = 0.1;
+
+    it('points a bare length towards the cursor', () => {
+      const end = resolveLengthEntry({ type: 'length', length: 500 }, start, { x: 100, y: 400 }, pixelsPerMm);
+      expect(end).toEqual({ x: 100, y: 150 });
+
+      // With the cursor on the start point there is no direction, so it runs along X
+      expect(resolveLengthEntry({ type: 'length', length: 500 }, start, start, pixelsPerMm)).toEqual({ x: 150, y: 100 });
+    });
+
+    it('measures angles counter-clockwise on screen, so 90 points up', () => {
+      const up = resolveLengthEntry({ type: 'polar', length: 1000, angle: 90 }, start, start, pixelsPerMm);
+      expect(up.x).toBeCloseTo(100);
+      expect(up.y).toBeCloseTo(0);
+
+      const left = resolveLengthEntry({ type: 'polar', length: 1000, angle: 180 }, start, start, pixelsPerMm);
+      expect(left.x).toBeCloseTo(0);
+      expect(left.y).toBeCloseTo(100);
+    });
+
+    it('counts offsets in millimetres with Y upwards', () => {
+      expect(resolveLengthEntry({ type: 'offset', dx: 1200, dy: 300 }, start, start, pixelsPerMm)).toEqual({ x: 220, y: 70 });
+    });
+  });
+});
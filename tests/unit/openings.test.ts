@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { SpatialGraph } from '../../src/utils/spatialGraph';
+import {
+  getDoorSwing,
+  getOffsetAlongEdge,
+  getOpeningPlacement,
+  redistributeOpenings,
+} from '../../src/utils/openings';
+import { generateCSV, generateJSON } from '../../src/utils/export';
+import type { Edge, Opening } from '../../src/types/spatial';
+
+const PIXELS_PER_MM = 0.1;
+
+const createWall = () => {
+  const graph = new SpatialGraph();
+  graph.addVertex({ id: 'a', x: 0, y: 0 });
+  graph.addVertex({ id: 'b', x: 100, y: 0 });
+  graph.addEdge({ id: 'w', startVertexId: 'a', endVertexId: 'b' });
+  return graph;
+};
+
+const door: Opening = { id: 'd', edgeId: 'w', offset: 0.5, width: 400, type: 'door', hinge: 'start', swing: 'left' };
+
+describe('Openings', () => {
+  describe('getOpeningPlacement', () => {
+    it('centres the opening at its offset', () => {
+      const placement = getOpeningPlacement(createWall(), door, PIXELS_PER_MM)!;
+
+      expect(placement.start).toEqual({ x: 30, y: 0 });
+      expect(placement.end).toEqual({ x: 70, y: 0 });
+      expect(placement.left).toBeCloseTo(7.5);
+    });
+
+    it('keeps the opening within the host edge', () => {
+      const graph = createWall();
+
+      expect(getOpeningPlacement(graph, { ...door, offset: 0 }, PIXELS_PER_MM)!.start).toEqual({ x: 0, y: 0 });
+      expect(getOpeningPlacement(graph, { ...door, width: 5000 }, PIXELS_PER_MM)!.width).toBe(100);
+    });
+
+    it('slides with the host edge', () => {
+      const graph = createWall();
+      graph.moveVertices(new Map([['b', { x: 0, y: 200 }]]));
+
+      expect(getOpeningPlacement(graph, door, PIXELS_PER_MM)!.center).toEqual({ x: 0, y: 100 });
+    });
+
+    it('projects points onto the host edge', () => {
+      expect(getOffsetAlongEdge(createWall(), 'w', { x: 25, y: 40 })).toBeCloseTo(0.25);
+      expect(getOffsetAlongEdge(createWall(), 'w', { x: -50, y: 0 })).toBe(0);
+    });
+  });
+
+  describe('getDoorSwing', () => {
+    it('opens the leaf perpendicular to the wall on the swing side', () => {
+      const placement = getOpeningPlacement(createWall(), door, PIXELS_PER_MM)!;
+      const { pivot, arc } = getDoorSwing(placement, door);
+
+      // Left of an edge pointing +x is -y on screen
+      expect(pivot.x).toBeCloseTo(30);
+      expect(pivot.y).toBeCloseTo(-7.5);
+      expect(arc[0].x).toBeCloseTo(30);
+      expect(arc[0].y).toBeCloseTo(-47.5);
+      expect(arc[arc.length - 1].x).toBeCloseTo(70);
+      expect(arc[arc.length - 1].y).toBeCloseTo(-7.5);
+    });
+  });
+
+  describe('redistributeOpenings', () => {
+    const original: Edge = { id: 'w', startVertexId: 'a', endVertexId: 'b' };
+
+    it('moves openings to the piece containing their centre', () => {
+      const edge1: Edge = { id: 'w1', startVertexId: 'a', endVertexId: 'm' };
+      const edge2: Edge = { id: 'w2', startVertexId: 'm', endVertexId: 'b' };
+      const [first, second] = redistributeOpenings(
+        [{ ...door, offset: 0.25 }, { ...door, id: 'd2', offset: 0.75 }],
+        original,
+        0.5,
+        edge1,
+        edge2
+      );
+
+      expect(first).toMatchObject({ edgeId: 'w1', offset: 0.5 });
+      expect(second).toMatchObject({ edgeId: 'w2', offset: 0.5 });
+    });
+
+    it('mirrors openings on pieces that run backwards', () => {
+      const edge1: Edge = { id: 'w1', startVertexId: 'm', endVertexId: 'a' };
+      const edge2: Edge = { id: 'w2', startVertexId: 'm', endVertexId: 'b' };
+      const [moved] = redistributeOpenings([{ ...door, offset: 0.1 }], original, 0.5, edge1, edge2);
+
+      expect(moved.edgeId).toBe('w1');
+      expect(moved.offset).toBeCloseTo(0.8);
+      expect(moved).toMatchObject({ hinge: 'end', swing: 'right' });
+    });
+  });
+
+  describe('graph and export', () => {
+    it('removes openings with their host edge', () => {
+      const graph = createWall();
+      graph.addOpening(door);
+      graph.removeEdge('w');
+
+      expect(graph.getOpenings().size).toBe(0);
+    });
+
+    it('includes openings in JSON and CSV exports', () => {
+      const graph = createWall();
+      graph.addOpening(door);
+
+      expect(JSON.parse(generateJSON(graph)).data.openings).toEqual([door]);
+
+      const lines = generateCSV(graph, PIXELS_PER_MM).openings.split('\n');
+      expect(lines[0]).toBe('ID,Wall ID,Type,Offset (mm),Width (mm),Hinge,Swing');
+      expect(lines[1]).toBe('d,w,door,500.00,400,start,left');
+    });
+  });
+});
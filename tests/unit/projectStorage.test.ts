@@ -0,0 +1,13 @@
+import { describe, it, expect } from 'vitest';
+import { getCopyName } from '../../src/utils/projectStorage';
+
+describe('getCopyName', () => {
+  it('appends "(copy)" to the name', () => {
+    expect(getCopyName('House', ['House'])).toBe('House (copy)');
+  });
+
+  it('numbers further copies', () => {
+    expect(getCopyName('House', ['House', 'House (copy)'])).toBe('House (copy 2)');
+    expect(getCopyName('House', ['House', 'House (copy)', 'House (copy 2)'])).toBe('House (copy 3)');
+  });
+});
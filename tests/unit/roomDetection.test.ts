@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { updateRoomIds, generateRoomSignature } from '../../src/utils/roomDetection';
+import { updateRoomIds, generateRoomSignature, getSurfaceDetectionOptions } from '../../src/utils/roomDetection';
 import type { Surface } from '../../src/types/spatial';
 
 describe('Room Detection', () => {
@@ -95,3 +95,14 @@ describe('Room Detection', () => {
     expect(result.map(r => r.id).sort()).toEqual(['2', '3']);
   });
 });
+
+describe('getSurfaceDetectionOptions', () => {
+  it('converts the minimum room area to pixels² at the current scale', () => {
+    const settings = { minRoomArea: 2, includeVirtualSeparators: true, ignoreFilaments: true };
+
+    expect(getSurfaceDetectionOptions(settings, 0.1).minArea).toBeCloseTo(2 * 1000000 * 0.01);
+    expect(getSurfaceDetectionOptions(settings, 0.2).minArea).toBeCloseTo(2 * 1000000 * 0.04);
+    expect(getSurfaceDetectionOptions(settings, 0.1).ignoreFilaments).toBe(true);
+    expect(getSurfaceDetectionOptions(settings, 0.1).includeSeparators).toBe(true);
+  });
+});
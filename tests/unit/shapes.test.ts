@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getRectangleCorners,
+  getRegularPolygonCorners,
+  parseRectangleSize,
+  resolveRectangleSize,
+  snapRectangleCorner,
+} from '../../src/utils/shapes';
+
+describe('Shapes', () => {
+  describe('parseRectangleSize', () => {
+    it('reads width and height with any of the separators', () => {
+      expect(parseRectangleSize('4200x3000')).toEqual({ width: 4200, height: 3000 });
+      expect(parseRectangleSize(' 4200 × 3000 ')).toEqual({ width: 4200, height: 3000 });
+      expect(parseRectangleSize('4200*3000.5')).toEqual({ width: 4200, height: 3000.5 });
+      expect(parseRectangleSize('-4200,3000')).toEqual({ width: -4200, height: 3000 });
+    });
+
+    it('rejects incomplete input and sizes without area', () => {
+      ['', '4200', '4200x', 'x3000', '0x3000', '4200x0', 'axb'].forEach((text) =>
+        expect(parseRectangleSize(text)).toBeNull()
+      );
+    });
+  });
+
+  describe('resolveRectangleSize', () => {
+    const corner = { x: 100, y: 100 };
+
+    it('extends the rectangle towards the cursor', () => {
+      expect(resolveRectangleSize({ width: 1000, height: 500 }, corner, { x: 300, y: 300 }, 0.1)).toEqual({ x: 200, y: 150 });
+      expect(resolveRectangleSize({ width: 1000, height: 500 }, corner, { x: 0, y: 0 }, 0.1)).toEqual({ x: 0, y: 50 });
+    });
+
+    it('extends right and up when the cursor is on the corner', () => {
+      expect(resolveRectangleSize({ width: 1000, height: 500 }, corner, corner, 0.1)).toEqual({ x: 200, y: 50 });
+    });
+  });
+
+  it('snaps width and height to the resolution separately', () => {
+    expect(snapRectangleCorner({ x: 143, y: 76 }, { x: 0, y: 0 }, 10)).toEqual({ x: 140, y: 80 });
+    expect(snapRectangleCorner({ x: 143, y: 76 }, { x: 5, y: 5 }, 10)).toEqual({ x: 145, y: 75 });
+    expect(snapRectangleCorner({ x: 143, y: 76 }, { x: 0, y: 0 }, 0)).toEqual({ x: 143, y: 76 });
+  });
+
+  it('lists the corners of a rectangle starting at the first', () => {
+    expect(getRectangleCorners({ x: 0, y: 0 }, { x: 200, y: 100 })).toEqual([
+      { x: 0, y: 0 },
+      { x: 200, y: 0 },
+      { x: 200, y: 100 },
+      { x: 0, y: 100 },
+    ]);
+  });
+
+  it('places regular polygon corners on a circle, starting at the given corner', () => {
+    const corners = getRegularPolygonCorners({ x: 0, y: 0 }, { x: 100, y: 0 }, 6);
+    expect(corners).toHaveLength(6);
+    expect(corners[0]).toEqual({ x: 100, y: 0 });
+    corners.forEach((corner, i) => {
+      expect(Math.hypot(corner.x, corner.y)).toBeCloseTo(100);
+      const next = corners[(i + 1) % corners.length];
+      // A hexagon's sides are as long as its radius
+      expect(Math.hypot(next.x - corner.x, next.y - corner.y)).toBeCloseTo(100);
+    });
+  });
+});
@@ -12,6 +12,7 @@ import {
   createRectangleWithFilament,
   createSquareWithDiagonal,
 } from '../helpers/mockData';
+import { signedDistanceToPolygon } from '../../src/utils/labelPlacement';
 
 // Helper to convert Map to Array
 function surfacesToArray(surfacesMap: ReturnType<SpatialGraph['getSurfaces']>) {
@@ -356,4 +357,453 @@ describe('SpatialGraph - Surface Property Calculations', () => {
       y: y + height / 2
     });
   });
+
+  test('weights the centroid by area and places the label inside the room', () => {
+    const { vertices, edges } = createLShapedRoom();
+    vertices.forEach(v => graph.addVertex(v));
+    edges.forEach(e => graph.addEdge(e));
+
+    const [surface] = surfacesToArray(graph.getSurfaces());
+    expect(surface.centroid.x).toBeCloseTo(350 / 3);
+    expect(surface.centroid.y).toBeCloseTo(250 / 3);
+
+    const polygon = graph.getSurfacePolygon(surface.id);
+    expect(signedDistanceToPolygon(surface.labelPosition!, polygon)).toBeGreaterThan(45);
+  });
+});
+
+describe('SpatialGraph - Holes', () => {
+  const addRectangle = (graph: SpatialGraph, x: number, y: number, size: number, prefix: string) => {
+    const { vertices, edges } = createRectangle(x, y, size, size, prefix);
+    vertices.forEach(v => graph.addVertex(v));
+    edges.forEach(e => graph.addEdge(e));
+  };
+  const findByEdge = (graph: SpatialGraph, edgeId: string) =>
+    surfacesToArray(graph.getSurfaces()).find(s => s.edgeIds.includes(edgeId))!;
+
+  test('an island inside a room becomes a hole and its area is subtracted', () => {
+    const graph = new SpatialGraph();
+    addRectangle(graph, 0, 0, 400, 'o');
+    addRectangle(graph, 150, 150, 100, 'c');
+
+    const room = findByEdge(graph, 'ow1');
+    const column = findByEdge(graph, 'cw1');
+
+    expect(graph.getSurfaces().size).toBe(2);
+    expect(room.area).toBe(400 * 400 - 100 * 100);
+    expect(room.holes).toHaveLength(1);
+    expect([...room.holes![0]].sort()).toEqual(['cw1', 'cw2', 'cw3', 'cw4']);
+    expect(graph.getSurfaceHoles(room.id)[0].map(v => v.id).sort()).toEqual(['cp1', 'cp2', 'cp3', 'cp4']);
+
+    // The island keeps its own surface
+    expect(column.area).toBe(100 * 100);
+    expect(column.holes).toBeUndefined();
+  });
+
+  test('an island below the minimum room area is still a hole', () => {
+    const graph = new SpatialGraph();
+    addRectangle(graph, 0, 0, 400, 'o');
+    addRectangle(graph, 150, 150, 80, 'c');
+
+    graph.setDetectionOptions({ minArea: 10000 });
+
+    const rooms = surfacesToArray(graph.getSurfaces());
+    expect(rooms).toHaveLength(1);
+    expect(rooms[0].area).toBe(400 * 400 - 80 * 80);
+    expect(rooms[0].holes!.map(hole => [...hole].sort())).toEqual([['cw1', 'cw2', 'cw3', 'cw4']]);
+  });
+
+  test('moves the centroid away from the holes by area', () => {
+    const graph = new SpatialGraph();
+    addRectangle(graph, 0, 0, 400, 'o');
+    addRectangle(graph, 250, 150, 100, 'c');
+
+    const room = findByEdge(graph, 'ow1');
+    expect(room.centroid.x).toBeCloseTo((160000 * 200 - 10000 * 300) / 150000);
+    expect(room.centroid.y).toBeCloseTo(200);
+  });
+
+  test('places the label clear of the holes', () => {
+    const graph = new SpatialGraph();
+    addRectangle(graph, 0, 0, 400, 'o');
+    addRectangle(graph, 150, 150, 100, 'c');
+
+    const room = findByEdge(graph, 'ow1');
+    const distance = signedDistanceToPolygon(
+      room.labelPosition!,
+      graph.getSurfacePolygon(room.id),
+      graph.getSurfaceHoles(room.id)
+    );
+    expect(distance).toBeGreaterThan(70);
+  });
+
+  test('a nested island belongs to the smallest room around it', () => {
+    const graph = new SpatialGraph();
+    addRectangle(graph, 0, 0, 600, 'o');
+    addRectangle(graph, 100, 100, 400, 'm');
+    addRectangle(graph, 250, 250, 100, 'i');
+
+    const outer = findByEdge(graph, 'ow1');
+    const middle = findByEdge(graph, 'mw1');
+
+    expect(outer.holes!.map(hole => [...hole].sort())).toEqual([['mw1', 'mw2', 'mw3', 'mw4']]);
+    expect(outer.area).toBe(600 * 600 - 400 * 400);
+    expect(middle.holes!.map(hole => [...hole].sort())).toEqual([['iw1', 'iw2', 'iw3', 'iw4']]);
+    expect(middle.area).toBe(400 * 400 - 100 * 100);
+  });
+
+  test('rooms side by side do not become holes of each other', () => {
+    const graph = new SpatialGraph();
+    addRectangle(graph, 0, 0, 200, 'a');
+    addRectangle(graph, 500, 0, 200, 'b');
+
+    surfacesToArray(graph.getSurfaces()).forEach(surface => {
+      expect(surface.holes).toBeUndefined();
+      expect(surface.area).toBe(200 * 200);
+    });
+  });
+
+  test('moving an island out of a room removes the hole', () => {
+    const graph = new SpatialGraph();
+    addRectangle(graph, 0, 0, 400, 'o');
+    addRectangle(graph, 150, 150, 100, 'c');
+
+    graph.moveVertices(new Map([
+      ['cp1', { x: 650, y: 150 }],
+      ['cp2', { x: 750, y: 150 }],
+      ['cp3', { x: 750, y: 250 }],
+      ['cp4', { x: 650, y: 250 }],
+    ]));
+
+    const room = findByEdge(graph, 'ow1');
+    expect(room.holes).toBeUndefined();
+    expect(room.area).toBe(400 * 400);
+  });
+});
+
+describe('SpatialGraph - Detection Options', () => {
+  const buildGraph = () => {
+    const graph = new SpatialGraph();
+    [[0, 200, 'big'], [300, 20, 'closet']].forEach(([x, size, prefix]) => {
+      const { vertices, edges } = createRectangle(x as number, 0, size as number, size as number, prefix as string);
+      vertices.forEach(v => graph.addVertex(v));
+      edges.forEach(e => graph.addEdge(e));
+    });
+    return graph;
+  };
+
+  test('drops rooms below the minimum area and re-detects when it changes', () => {
+    const graph = buildGraph();
+    expect(graph.getSurfaces().size).toBe(2);
+
+    graph.setDetectionOptions({ minArea: 1000 });
+    expect(surfacesToArray(graph.getSurfaces()).map(s => s.area)).toEqual([200 * 200]);
+
+    // Later edits keep using the option
+    const { vertices, edges } = createRectangle(600, 0, 30, 30, 'duct');
+    vertices.forEach(v => graph.addVertex(v));
+    edges.forEach(e => graph.addEdge(e));
+    expect(graph.getSurfaces().size).toBe(1);
+    expect(graph.clone().getDetectionOptions().minArea).toBe(1000);
+
+    graph.setDetectionOptions({ minArea: 100 });
+    expect(graph.getSurfaces().size).toBe(3);
+  });
+
+  test('can leave dead-end walls out of room boundaries', () => {
+    const graph = buildGraph();
+    graph.addVertex({ id: 'stub', x: 100, y: 120 });
+    graph.addEdge({ id: 'filament', startVertexId: 'bigp3', endVertexId: 'stub' });
+    expect(surfacesToArray(graph.getSurfaces()).some(s => s.edgeIds.includes('filament'))).toBe(true);
+
+    graph.setDetectionOptions({ ignoreFilaments: true });
+    const rooms = surfacesToArray(graph.getSurfaces());
+    expect(rooms.some(s => s.edgeIds.includes('filament'))).toBe(false);
+    expect([...rooms.find(s => s.edgeIds.includes('bigw1'))!.edgeIds].sort()).toEqual(['bigw1', 'bigw2', 'bigw3', 'bigw4']);
+    expect(rooms.find(s => s.edgeIds.includes('bigw1'))!.area).toBe(200 * 200);
+  });
+
+  test('separators split rooms unless they are excluded', () => {
+    const graph = new SpatialGraph();
+    [[0, 0], [100, 0], [200, 0], [200, 200], [100, 200], [0, 200]].forEach(([x, y], i) => graph.addVertex({ id: `v${i}`, x, y }));
+    [0, 1, 2, 3, 4, 5].forEach(i => graph.addEdge({ id: `w${i}`, startVertexId: `v${i}`, endVertexId: `v${(i + 1) % 6}` }));
+    graph.addEdge({ id: 'sep', startVertexId: 'v1', endVertexId: 'v4', kind: 'separator' });
+    expect(surfacesToArray(graph.getSurfaces()).map(s => s.area)).toEqual([100 * 200, 100 * 200]);
+
+    graph.setDetectionOptions({ includeSeparators: false });
+    expect(surfacesToArray(graph.getSurfaces()).map(s => s.area)).toEqual([200 * 200]);
+
+    // Incremental updates respect the option too
+    graph.addEdge({ id: 'sep2', startVertexId: 'v4', endVertexId: 'v2', kind: 'separator' });
+    expect(surfacesToArray(graph.getSurfaces()).map(s => s.area)).toEqual([200 * 200]);
+  });
+});
+
+describe('SpatialGraph - Curved Edges', () => {
+  const buildDShape = () => {
+    const graph = new SpatialGraph();
+    graph.addVertex({ id: 'a', x: 0, y: 0 });
+    graph.addVertex({ id: 'b', x: 200, y: 0 });
+    graph.addEdge({ id: 'line', startVertexId: 'a', endVertexId: 'b' });
+    // A half circle below the line (right of a → b)
+    graph.addEdge({ id: 'arc', startVertexId: 'a', endVertexId: 'b', bulge: -1 });
+    return graph;
+  };
+
+  test('detects a room bounded by a straight edge and an arc', () => {
+    const graph = buildDShape();
+    const rooms = surfacesToArray(graph.getSurfaces());
+
+    expect(rooms).toHaveLength(1);
+    expect([...rooms[0].edgeIds].sort()).toEqual(['arc', 'line']);
+    expect(rooms[0].area).toBeCloseTo((Math.PI * 100 * 100) / 2);
+    expect(rooms[0].centroid.y).toBeGreaterThan(0);
+
+    // The outline follows the curve
+    const boundary = graph.getSurfaceBoundary(rooms[0].id);
+    expect(Math.max(...boundary.map(p => p.y))).toBeCloseTo(100);
+  });
+
+  test('orders edges around a vertex by their tangents, not their chords', () => {
+    // Three edges with the same chord: arcs above and below a straight line
+    const graph = buildDShape();
+    graph.addEdge({ id: 'top', startVertexId: 'b', endVertexId: 'a', bulge: -0.5 });
+    const segment = (bulge: number) => {
+      const sweep = 4 * Math.atan(bulge);
+      const radius = (200 * (1 + bulge * bulge)) / (4 * bulge);
+      return (radius * radius * (sweep - Math.sin(sweep))) / 2;
+    };
+
+    const rooms = surfacesToArray(graph.getSurfaces()).sort((p, q) => p.area - q.area);
+    expect(rooms).toHaveLength(2);
+    expect([...rooms[0].edgeIds].sort()).toEqual(['line', 'top']);
+    expect(rooms[0].area).toBeCloseTo(segment(0.5));
+    expect([...rooms[1].edgeIds].sort()).toEqual(['arc', 'line']);
+  });
+
+  test('re-detects rooms when an edge is bent', () => {
+    const graph = new SpatialGraph();
+    const { vertices, edges } = createRectangle(0, 0, 200, 200);
+    vertices.forEach(v => graph.addVertex(v));
+    edges.forEach(e => graph.addEdge(e));
+
+    const edge = edges[0];
+    const start = graph.getVertex(edge.startVertexId)!;
+    const end = graph.getVertex(edge.endVertexId)!;
+    graph.updateEdge(edge.id, { bulge: 1 });
+    graph.updateSurfacesAround([start.id, end.id]);
+
+    // Bowed outwards or inwards, the half disc is added or taken away
+    const area = surfacesToArray(graph.getSurfaces())[0].area;
+    expect(Math.abs(area - 200 * 200)).toBeCloseTo((Math.PI * 100 * 100) / 2);
+
+    // Picking and spatial queries see the bulge too
+    const middle = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+    expect(graph.nearestEdge(middle.x, middle.y, 5)?.edge.id).not.toBe(edge.id);
+  });
+});
+
+describe('SpatialGraph - Spatial Queries', () => {
+  let graph: SpatialGraph;
+
+  beforeEach(() => {
+    graph = new SpatialGraph();
+    const { vertices, edges } = createRectangle(0, 0, 100, 100);
+    vertices.forEach(v => graph.addVertex(v));
+    edges.forEach(e => graph.addEdge(e));
+  });
+
+  test('queryRadius returns vertices within the radius, nearest first', () => {
+    expect(graph.queryRadius(10, 5, 20).map(v => v.id)).toEqual(['p1']);
+    expect(graph.queryRadius(10, 20, 100).map(v => v.id)).toEqual(['p1', 'p4', 'p2']);
+    expect(graph.queryRadius(50, 50, 10)).toEqual([]);
+  });
+
+  test('queryRect returns vertices inside and edges touching the rectangle', () => {
+    const { vertices, edges } = graph.queryRect({ minX: 90, minY: 40, maxX: 120, maxY: 60 });
+
+    expect(vertices).toEqual([]);
+    expect(edges.map(e => e.id)).toEqual(['w2']);
+    expect(graph.queryRect({ minX: -5, minY: -5, maxX: 5, maxY: 5 }).edges.map(e => e.id).sort()).toEqual(['w1', 'w4']);
+  });
+
+  test('nearestEdge returns the closest edge and the point on it', () => {
+    expect(graph.nearestEdge(95, 30, 10)).toEqual({
+      edge: graph.getEdge('w2'),
+      distance: 5,
+      point: { x: 100, y: 30 },
+      t: 0.3,
+    });
+    expect(graph.nearestEdge(50, 50, 10)).toBeNull();
+  });
+
+  test('keeps the index up to date as the graph changes', () => {
+    graph.queryRadius(0, 0, 1);
+
+    graph.moveVertices(new Map([['p3', { x: 300, y: 300 }]]));
+    expect(graph.queryRadius(300, 300, 1).map(v => v.id)).toEqual(['p3']);
+    expect(graph.nearestEdge(200, 150, 1)?.edge.id).toBe('w2');
+    expect(graph.nearestEdge(150, 200, 1)?.edge.id).toBe('w3');
+
+    graph.removeEdge('w1');
+    expect(graph.nearestEdge(50, 0, 1)).toBeNull();
+
+    graph.removeVertex('p4');
+    expect(graph.queryRadius(0, 100, 1)).toEqual([]);
+    expect(graph.queryRect({ minX: -1, minY: 40, maxX: 1, maxY: 60 }).edges).toEqual([]);
+
+    graph.addVertex({ id: 'p5', x: -50, y: -50 });
+    graph.addEdge({ id: 'w5', startVertexId: 'p1', endVertexId: 'p5' });
+    expect(graph.nearestEdge(-25, -24, 2)?.edge.id).toBe('w5');
+  });
+
+  test('clones carry an independent index', () => {
+    graph.queryRadius(0, 0, 1);
+    const copy = graph.clone();
+    copy.moveVertices(new Map([['p1', { x: -100, y: -100 }]]));
+
+    expect(graph.queryRadius(0, 0, 1).map(v => v.id)).toEqual(['p1']);
+    expect(copy.queryRadius(0, 0, 1)).toEqual([]);
+    expect(copy.queryRadius(-100, -100, 1).map(v => v.id)).toEqual(['p1']);
+  });
+});
+
+describe('SpatialGraph - Incremental Surface Detection', () => {
+  // Small deterministic PRNG so failures can be reproduced from the seed
+  const createRandom = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const expectSameAsFullDetection = (graph: SpatialGraph) => {
+    const reference = graph.clone();
+    reference.detectAllSurfaces();
+
+    const describeSurfaces = (g: SpatialGraph) =>
+      surfacesToArray(g.getSurfaces())
+        .map(s => ({
+          id: s.id,
+          name: s.name,
+          edges: [[...s.edgeIds].sort().join(','), ...(s.holes ?? []).map(hole => [...hole].sort().join(',')).sort()].join('|'),
+          area: s.area,
+          centroid: s.centroid,
+        }))
+        .sort((a, b) => a.id.localeCompare(b.id));
+
+    const actual = describeSurfaces(graph);
+    const expected = describeSurfaces(reference);
+    expect(actual.map(({ id, name, edges }) => ({ id, name, edges }))).toEqual(
+      expected.map(({ id, name, edges }) => ({ id, name, edges }))
+    );
+    actual.forEach((surface, i) => {
+      expect(surface.area).toBeCloseTo(expected[i].area, 6);
+      expect(surface.centroid.x).toBeCloseTo(expected[i].centroid.x, 6);
+      expect(surface.centroid.y).toBeCloseTo(expected[i].centroid.y, 6);
+    });
+  };
+
+  test('matches full detection when rooms are added to one of several components', () => {
+    const graph = new SpatialGraph();
+    [0, 500].forEach((x, k) => {
+      const { vertices, edges } = createRectangle(x, 0, 200, 200, `r${k}`);
+      vertices.forEach(v => graph.addVertex(v));
+      edges.forEach(e => graph.addEdge(e));
+    });
+    const untouched = graph.getSurfaces();
+
+    graph.addVertex({ id: 'm1', x: 600, y: 0 });
+    graph.removeEdge('r1w1');
+    graph.addEdge({ id: 'a', startVertexId: 'r1p1', endVertexId: 'm1' });
+    graph.addEdge({ id: 'b', startVertexId: 'm1', endVertexId: 'r1p2' });
+    graph.addVertex({ id: 'm2', x: 600, y: 200 });
+    graph.removeEdge('r1w3');
+    graph.addEdge({ id: 'c', startVertexId: 'r1p3', endVertexId: 'm2' });
+    graph.addEdge({ id: 'd', startVertexId: 'm2', endVertexId: 'r1p4' });
+    graph.addEdge({ id: 'e', startVertexId: 'm1', endVertexId: 'm2' });
+
+    expect(graph.getSurfaces().size).toBe(3);
+    untouched.forEach((surface, id) => {
+      if (surface.edgeIds.every(edgeId => edgeId.startsWith('r0'))) {
+        expect(graph.getSurface(id)).toEqual(surface);
+      }
+    });
+    expectSameAsFullDetection(graph);
+  });
+
+  test('matches full detection when an island inside a room is edited', () => {
+    const graph = new SpatialGraph();
+    [[0, 400], [150, 100]].forEach(([at, size], k) => {
+      const { vertices, edges } = createRectangle(at, at, size, size, `r${k}`);
+      vertices.forEach(v => graph.addVertex(v));
+      edges.forEach(e => graph.addEdge(e));
+      expectSameAsFullDetection(graph);
+    });
+
+    // Only the island's component is re-traced, but the room around it still changes
+    graph.moveVertices(new Map([['r1p3', { x: 300, y: 320 }]]));
+    expectSameAsFullDetection(graph);
+    graph.removeEdge('r1w2');
+    expectSameAsFullDetection(graph);
+    expect(graph.getSurfaces().size).toBe(1);
+    expect(surfacesToArray(graph.getSurfaces())[0].holes).toBeUndefined();
+  });
+
+  test.each([
+    ...[1, 2, 3, 4, 5, 6, 7, 8].map(seed => ({ seed, ignoreFilaments: false })),
+    ...[9, 10].map(seed => ({ seed, ignoreFilaments: true })),
+  ])('matches full detection over random edits (seed $seed, ignoreFilaments $ignoreFilaments)', ({ seed, ignoreFilaments }) => {
+    const random = createRandom(seed);
+    const pick = <T,>(items: T[]): T => items[Math.floor(random() * items.length)];
+    const graph = new SpatialGraph();
+    graph.setDetectionOptions({ ignoreFilaments });
+
+    // Vertices on a coarse lattice, so walls meet, cross and enclose rooms often
+    const size = 6;
+    const spacing = 100;
+    for (let i = 0; i < size; i++) {
+      for (let j = 0; j < size; j++) {
+        graph.addVertex({ id: `v${i}-${j}`, x: i * spacing, y: j * spacing });
+      }
+    }
+
+    let nextId = 0;
+    for (let step = 0; step < 120; step++) {
+      const vertexIds = Array.from(graph.getVertices().keys());
+      const edgeIds = Array.from(graph.getEdges().keys());
+      const action = random();
+
+      if (action < 0.55 || edgeIds.length < 4) {
+        // Mostly short walls between nearby vertices
+        const from = graph.getVertex(pick(vertexIds))!;
+        const candidates = vertexIds
+          .map(id => graph.getVertex(id)!)
+          .filter(v => v.id !== from.id && Math.hypot(v.x - from.x, v.y - from.y) <= spacing * 1.5);
+        const to = candidates.length > 0 ? pick(candidates) : graph.getVertex(pick(vertexIds))!;
+        if (to.id !== from.id && !graph.areVerticesConnected(from.id, to.id)) {
+          graph.addEdge({ id: `e${nextId++}`, startVertexId: from.id, endVertexId: to.id });
+        }
+      } else if (action < 0.75) {
+        graph.removeEdge(pick(edgeIds));
+      } else if (action < 0.9) {
+        // Split a wall at its midpoint
+        const edge = graph.getEdge(pick(edgeIds))!;
+        const a = graph.getVertex(edge.startVertexId)!;
+        const b = graph.getVertex(edge.endVertexId)!;
+        const middle = { id: `s${nextId++}`, x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+        graph.addVertex(middle);
+        graph.removeEdge(edge.id);
+        graph.addEdge({ id: `e${nextId++}`, startVertexId: a.id, endVertexId: middle.id });
+        graph.addEdge({ id: `e${nextId++}`, startVertexId: middle.id, endVertexId: b.id });
+      } else {
+        const vertex = graph.getVertex(pick(vertexIds))!;
+        graph.moveVertices(new Map([[vertex.id, { x: vertex.x + (random() - 0.5) * 60, y: vertex.y + (random() - 0.5) * 60 }]]));
+      }
+
+      expectSameAsFullDetection(graph);
+    }
+
+    expect(graph.getSurfaces().size).toBeGreaterThan(0);
+  });
 });
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { GridIndex, segmentIntersectsBounds } from '../../src/utils/spatialIndex';
+import { SpatialGraph } from '../../src/utils/spatialGraph';
+import type { Edge, Vertex } from '../../src/types/spatial';
+
+describe('GridIndex', () => {
+  it('finds items whose bounds overlap the query', () => {
+    const index = new GridIndex(10);
+    index.insert('a', { minX: 0, minY: 0, maxX: 5, maxY: 5 });
+    index.insert('b', { minX: 12, minY: 0, maxX: 35, maxY: 2 });
+    index.insert('c', { minX: 50, minY: 50, maxX: 50, maxY: 50 });
+
+    expect(index.search({ minX: 4, minY: 1, maxX: 13, maxY: 3 }).sort()).toEqual(['a', 'b']);
+    expect(index.search({ minX: 6, minY: 6, maxX: 9, maxY: 9 })).toEqual([]);
+    expect(index.search({ minX: 49, minY: 49, maxX: 51, maxY: 51 })).toEqual(['c']);
+  });
+
+  it('moves and removes items', () => {
+    const index = new GridIndex(10);
+    index.insert('a', { minX: 0, minY: 0, maxX: 1, maxY: 1 });
+    index.insert('a', { minX: 100, minY: 100, maxX: 101, maxY: 101 });
+
+    expect(index.search({ minX: 0, minY: 0, maxX: 1, maxY: 1 })).toEqual([]);
+    expect(index.search({ minX: 100, minY: 100, maxX: 100, maxY: 100 })).toEqual(['a']);
+
+    index.remove('a');
+    expect(index.size).toBe(0);
+    expect(index.search({ minX: 100, minY: 100, maxX: 100, maxY: 100 })).toEqual([]);
+  });
+
+  it('handles items much larger than a cell', () => {
+    const index = new GridIndex(1);
+    index.insert('wide', { minX: -10000, minY: 0, maxX: 10000, maxY: 0 });
+
+    expect(index.search({ minX: 5000, minY: -1, maxX: 5001, maxY: 1 })).toEqual(['wide']);
+    index.remove('wide');
+    expect(index.search({ minX: 5000, minY: -1, maxX: 5001, maxY: 1 })).toEqual([]);
+  });
+});
+
+describe('segmentIntersectsBounds', () => {
+  const box = { minX: 0, minY: 0, maxX: 10, maxY: 10 };
+
+  it('detects segments crossing, inside or outside the box', () => {
+    expect(segmentIntersectsBounds({ x: -5, y: 5 }, { x: 15, y: 5 }, box)).toBe(true);
+    expect(segmentIntersectsBounds({ x: 2, y: 2 }, { x: 3, y: 3 }, box)).toBe(true);
+    expect(segmentIntersectsBounds({ x: -5, y: 12 }, { x: 12, y: 20 }, box)).toBe(false);
+    // Diagonal passing just outside the corner
+    expect(segmentIntersectsBounds({ x: 8, y: -5 }, { x: 16, y: 3 }, box)).toBe(false);
+  });
+});
+
+describe('spatial query performance', () => {
+  // A 72 x 72 grid of walls: 5184 vertices and 10224 edges
+  const createLargeGraph = () => {
+    const size = 72;
+    const spacing = 100;
+    const vertices: Vertex[] = [];
+    const edges: Edge[] = [];
+    const id = (i: number, j: number) => `v${i}-${j}`;
+
+    for (let i = 0; i < size; i++) {
+      for (let j = 0; j < size; j++) {
+        vertices.push({ id: id(i, j), x: i * spacing, y: j * spacing });
+        if (i > 0) edges.push({ id: `h${i}-${j}`, startVertexId: id(i - 1, j), endVertexId: id(i, j) });
+        if (j > 0) edges.push({ id: `v${i}-${j}`, startVertexId: id(i, j - 1), endVertexId: id(i, j) });
+      }
+    }
+
+    return SpatialGraph.fromJSON({ vertices, edges, surfaces: [] });
+  };
+
+  it('answers queries in well under a millisecond at 10k edges', () => {
+    const graph = createLargeGraph();
+    expect(graph.getCounts().edges).toBeGreaterThan(10000);
+
+    // Build the index before timing
+    graph.queryRadius(0, 0, 1);
+
+    const queries = 2000;
+    const started = performance.now();
+    for (let k = 0; k < queries; k++) {
+      const x = (k * 37) % 7100;
+      const y = (k * 53) % 7100;
+      graph.queryRadius(x, y, 10);
+      graph.nearestEdge(x, y, 10);
+      graph.queryRect({ minX: x, minY: y, maxX: x + 150, maxY: y + 150 });
+    }
+    const perQuery = (performance.now() - started) / (queries * 3);
+
+    expect(perQuery).toBeLessThan(1);
+  });
+});
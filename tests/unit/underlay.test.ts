@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calibratePixelsPerMm,
+  calibrateUnderlay,
+  createUnderlay,
+  getUnderlayCorners,
+  isPointOnUnderlay,
+} from '../../src/utils/underlay';
+
+describe('Underlay', () => {
+  const base = { ...createUnderlay('data:', 200, 100, { x: 0, y: 0, width: 250, height: 250 }) };
+
+  it('fits a new image into the view, centred', () => {
+    expect(base).toMatchObject({ x: 125, y: 125, rotation: 0, locked: false });
+    // 80% of the view width over the wider side
+    expect(base.scale).toBeCloseTo(1);
+  });
+
+  it('rotates its corners about the centre', () => {
+    const corners = getUnderlayCorners({ ...base, x: 0, y: 0, rotation: 90 });
+
+    // Top-left (-100, -50) rotated clockwise on screen lands at (50, -100)
+    expect(corners[0].x).toBeCloseTo(50);
+    expect(corners[0].y).toBeCloseTo(-100);
+  });
+
+  it('hit-tests points in the rotated image frame', () => {
+    const rotated = { ...base, x: 0, y: 0, rotation: 90 };
+
+    expect(isPointOnUnderlay(base, { x: 200, y: 125 })).toBe(true);
+    expect(isPointOnUnderlay(rotated, { x: 0, y: 90 })).toBe(true);
+    expect(isPointOnUnderlay(rotated, { x: 90, y: 0 })).toBe(false);
+  });
+
+  it('rescales about the first calibration point', () => {
+    // The points are 100 px apart; at 0.1 px/mm a 2000 mm distance is 200 px
+    const calibrated = calibrateUnderlay(base, { x: 75, y: 125 }, { x: 175, y: 125 }, 2000, 0.1);
+
+    expect(calibrated.scale).toBeCloseTo(2);
+    expect(calibrated.x).toBeCloseTo(175);
+    expect(calibrated.y).toBeCloseTo(125);
+  });
+
+  it('ignores degenerate calibrations', () => {
+    expect(calibrateUnderlay(base, { x: 1, y: 1 }, { x: 1, y: 1 }, 1000, 0.1)).toBe(base);
+    expect(calibratePixelsPerMm({ x: 0, y: 0 }, { x: 0, y: 0 }, 1000)).toBeNull();
+  });
+
+  it('derives the drawing scale from a known distance', () => {
+    expect(calibratePixelsPerMm({ x: 0, y: 0 }, { x: 300, y: 400 }, 2500)).toBeCloseTo(0.2);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CAMERA,
+  MAX_ZOOM,
+  fitBounds,
+  getBounds,
+  panBy,
+  screenToWorld,
+  worldToScreen,
+  zoomAt,
+} from '../../src/utils/viewport';
+
+describe('Viewport', () => {
+  it('round-trips between screen and world coordinates', () => {
+    const camera = { x: 120, y: -40, scale: 2.5 };
+    const world = { x: 33, y: 71 };
+
+    const screen = worldToScreen(camera, world);
+    const back = screenToWorld(camera, screen);
+
+    expect(back.x).toBeCloseTo(world.x);
+    expect(back.y).toBeCloseTo(world.y);
+  });
+
+  it('keeps the world point under the cursor fixed when zooming', () => {
+    const cursor = { x: 300, y: 200 };
+    const before = screenToWorld(DEFAULT_CAMERA, cursor);
+
+    const zoomed = zoomAt(DEFAULT_CAMERA, cursor, 3);
+    const after = screenToWorld(zoomed, cursor);
+
+    expect(zoomed.scale).toBe(3);
+    expect(after.x).toBeCloseTo(before.x);
+    expect(after.y).toBeCloseTo(before.y);
+  });
+
+  it('clamps the zoom level', () => {
+    const zoomed = zoomAt(DEFAULT_CAMERA, { x: 0, y: 0 }, 1000);
+    expect(zoomed.scale).toBe(MAX_ZOOM);
+  });
+
+  it('pans in screen space', () => {
+    expect(panBy({ x: 10, y: 10, scale: 4 }, 5, -5)).toEqual({ x: 15, y: 5, scale: 4 });
+  });
+
+  it('fits bounds centred in the view', () => {
+    const bounds = getBounds([{ x: 0, y: 0 }, { x: 200, y: 100 }])!;
+    const camera = fitBounds(bounds, { width: 500, height: 500 }, 50);
+
+    // 400px available for 200 units of width
+    expect(camera.scale).toBeCloseTo(2);
+    const center = worldToScreen(camera, { x: 100, y: 50 });
+    expect(center.x).toBeCloseTo(250);
+    expect(center.y).toBeCloseTo(250);
+  });
+
+  it('keeps the fallback zoom for a single point', () => {
+    const bounds = getBounds([{ x: 10, y: 20 }])!;
+    const camera = fitBounds(bounds, { width: 400, height: 300 }, 40, 1.5);
+
+    expect(camera.scale).toBe(1.5);
+    expect(worldToScreen(camera, { x: 10, y: 20 })).toEqual({ x: 200, y: 150 });
+  });
+
+  it('returns null bounds for no points', () => {
+    expect(getBounds([])).toBeNull();
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { SpatialGraph } from '../../src/utils/spatialGraph';
+import {
+  calculateNetArea,
+  computeWallPolygons,
+  getWallOffsets,
+  getWallThickness,
+} from '../../src/utils/walls';
+import { signedPolygonArea } from '../../src/utils/geometry';
+import { getPathArea } from '../../src/utils/arcs';
+import { createRectangle, createTwoAdjacentRooms } from '../helpers/mockData';
+
+const PIXELS_PER_MM = 0.1;
+
+const buildGraph = ({ vertices, edges }: ReturnType<typeof createRectangle>) => {
+  const graph = new SpatialGraph();
+  vertices.forEach(v => graph.addVertex(v));
+  edges.forEach(e => graph.addEdge(e));
+  return graph;
+};
+
+const containsPoint = (polygon: { x: number; y: number }[], x: number, y: number) =>
+  polygon.some(p => Math.abs(p.x - x) < 1e-6 && Math.abs(p.y - y) < 1e-6);
+
+describe('Walls', () => {
+  describe('thickness and alignment', () => {
+    it('falls back to the wall type thickness', () => {
+      expect(getWallThickness({ id: 'e', startVertexId: 'a', endVertexId: 'b' })).toBe(150);
+      expect(getWallThickness({ id: 'e', startVertexId: 'a', endVertexId: 'b', wallType: 'exterior' })).toBe(300);
+      expect(getWallThickness({ id: 'e', startVertexId: 'a', endVertexId: 'b', thickness: 240 })).toBe(240);
+    });
+
+    it('splits the thickness according to alignment', () => {
+      const edge = { id: 'e', startVertexId: 'a', endVertexId: 'b', thickness: 200 };
+
+      expect(getWallOffsets(edge, PIXELS_PER_MM)).toEqual({ left: 10, right: 10 });
+      expect(getWallOffsets({ ...edge, alignment: 'left' }, PIXELS_PER_MM)).toEqual({ left: 20, right: 0 });
+      expect(getWallOffsets({ ...edge, alignment: 'right' }, PIXELS_PER_MM)).toEqual({ left: 0, right: 20 });
+    });
+  });
+
+  describe('computeWallPolygons', () => {
+    it('mitres L-corners', () => {
+      const graph = buildGraph(createRectangle(0, 0, 100, 100));
+      const polygons = computeWallPolygons(graph, PIXELS_PER_MM);
+      const top = polygons.get('w1')!;
+
+      expect(containsPoint(top, -7.5, -7.5)).toBe(true);
+      expect(containsPoint(top, 7.5, 7.5)).toBe(true);
+      expect(containsPoint(top, 107.5, -7.5)).toBe(true);
+      expect(containsPoint(top, 92.5, 7.5)).toBe(true);
+    });
+
+    it('tiles a closed room without gaps or overlaps', () => {
+      const graph = buildGraph(createRectangle(0, 0, 100, 100));
+      const polygons = computeWallPolygons(graph, PIXELS_PER_MM);
+
+      let total = 0;
+      polygons.forEach(polygon => (total += Math.abs(signedPolygonArea(polygon))));
+
+      expect(total).toBeCloseTo(115 * 115 - 85 * 85);
+    });
+
+    it('joins T-junctions at the inner corners', () => {
+      const graph = buildGraph(createTwoAdjacentRooms());
+      const polygons = computeWallPolygons(graph, PIXELS_PER_MM);
+      const stem = polygons.get('w2')!;
+
+      expect(containsPoint(stem, 92.5, 7.5)).toBe(true);
+      expect(containsPoint(stem, 107.5, 7.5)).toBe(true);
+      expect(containsPoint(stem, 100, 0)).toBe(true);
+    });
+
+    it('gives curved walls concentric arc faces', () => {
+      const graph = new SpatialGraph();
+      graph.addVertex({ id: 'a', x: 0, y: 0 });
+      graph.addVertex({ id: 'b', x: 200, y: 0 });
+      graph.addEdge({ id: 'arc', startVertexId: 'a', endVertexId: 'b', bulge: 1 });
+      const polygon = computeWallPolygons(graph, PIXELS_PER_MM).get('arc')!;
+
+      expect(polygon.map(p => p.bulge ?? 0).sort()).toEqual([-1, 0, 0, 1]);
+      // Half an annulus between radii 92.5 and 107.5
+      expect(Math.abs(getPathArea(polygon))).toBeCloseTo((Math.PI / 2) * (107.5 ** 2 - 92.5 ** 2));
+    });
+  });
+
+  describe('calculateNetArea', () => {
+    it('subtracts the wall thickness inside the room', () => {
+      const graph = buildGraph(createRectangle(0, 0, 100, 100));
+      const [surface] = Array.from(graph.getSurfaces().values());
+
+      expect(surface.area).toBeCloseTo(10000);
+      expect(calculateNetArea(graph, surface.id, PIXELS_PER_MM)).toBeCloseTo(85 * 85);
+    });
+
+    it('subtracts holes grown by their wall thickness', () => {
+      const graph = buildGraph(createRectangle(0, 0, 400, 400));
+      const column = createRectangle(150, 150, 100, 100, 'c');
+      column.vertices.forEach(v => graph.addVertex(v));
+      column.edges.forEach(e => graph.addEdge(e));
+      const room = Array.from(graph.getSurfaces().values()).find(s => s.edgeIds.includes('w1'))!;
+
+      expect(room.area).toBeCloseTo(400 * 400 - 100 * 100);
+      expect(calculateNetArea(graph, room.id, PIXELS_PER_MM)).toBeCloseTo(385 * 385 - 115 * 115);
+    });
+
+    it('follows curved walls', () => {
+      // A half disc of radius 100 below a straight wall
+      const graph = new SpatialGraph();
+      graph.addVertex({ id: 'a', x: 0, y: 0 });
+      graph.addVertex({ id: 'b', x: 200, y: 0 });
+      graph.addEdge({ id: 'line', startVertexId: 'a', endVertexId: 'b' });
+      graph.addEdge({ id: 'arc', startVertexId: 'a', endVertexId: 'b', bulge: -1 });
+      const [room] = Array.from(graph.getSurfaces().values());
+
+      // The circle shrinks to radius 92.5 and is cut 7.5 below its centre
+      const r = 92.5;
+      const d = 7.5;
+      const expected = r * r * Math.acos(d / r) - d * Math.sqrt(r * r - d * d);
+      expect(calculateNetArea(graph, room.id, PIXELS_PER_MM) / expected).toBeCloseTo(1, 2);
+    });
+
+    it('measures up to separators, which have no body', () => {
+      const { vertices, edges } = createTwoAdjacentRooms();
+      const graph = buildGraph({ vertices, edges: edges.map(e => (e.id === 'w2' ? { ...e, kind: 'separator' as const } : e)) });
+      const room = Array.from(graph.getSurfaces().values()).find(s => s.edgeIds.includes('w1'))!;
+
+      expect(computeWallPolygons(graph, PIXELS_PER_MM).has('w2')).toBe(false);
+      expect(calculateNetArea(graph, room.id, PIXELS_PER_MM)).toBeCloseTo(92.5 * 85);
+    });
+
+    it('respects alignment', () => {
+      const graph = buildGraph(createRectangle(0, 0, 100, 100));
+      const [surface] = Array.from(graph.getSurfaces().values());
+      const inward = graph.getSurfacePolygon(surface.id);
+      const interiorOnRight = signedPolygonArea(inward) > 0;
+
+      // Push every wall fully outside the room
+      graph.getEdges().forEach(edge => {
+        const forward = surface.edgeIds.includes(edge.id) &&
+          inward[surface.edgeIds.indexOf(edge.id)].id === edge.startVertexId;
+        const outsideIsLeft = interiorOnRight === forward;
+        graph.updateEdge(edge.id, { alignment: outsideIsLeft ? 'left' : 'right' });
+      });
+
+      expect(calculateNetArea(graph, surface.id, PIXELS_PER_MM)).toBeCloseTo(10000);
+    });
+  });
+});